@@ -14,6 +14,8 @@ import NotificationsPage from "@/pages/notifications-page";
 import ProfilePage from "@/pages/profile-page";
 import UserProfilePage from "@/pages/user-profile-page";
 import ChatPage from "@/pages/chat-page";
+import GroupChatPage from "@/pages/group-chat-page";
+import AdminPage from "@/pages/admin-page";
 import { ProtectedRoute } from "./lib/protected-route";
 import { AuthProvider } from "@/hooks/use-auth";
 import { SocketProvider } from "@/hooks/use-socket";
@@ -31,6 +33,8 @@ function Router() {
         <ProtectedRoute path="/profile/:userId" component={UserProfilePage} />
         <ProtectedRoute path="/profile" component={ProfilePage} />
         <ProtectedRoute path="/chat/:userId" component={ChatPage} />
+        <ProtectedRoute path="/groups/:groupId" component={GroupChatPage} />
+        <ProtectedRoute path="/admin" component={AdminPage} />
         <ProtectedRoute path="/" component={HomePage} />
         <Route path="/auth" component={AuthPage} />
         <Route component={NotFound} />
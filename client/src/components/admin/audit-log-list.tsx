@@ -0,0 +1,90 @@
+import { formatDistanceToNow } from "date-fns";
+import { AuditAction, AuditEventWithUsers } from "@shared/schema";
+
+// Read as "<actor> <label> <target>"
+export const actionLabels: Record<AuditAction, string> = {
+  login: "signed in as",
+  login_failed: "failed to sign in as",
+  profile_updated: "updated the profile of",
+  photo_deleted: "deleted a photo of",
+  user_blocked: "blocked",
+  user_unblocked: "unblocked",
+  report_created: "reported",
+  report_reviewed: "reviewed a report on",
+  user_suspended: "suspended",
+  user_unsuspended: "lifted the suspension of",
+  role_changed: "changed the role of",
+  sessions_revoked: "signed out",
+  message_deleted: "deleted a message by",
+  profile_content_removed: "removed profile content of",
+};
+
+const contentLabels: Record<string, string> = {
+  profilePhoto: "profile photo",
+  photos: "gallery",
+  bio: "bio",
+};
+
+function describeDetails(entry: AuditEventWithUsers) {
+  const details = (entry.details || {}) as Record<string, any>;
+  const before = (entry.before || {}) as Record<string, any>;
+  const after = (entry.after || {}) as Record<string, any>;
+  switch (entry.action) {
+    case "login_failed":
+      return details.reason === "suspended" ? "account suspended" : details.username && `as "${details.username}"`;
+    case "profile_updated":
+      return Object.keys(after).join(", ");
+    case "report_created":
+      return after.reason;
+    case "report_reviewed":
+      return details.action;
+    case "user_suspended": {
+      const length = details.days ? `for ${details.days} days` : "until further notice";
+      return details.reason ? `${length}: ${details.reason}` : length;
+    }
+    case "role_changed":
+      return `${before.role} → ${after.role}`;
+    case "sessions_revoked":
+      return `${details.sessions} session${details.sessions === 1 ? "" : "s"}`;
+    case "profile_content_removed":
+      return (details.fields as string[] | undefined)?.map(field => contentLabels[field] || field).join(", ");
+    default:
+      return undefined;
+  }
+}
+
+interface AuditLogListProps {
+  entries: AuditEventWithUsers[];
+  emptyText?: string;
+}
+
+export default function AuditLogList({ entries, emptyText = "Nothing recorded yet" }: AuditLogListProps) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyText}</p>;
+  }
+
+  return (
+    <ul className="space-y-3" data-testid="list-audit-log">
+      {entries.map((entry) => {
+        const summary = describeDetails(entry);
+        const note = (entry.details as { note?: string } | null)?.note;
+        return (
+          <li key={entry.id} className="text-sm">
+            <p>
+              <span className="font-medium">{entry.actor ? `@${entry.actor.username}` : "Someone"}</span>{" "}
+              {actionLabels[entry.action as AuditAction] || entry.action}{" "}
+              {entry.targetUser && <span className="font-medium">@{entry.targetUser.username}</span>}
+              {summary && <span className="text-muted-foreground"> ({summary})</span>}
+            </p>
+            {note && <p className="text-xs text-muted-foreground italic">"{note}"</p>}
+            {entry.createdAt && (
+              <p className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Flag, Loader2, Trash2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { reasonLabels } from "@/components/chat/report-dialog";
+import { cn } from "@/lib/utils";
+import { ModerationAction, ReportReason, ReportStatus, ReportWithUsers, REPORT_STATUSES } from "@shared/schema";
+
+const actionButtons: { action: ModerationAction; label: string; variant: "outline" | "secondary" | "destructive" }[] = [
+  { action: "dismiss", label: "Dismiss", variant: "outline" },
+  { action: "resolve", label: "Resolve", variant: "secondary" },
+  { action: "warn", label: "Warn", variant: "secondary" },
+  { action: "suspend", label: "Suspend", variant: "destructive" },
+];
+
+async function fetchReports(status: ReportStatus): Promise<ReportWithUsers[]> {
+  const res = await fetch(`/api/admin/reports?status=${status}`, { credentials: "include" });
+  if (!res.ok) throw new Error("Failed to fetch reports");
+  return res.json();
+}
+
+interface ReportCardProps {
+  report: ReportWithUsers;
+  onSelectUser: (userId: string) => void;
+}
+
+function ReportCard({ report, onSelectUser }: ReportCardProps) {
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState("");
+
+  const onSuccess = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/reports"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/audit-events"] });
+    toast({ title });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Action failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const moderateMutation = useMutation({
+    mutationFn: async (action: ModerationAction) => {
+      await apiRequest("PATCH", `/api/admin/reports/${report.id}`, {
+        action,
+        note: note.trim() || undefined,
+      });
+    },
+    onSuccess: () => onSuccess("Report closed"),
+    onError,
+  });
+
+  const deleteMessageMutation = useMutation({
+    mutationFn: async (messageId: string) => {
+      await apiRequest("DELETE", `/api/admin/messages/${messageId}`);
+    },
+    onSuccess: () => onSuccess("Message deleted"),
+    onError,
+  });
+
+  return (
+    <Card className="rounded-xl" data-testid={`card-report-${report.id}`}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Flag className="h-4 w-4 text-destructive" />
+            <span className="font-medium">{reasonLabels[report.reason as ReportReason] || report.reason}</span>
+            {report.messageId && <Badge variant="outline">Message</Badge>}
+          </div>
+          {report.createdAt && (
+            <span className="text-xs text-muted-foreground">
+              {formatDistanceToNow(new Date(report.createdAt), { addSuffix: true })}
+            </span>
+          )}
+        </div>
+
+        <p className="text-sm">
+          <button className="font-medium hover:underline" onClick={() => onSelectUser(report.reporter.id)}>
+            @{report.reporter.username}
+          </button>
+          {" reported "}
+          <button className="font-medium hover:underline" onClick={() => onSelectUser(report.targetUser.id)}>
+            @{report.targetUser.username}
+          </button>
+        </p>
+
+        {report.details && <p className="text-sm text-muted-foreground">"{report.details}"</p>}
+
+        {report.messageSnapshot && report.messageSnapshot.length > 0 && (
+          <div className="rounded-lg bg-muted/50 p-3 space-y-1 max-h-60 overflow-y-auto">
+            {report.messageSnapshot.map((message) => {
+              const isReported = message.id === report.messageId;
+              const fromTarget = message.senderId === report.targetUser.id;
+              return (
+                <div
+                  key={message.id}
+                  className={cn("flex items-start gap-2 text-sm rounded px-1", isReported && "bg-destructive/10")}
+                >
+                  <span className={cn("shrink-0 text-xs text-muted-foreground pt-0.5", fromTarget && "font-semibold")}>
+                    {fromTarget ? `@${report.targetUser.username}` : "Other"}
+                    {message.timestamp && ` · ${format(new Date(message.timestamp), "p")}`}
+                  </span>
+                  <span className="flex-1 break-words">
+                    {message.deletedAt
+                      ? <em className="text-muted-foreground">Message deleted</em>
+                      : message.content || (message.imageUrl && <em className="text-muted-foreground">Image</em>)}
+                  </span>
+                  {isReported && !message.deletedAt && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 shrink-0"
+                      onClick={() => deleteMessageMutation.mutate(message.id)}
+                      disabled={deleteMessageMutation.isPending}
+                      aria-label="Delete message"
+                      data-testid="button-admin-delete-message"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {report.status === "open" ? (
+          <div className="space-y-2">
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={1000}
+              rows={2}
+              placeholder="Note (sent to the user with a warning)"
+              data-testid="input-moderator-note"
+            />
+            <div className="flex flex-wrap gap-2">
+              {actionButtons.map(({ action, label, variant }) => (
+                <Button
+                  key={action}
+                  variant={variant}
+                  size="sm"
+                  className="rounded-lg"
+                  onClick={() => moderateMutation.mutate(action)}
+                  disabled={moderateMutation.isPending}
+                  data-testid={`button-report-${action}`}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            {report.action ? `Closed with a ${report.action}` : `Closed as ${report.status}`}
+            {report.reviewedAt && ` ${formatDistanceToNow(new Date(report.reviewedAt), { addSuffix: true })}`}
+            {report.moderatorNote && ` — "${report.moderatorNote}"`}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ReportsQueueProps {
+  onSelectUser: (userId: string) => void;
+}
+
+export default function ReportsQueue({ onSelectUser }: ReportsQueueProps) {
+  const [status, setStatus] = useState<ReportStatus>("open");
+
+  const { data: reports = [], isLoading } = useQuery({
+    queryKey: ["/api/admin/reports", status],
+    queryFn: () => fetchReports(status),
+  });
+
+  return (
+    <div className="space-y-4">
+      <Select value={status} onValueChange={(value: ReportStatus) => setStatus(value)}>
+        <SelectTrigger className="w-40 rounded-lg capitalize" data-testid="select-report-status">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {REPORT_STATUSES.map(reportStatus => (
+            <SelectItem key={reportStatus} value={reportStatus} className="capitalize">{reportStatus}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {isLoading ? (
+        <div className="flex justify-center py-10">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : reports.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-10">No {status} reports</p>
+      ) : (
+        reports.map(report => <ReportCard key={report.id} report={report} onSelectUser={onSelectUser} />)
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, LogOut, ShieldOff, Trash2 } from "lucide-react";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import AuditLogList from "@/components/admin/audit-log-list";
+import { AdminUserDetails, ProfileContentField, UserRole, USER_ROLES, hasRole, isSuspended } from "@shared/schema";
+
+// "" suspends until further notice
+const suspensionLengths = [
+  { value: "1", label: "1 day" },
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "", label: "Until further notice" },
+];
+
+const removableContent: { field: ProfileContentField; label: string }[] = [
+  { field: "profilePhoto", label: "Profile photo" },
+  { field: "photos", label: "Gallery" },
+  { field: "bio", label: "Bio" },
+];
+
+interface UserDetailsSheetProps {
+  userId: string | null;
+  onClose: () => void;
+}
+
+export default function UserDetailsSheet({ userId, onClose }: UserDetailsSheetProps) {
+  const { user: currentUser } = useAuth();
+  const queryClient = useQueryClient();
+  const [suspendDays, setSuspendDays] = useState("7");
+  const [suspendReason, setSuspendReason] = useState("");
+  const [note, setNote] = useState("");
+
+  const { data: account, isLoading } = useQuery<AdminUserDetails>({
+    queryKey: ["/api/admin/users", userId],
+    enabled: !!userId,
+  });
+
+  // Every action changes the account and adds to the audit log
+  const onActionSuccess = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/audit-events"] });
+    setNote("");
+    setSuspendReason("");
+    toast({ title });
+  };
+
+  const onActionError = (error: Error) => {
+    toast({
+      title: "Action failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const suspendMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/admin/users/${userId}/suspend`, {
+        days: suspendDays ? Number(suspendDays) : undefined,
+        reason: suspendReason.trim(),
+        note: note.trim() || undefined,
+      });
+    },
+    onSuccess: () => onActionSuccess("Account suspended"),
+    onError: onActionError,
+  });
+
+  const unsuspendMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/admin/users/${userId}/suspend`);
+    },
+    onSuccess: () => onActionSuccess("Suspension lifted"),
+    onError: onActionError,
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async (role: UserRole) => {
+      await apiRequest("PATCH", `/api/admin/users/${userId}/role`, { role });
+    },
+    onSuccess: () => onActionSuccess("Role updated"),
+    onError: onActionError,
+  });
+
+  const signOutMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/admin/users/${userId}/sessions`);
+      return res.json() as Promise<{ sessions: number }>;
+    },
+    onSuccess: ({ sessions }) => onActionSuccess(`Ended ${sessions} session${sessions === 1 ? "" : "s"}`),
+    onError: onActionError,
+  });
+
+  const removeContentMutation = useMutation({
+    mutationFn: async (field: ProfileContentField) => {
+      await apiRequest("POST", `/api/admin/users/${userId}/remove-content`, {
+        fields: [field],
+        note: note.trim() || undefined,
+      });
+    },
+    onSuccess: () => onActionSuccess("Content removed"),
+    onError: onActionError,
+  });
+
+  const isAdmin = !!currentUser && hasRole(currentUser, "admin");
+  const suspended = !!account && isSuspended(account);
+  const photos = account?.photos && Array.isArray(account.photos) ? account.photos : [];
+
+  return (
+    <Sheet open={!!userId} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Account details</SheetTitle>
+        </SheetHeader>
+
+        {isLoading || !account ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6 mt-6">
+            <div className="flex items-center gap-3">
+              <Avatar className="h-14 w-14">
+                <AvatarImage src={account.profilePhoto || undefined} />
+                <AvatarFallback>{account.firstName[0]}{account.lastName[0]}</AvatarFallback>
+              </Avatar>
+              <div className="min-w-0">
+                <p className="font-semibold truncate">{account.firstName} {account.lastName}</p>
+                <p className="text-sm text-muted-foreground truncate">@{account.username} · {account.email}</p>
+                <div className="flex gap-1 mt-1">
+                  <Badge variant="secondary" className="capitalize">{account.role}</Badge>
+                  {suspended && <Badge variant="destructive">Suspended</Badge>}
+                </div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <p className="text-muted-foreground text-xs">Joined</p>
+                <p>{account.createdAt ? format(new Date(account.createdAt), "PP") : "—"}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground text-xs">Last seen</p>
+                <p>{account.isOnline ? "Online now" : account.lastSeen ? format(new Date(account.lastSeen), "PPp") : "—"}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground text-xs">Messages sent</p>
+                <p>{account.messagesSent}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground text-xs">Active sessions</p>
+                <p>{account.activeSessions}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground text-xs">Reports against</p>
+                <p>{account.reportsAgainst}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground text-xs">Reports filed</p>
+                <p>{account.reportsFiled}</p>
+              </div>
+              {suspended && (
+                <div className="col-span-2">
+                  <p className="text-muted-foreground text-xs">Suspended</p>
+                  <p>
+                    {account.suspendedUntil
+                      ? `Until ${format(new Date(account.suspendedUntil), "PPp")}`
+                      : "Until further notice"}
+                    {account.suspensionReason && ` — ${account.suspensionReason}`}
+                  </p>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Note for the audit log</p>
+              <Textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                maxLength={1000}
+                rows={2}
+                placeholder="Optional"
+                data-testid="input-admin-note"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Suspension</p>
+              {suspended ? (
+                <Button
+                  variant="outline"
+                  className="w-full justify-start rounded-lg"
+                  onClick={() => unsuspendMutation.mutate()}
+                  disabled={unsuspendMutation.isPending}
+                  data-testid="button-unsuspend-user"
+                >
+                  <ShieldOff className="h-4 w-4 mr-2" />
+                  Lift suspension
+                </Button>
+              ) : (
+                <div className="space-y-2">
+                  <Input
+                    value={suspendReason}
+                    onChange={(e) => setSuspendReason(e.target.value)}
+                    maxLength={300}
+                    placeholder="Reason, shown to the user"
+                    className="rounded-lg"
+                    data-testid="input-suspend-reason"
+                  />
+                  <div className="flex gap-2">
+                    <Select value={suspendDays || "indefinite"} onValueChange={(value) => setSuspendDays(value === "indefinite" ? "" : value)}>
+                      <SelectTrigger className="rounded-lg" data-testid="select-suspend-length">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {suspensionLengths.map(({ value, label }) => (
+                          <SelectItem key={label} value={value || "indefinite"}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="destructive"
+                      className="rounded-lg"
+                      onClick={() => suspendMutation.mutate()}
+                      disabled={!suspendReason.trim() || suspendMutation.isPending}
+                      data-testid="button-suspend-user"
+                    >
+                      Suspend
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Profile content</p>
+              <div className="flex flex-wrap gap-2">
+                {removableContent.map(({ field, label }) => {
+                  const hasContent = field === "photos" ? photos.length > 0 : !!account[field];
+                  return (
+                    <Button
+                      key={field}
+                      variant="outline"
+                      size="sm"
+                      className="rounded-lg"
+                      onClick={() => removeContentMutation.mutate(field)}
+                      disabled={!hasContent || removeContentMutation.isPending}
+                      data-testid={`button-remove-${field}`}
+                    >
+                      <Trash2 className="h-3 w-3 mr-1" />
+                      {label}
+                    </Button>
+                  );
+                })}
+              </div>
+            </div>
+
+            {isAdmin && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Administration</p>
+                <Select
+                  value={account.role}
+                  onValueChange={(value: UserRole) => roleMutation.mutate(value)}
+                  disabled={roleMutation.isPending || account.id === currentUser?.id}
+                >
+                  <SelectTrigger className="rounded-lg capitalize" data-testid="select-user-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {USER_ROLES.map(role => (
+                      <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  className="w-full justify-start rounded-lg"
+                  onClick={() => signOutMutation.mutate()}
+                  disabled={signOutMutation.isPending}
+                  data-testid="button-revoke-sessions"
+                >
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Sign out of all devices
+                </Button>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Recent activity</p>
+              <AuditLogList entries={account.recentActivity} emptyText="Nothing recorded for this account" />
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,73 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { BlockedUser } from "@shared/schema";
+
+// The current user's blocked users, each with an unblock button
+export default function BlockedUsersList() {
+  const queryClient = useQueryClient();
+
+  const { data: blockedUsers = [], isLoading } = useQuery<BlockedUser[]>({
+    queryKey: ["/api/user/blocks"],
+  });
+
+  const unblockMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("DELETE", `/api/users/${userId}/block`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/blocks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users/online"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Unblock failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-2">
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (blockedUsers.length === 0) {
+    return <p className="text-xs text-muted-foreground">You haven't blocked anyone</p>;
+  }
+
+  return (
+    <div className="space-y-2" data-testid="list-blocked-users">
+      {blockedUsers.map((blocked) => (
+        <div key={blocked.id} className="flex items-center gap-3">
+          <Avatar className="h-8 w-8">
+            <AvatarImage src={blocked.profilePhoto || undefined} />
+            <AvatarFallback className="text-xs">{blocked.firstName[0]}{blocked.lastName[0]}</AvatarFallback>
+          </Avatar>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm truncate">{blocked.firstName} {blocked.lastName}</p>
+            <p className="text-xs text-muted-foreground truncate">@{blocked.username}</p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            className="rounded-lg"
+            onClick={() => unblockMutation.mutate(blocked.id)}
+            disabled={unblockMutation.isPending}
+            data-testid={`button-unblock-${blocked.id}`}
+          >
+            Unblock
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,38 +1,66 @@
 import { useState, useEffect, useRef } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Send, Paperclip, Smile, Info, Menu, Loader2 } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Send, Paperclip, Smile, Info, Menu, Loader2, Pencil, X, MessageCircleOff } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useSocket } from "@/hooks/use-socket";
-import { User, Message } from "@shared/schema";
+import { User, Message, MessageReplyPreview, GroupDetails, MAX_MESSAGE_LENGTH } from "@shared/schema";
 import { cn } from "@/lib/utils";
 import { apiRequest } from "@/lib/queryClient";
+import { socketEvents, type SocketEventMap } from "@/lib/socket-events";
 import EmojiPicker from "./emoji-picker";
+import MessageStatus from "./message-status";
+import OutboxMessageBubble from "./outbox-message";
+import MessageActions from "./message-actions";
+import MessageReactions, { ReactionPicker, longPressHandlers } from "./message-reactions";
+import QuotedMessage, { ReplyButton } from "./message-reply";
+import { GroupAvatar } from "./group-dialogs";
+import { PresenceDot, describePresence, getPresence } from "./presence-indicator";
+import ReportDialog, { ReportMessageButton } from "./report-dialog";
+import { useReadReceipts } from "@/hooks/use-read-receipts";
+import { useMessagingRestriction } from "@/hooks/use-message-request";
+import { useConversationMessages, useLoadOlderOnScroll, useScrollToMessage, appendCachedMessage, isEventForChat } from "@/hooks/use-conversation-messages";
 import { useToast } from "@/hooks/use-toast";
 
 interface ChatWindowProps {
   currentUser: User;
   selectedUser: User | null;
+  // Set instead of selectedUser when a group chat is open
+  selectedGroup?: GroupDetails | null;
   onToggleUserInfo: () => void;
 }
 
-export default function ChatWindow({ currentUser, selectedUser, onToggleUserInfo }: ChatWindowProps) {
-  const { sendMessage, sendTyping, typingUsers } = useSocket();
+export default function ChatWindow({ currentUser, selectedUser, selectedGroup, onToggleUserInfo }: ChatWindowProps) {
+  const { sendMessage, sendTyping, typingUsers, editMessage, deleteMessage, reactToMessage, outbox, retryMessage, discardMessage } = useSocket();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [messageText, setMessageText] = useState("");
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [reactingMessageId, setReactingMessageId] = useState<string | null>(null);
+  const [reportingMessage, setReportingMessage] = useState<Message | null>(null);
   const [currentSelectedUser, setCurrentSelectedUser] = useState(selectedUser);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout>();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const { data: messages = [] } = useQuery<Message[]>({
-    queryKey: ["/api/conversations", selectedUser?.id, "messages"],
-    enabled: !!selectedUser,
-  });
+  const scrollAreaRef = useRef<HTMLDivElement>(null);
+
+  const chatId = selectedGroup?.id ?? selectedUser?.id;
+  const isGroup = !!selectedGroup;
+
+  const conversation = useConversationMessages(chatId, isGroup);
+  const { messages } = conversation;
+  const messagingRestriction = useMessagingRestriction(isGroup ? undefined : chatId);
+  const newestMessageId = messages[messages.length - 1]?.id;
+
+  useLoadOlderOnScroll(scrollAreaRef, messages, conversation);
+  const scrollToMessage = useScrollToMessage(scrollAreaRef, conversation);
+
+  useReadReceipts(chatId, messages, isGroup);
 
   const imageUploadMutation = useMutation({
     mutationFn: async (file: File) => {
@@ -47,8 +75,9 @@ export default function ChatWindow({ currentUser, selectedUser, onToggleUserInfo
       return res.json();
     },
     onSuccess: (data) => {
-      if (selectedUser) {
-        sendMessage(selectedUser.id, undefined, data.imageUrl);
+      if (chatId) {
+        sendMessage(chatId, undefined, data.imageUrl, replyingTo?.id, isGroup);
+        setReplyingTo(null);
       }
     },
     onError: () => {
@@ -60,133 +89,90 @@ export default function ChatWindow({ currentUser, selectedUser, onToggleUserInfo
     },
   });
 
-  // Scroll to bottom when new messages arrive (but not during upload to prevent shifting)
+  // Scroll to bottom when new messages arrive (but not during upload to prevent shifting,
+  // and not when older history is prepended)
   useEffect(() => {
     if (!imageUploadMutation.isPending) {
       messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
     }
-  }, [messages, imageUploadMutation.isPending]);
+  }, [newestMessageId, outbox.length, imageUploadMutation.isPending]);
 
   // Update currentSelectedUser when prop changes
   useEffect(() => {
     setCurrentSelectedUser(selectedUser);
   }, [selectedUser]);
 
-  // Force refresh messages when selectedUser changes
+  // Force refresh messages when the open chat changes
   useEffect(() => {
-    if (selectedUser?.id) {
+    if (chatId) {
       queryClient.invalidateQueries({ 
-        queryKey: ["/api/conversations", selectedUser.id, "messages"] 
+        queryKey: ["/api/conversations", chatId, "messages"] 
       });
     }
-  }, [selectedUser?.id, queryClient]);
+  }, [chatId, queryClient]);
 
-  // Listen for real-time online status changes and refresh user data
+  // Drop a pending edit or reply when switching conversations
   useEffect(() => {
-    const handleOnlineStatusChanged = async (event: CustomEvent) => {
-      const { userId, isOnline } = event.detail || {};
-      
-      console.log(`[ChatWindow] Received onlineStatusChanged event: userId=${userId}, isOnline=${isOnline}, selectedUser.id=${selectedUser?.id}`);
-      
-      // Only update if the status change is for the user we're currently chatting with
-      if (selectedUser?.id && userId === selectedUser.id) {
-        console.log(`[ChatWindow] Updating status for ${userId} to ${isOnline ? 'online' : 'offline'}`);
-        try {
-          const response = await fetch(`/api/users/${selectedUser.id}`);
-          if (response.ok) {
-            const updatedUser = await response.json();
-            console.log(`[ChatWindow] Fetched updated user data:`, updatedUser);
-            setCurrentSelectedUser(updatedUser);
-          }
-        } catch (error) {
-          console.error("Failed to fetch updated user data:", error);
-        }
-      }
-    };
+    setEditingMessage(null);
+    setReplyingTo(null);
+  }, [chatId]);
 
-    console.log(`[ChatWindow] Setting up onlineStatusChanged listener for selectedUser.id=${selectedUser?.id}`);
-    window.addEventListener('onlineStatusChanged', handleOnlineStatusChanged as EventListener);
-    return () => {
-      console.log(`[ChatWindow] Removing onlineStatusChanged listener`);
-      window.removeEventListener('onlineStatusChanged', handleOnlineStatusChanged as EventListener);
-    };
-  }, [selectedUser?.id]);
+  // Keep the header's status line current from the event itself; refetching
+  // the profile would notify them of a profile view on every change
+  useEffect(() => {
+    return socketEvents.on('presenceChanged', ({ userId, presence, lastSeen }) => {
+      setCurrentSelectedUser(prev => prev?.id === userId
+        ? { ...prev, presence, isOnline: presence !== "offline", lastSeen }
+        : prev);
+    });
+  }, []);
 
   // Listen for new messages via WebSocket
   useEffect(() => {
-    const handleNewMessage = (event: CustomEvent) => {
-      const { message } = event.detail;
+    const handleNewMessage = (event: SocketEventMap["newMessage"]) => {
+      const { message } = event;
       
       // Check if this message is relevant to the current conversation
-      const isRelevantMessage = selectedUser && (
-        // Message is from the person we're chatting with to us
-        (message.senderId === selectedUser.id && message.receiverId === currentUser?.id) ||
-        // Or message is from us to the person we're chatting with
-        (message.senderId === currentUser?.id && message.receiverId === selectedUser.id)
-      );
-      
-      if (isRelevantMessage) {
+      if (chatId && isEventForChat(event, chatId)) {
         // Immediately add the new message to the cache for instant display
-        queryClient.setQueryData(
-          ["/api/conversations", selectedUser.id, "messages"],
-          (oldMessages: Message[] = []) => {
-            // Check if message already exists to prevent duplicates
-            const messageExists = oldMessages.some(m => m.id === message.id);
-            if (messageExists) return oldMessages;
-            
-            // Add new message to the end of the list
-            return [...oldMessages, message];
-          }
-        );
+        appendCachedMessage(queryClient, chatId, message);
       }
       
       // Always refetch conversations to update last message
       queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
     };
 
-    const handleMessageConfirmed = (event: CustomEvent) => {
-      const { message } = event.detail;
+    const handleMessageConfirmed = (event: SocketEventMap["messageConfirmed"]) => {
+      const { message } = event;
       
       // Check if this confirmed message is relevant to the current conversation
-      const isRelevantMessage = selectedUser && (
-        // Message is from the person we're chatting with to us
-        (message.senderId === selectedUser.id && message.receiverId === currentUser?.id) ||
-        // Or message is from us to the person we're chatting with
-        (message.senderId === currentUser?.id && message.receiverId === selectedUser.id)
-      );
-      
-      if (isRelevantMessage) {
+      if (chatId && isEventForChat(event, chatId)) {
         // Immediately add our own confirmed message to the cache
-        queryClient.setQueryData(
-          ["/api/conversations", selectedUser.id, "messages"],
-          (oldMessages: Message[] = []) => {
-            // Check if message already exists to prevent duplicates
-            const messageExists = oldMessages.some(m => m.id === message.id);
-            if (messageExists) return oldMessages;
-            
-            // Add new message to the end of the list
-            return [...oldMessages, message];
-          }
-        );
+        appendCachedMessage(queryClient, chatId, message);
       }
       
       // Refetch conversations to update last message
       queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
     };
 
-    window.addEventListener('newMessage', handleNewMessage as EventListener);
-    window.addEventListener('messageConfirmed', handleMessageConfirmed as EventListener);
+    const unsubscribers = [
+      socketEvents.on('newMessage', handleNewMessage),
+      socketEvents.on('messageConfirmed', handleMessageConfirmed),
+    ];
 
-    return () => {
-      window.removeEventListener('newMessage', handleNewMessage as EventListener);
-      window.removeEventListener('messageConfirmed', handleMessageConfirmed as EventListener);
-    };
-  }, [queryClient, selectedUser?.id, currentUser?.id]);
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [queryClient, chatId]);
 
   const handleSendMessage = () => {
-    if (!selectedUser || !messageText.trim()) return;
-
-    sendMessage(selectedUser.id, messageText.trim());
+    if (!chatId || !messageText.trim()) return;
+
+    if (editingMessage) {
+      editMessage(chatId, editingMessage.id, messageText.trim(), isGroup);
+      setEditingMessage(null);
+    } else {
+      sendMessage(chatId, messageText.trim(), undefined, replyingTo?.id, isGroup);
+      setReplyingTo(null);
+    }
     setMessageText("");
     
     // Close emoji picker if open
@@ -195,6 +181,46 @@ export default function ChatWindow({ currentUser, selectedUser, onToggleUserInfo
     }
   };
 
+  const handleStartEdit = (message: Message) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setMessageText(message.content || "");
+  };
+
+  const handleCancelEdit = () => {
+    setEditingMessage(null);
+    setMessageText("");
+  };
+
+  const handleDeleteMessage = (message: Message) => {
+    if (chatId) {
+      deleteMessage(chatId, message.id, isGroup);
+    }
+    if (editingMessage?.id === message.id) {
+      handleCancelEdit();
+    }
+    if (replyingTo?.id === message.id) {
+      setReplyingTo(null);
+    }
+  };
+
+  const handleStartReply = (message: Message) => {
+    if (editingMessage) handleCancelEdit();
+    setReplyingTo(message);
+  };
+
+  // The other participant, or the group member who sent a message
+  const getSender = (userId: string) =>
+    selectedGroup
+      ? selectedGroup.members.find(m => m.userId === userId)?.user
+      : userId === selectedUser?.id ? selectedUser : undefined;
+
+  const resolveQuotedName = (replyTo: MessageReplyPreview) =>
+    replyTo.senderId === currentUser.id ? "You" : getSender(replyTo.senderId)?.firstName || "";
+
+  const resolveReactorName = (userId: string) =>
+    getSender(userId)?.firstName ?? "Someone";
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -205,10 +231,10 @@ export default function ChatWindow({ currentUser, selectedUser, onToggleUserInfo
   const handleTyping = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setMessageText(e.target.value);
     
-    if (!selectedUser) return;
+    if (!chatId) return;
 
     // Send typing indicator
-    sendTyping(selectedUser.id, true);
+    sendTyping(chatId, true, isGroup);
 
     // Clear previous timeout
     if (typingTimeoutRef.current) {
@@ -217,7 +243,7 @@ export default function ChatWindow({ currentUser, selectedUser, onToggleUserInfo
 
     // Stop typing after 1 second of inactivity
     typingTimeoutRef.current = setTimeout(() => {
-      sendTyping(selectedUser.id, false);
+      sendTyping(chatId, false, isGroup);
     }, 1000);
   };
 
@@ -263,7 +289,7 @@ export default function ChatWindow({ currentUser, selectedUser, onToggleUserInfo
     });
   };
 
-  if (!selectedUser) {
+  if (!chatId) {
     return (
       <div className="flex-1 flex items-center justify-center bg-background">
         <div className="text-center">
@@ -282,26 +308,45 @@ export default function ChatWindow({ currentUser, selectedUser, onToggleUserInfo
     <div className="flex-1 flex flex-col">
       {/* Chat Header */}
       <div className="bg-card border-b border-border p-4 flex items-center justify-between">
-        <div className="flex items-center space-x-3">
-          <Avatar className="relative">
-            <AvatarImage src={currentSelectedUser?.profilePhoto || undefined} />
-            <AvatarFallback>{currentSelectedUser?.firstName[0]}{currentSelectedUser?.lastName[0]}</AvatarFallback>
-            {currentSelectedUser?.isOnline && (
-              <div className="absolute -bottom-0.5 -right-0.5 w-3 h-3 bg-accent border-2 border-card rounded-full"></div>
-            )}
-          </Avatar>
-          <div>
-            <h3 className="font-semibold" data-testid="text-selected-user-name">
-              {currentSelectedUser?.firstName} {currentSelectedUser?.lastName}
-            </h3>
-            <p className={cn(
-              "text-sm",
-              currentSelectedUser?.isOnline ? "text-accent" : "text-muted-foreground"
-            )}>
-              {currentSelectedUser?.isOnline ? "Online" : "Offline"}
-            </p>
+        {selectedGroup ? (
+          <div className="flex items-center space-x-3">
+            <GroupAvatar group={selectedGroup} />
+            <div>
+              <h3 className="font-semibold" data-testid="text-selected-group-name">
+                {selectedGroup.name}
+              </h3>
+              <p className="text-sm text-muted-foreground truncate">
+                {selectedGroup.members.map(m => m.userId === currentUser.id ? "You" : m.user.firstName).join(", ")}
+              </p>
+            </div>
           </div>
-        </div>
+        ) : (
+          <div className="flex items-center space-x-3">
+            <Avatar className="relative">
+              <AvatarImage src={currentSelectedUser?.profilePhoto || undefined} />
+              <AvatarFallback>{currentSelectedUser?.firstName[0]}{currentSelectedUser?.lastName[0]}</AvatarFallback>
+              {currentSelectedUser && (
+                <PresenceDot
+                  user={currentSelectedUser}
+                  className="absolute -bottom-0.5 -right-0.5 w-3 h-3 border-2 border-card"
+                />
+              )}
+            </Avatar>
+            <div>
+              <h3 className="font-semibold" data-testid="text-selected-user-name">
+                {currentSelectedUser?.firstName} {currentSelectedUser?.lastName}
+              </h3>
+              {currentSelectedUser && (
+                <p className={cn(
+                  "text-sm",
+                  getPresence(currentSelectedUser) === "online" ? "text-accent" : "text-muted-foreground"
+                )}>
+                  {describePresence(currentSelectedUser)}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
         <div className="flex space-x-2">
           <Button
             variant="ghost"
@@ -323,34 +368,87 @@ export default function ChatWindow({ currentUser, selectedUser, onToggleUserInfo
       </div>
 
       {/* Messages Area */}
-      <ScrollArea className="flex-1 p-4">
+      <ScrollArea className="flex-1 p-4" ref={scrollAreaRef}>
         <div className="space-y-4">
+          {conversation.isLoadingOlderMessages && (
+            <div className="flex justify-center py-2" data-testid="loading-older-messages">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
           {messages.map((message) => {
             const isOwn = message.senderId === currentUser.id;
+            const sender = getSender(message.senderId);
             
             return (
               <div
                 key={message.id}
                 className={cn(
-                  "flex items-start space-x-3",
+                  "group/message flex items-start space-x-3",
                   isOwn && "justify-end"
                 )}
+                data-message-id={message.id}
                 data-testid={`message-${message.id}`}
               >
                 {!isOwn && (
                   <Avatar className="w-8 h-8 mt-1">
-                    <AvatarImage src={selectedUser.profilePhoto || undefined} />
-                    <AvatarFallback>{selectedUser.firstName[0]}</AvatarFallback>
+                    <AvatarImage src={sender?.profilePhoto || undefined} />
+                    <AvatarFallback>{sender?.firstName[0]}</AvatarFallback>
                   </Avatar>
                 )}
                 
+                {isOwn && (
+                  <MessageActions
+                    message={message}
+                    onEdit={handleStartEdit}
+                    onDelete={handleDeleteMessage}
+                    className="mt-2"
+                  />
+                )}
+                
+                {isOwn && !message.deletedAt && (
+                  <>
+                    <ReplyButton onReply={() => handleStartReply(message)} className="mt-2" />
+                    <ReactionPicker
+                      open={reactingMessageId === message.id}
+                      onOpenChange={(open) => setReactingMessageId(open ? message.id : null)}
+                      onReact={(emoji) => reactToMessage(message.id, emoji)}
+                      onReply={() => handleStartReply(message)}
+                      className="mt-2"
+                    />
+                  </>
+                )}
+                
                 <div className="message-bubble max-w-[70%]">
-                  <div className={cn(
+                  {isGroup && !isOwn && (
+                    <p className="text-xs font-medium text-muted-foreground mb-1" data-testid={`text-message-sender-${message.id}`}>
+                      {sender ? `${sender.firstName} ${sender.lastName}` : "Former member"}
+                    </p>
+                  )}
+                  <div
+                    {...(message.deletedAt ? {} : longPressHandlers(() => setReactingMessageId(message.id)))}
+                    className={cn(
                     "rounded-lg p-3",
-                    isOwn 
-                      ? "bg-primary text-primary-foreground rounded-tr-none" 
-                      : "bg-secondary rounded-tl-none"
-                  )}>
+                    message.deletedAt
+                      ? "bg-transparent border border-dashed border-border text-muted-foreground"
+                      : isOwn 
+                        ? "bg-primary text-primary-foreground rounded-tr-none" 
+                        : "bg-secondary rounded-tl-none"
+                  )}
+                  >
+                    {message.replyTo && !message.deletedAt && (
+                      <QuotedMessage
+                        replyTo={message.replyTo}
+                        senderName={resolveQuotedName(message.replyTo)}
+                        onClick={() => scrollToMessage(message.replyTo!.id)}
+                        className="mb-2"
+                      />
+                    )}
+                    {message.deletedAt && (
+                      <p className="text-sm italic" data-testid={`text-message-deleted-${message.id}`}>
+                        This message was deleted
+                      </p>
+                    )}
                     {message.imageUrl && (
                       <img
                         src={message.imageUrl}
@@ -366,24 +464,65 @@ export default function ChatWindow({ currentUser, selectedUser, onToggleUserInfo
                       </p>
                     )}
                   </div>
+                  {!message.deletedAt && (
+                    <MessageReactions
+                      reactions={message.reactions || []}
+                      currentUserId={currentUser.id}
+                      resolveName={resolveReactorName}
+                      onReact={(emoji) => reactToMessage(message.id, emoji)}
+                      align={isOwn ? "end" : "start"}
+                    />
+                  )}
                   <span className={cn(
-                    "text-xs text-muted-foreground mt-1 block",
-                    isOwn && "text-right"
+                    "text-xs text-muted-foreground mt-1 flex items-center gap-1",
+                    isOwn && "justify-end"
                   )} data-testid={`text-message-time-${message.id}`}>
-                    {formatTime(message.timestamp!)} {isOwn && "✓✓"}
+                    {formatTime(message.timestamp!)}
+                    {message.editedAt && !message.deletedAt && (
+                      <span data-testid={`text-message-edited-${message.id}`}>· edited</span>
+                    )}
+                    {isOwn && <MessageStatus message={message} />}
                   </span>
                 </div>
+                
+                {!isOwn && !message.deletedAt && (
+                  <>
+                    <ReactionPicker
+                      open={reactingMessageId === message.id}
+                      onOpenChange={(open) => setReactingMessageId(open ? message.id : null)}
+                      onReact={(emoji) => reactToMessage(message.id, emoji)}
+                      onReply={() => handleStartReply(message)}
+                      className="mt-2"
+                    />
+                    <ReplyButton onReply={() => handleStartReply(message)} className="mt-2" />
+                    {sender && <ReportMessageButton onReport={() => setReportingMessage(message)} className="mt-2" />}
+                  </>
+                )}
               </div>
             );
           })}
 
+          {outbox.filter(pending => pending.chatId === chatId).map(pending => (
+            <OutboxMessageBubble
+              key={pending.clientMessageId}
+              message={pending}
+              onRetry={() => retryMessage(pending.clientMessageId)}
+              onDiscard={() => discardMessage(pending.clientMessageId)}
+              bubbleClassName="rounded-lg rounded-tr-none p-3"
+            />
+          ))}
+
           {/* Typing Indicator */}
-          {typingUsers[selectedUser.id] && (
+          {typingUsers[chatId] && (
             <div className="flex items-start space-x-3" data-testid="typing-indicator">
-              <Avatar className="w-8 h-8 mt-1">
-                <AvatarImage src={selectedUser.profilePhoto || undefined} />
-                <AvatarFallback>{selectedUser.firstName[0]}</AvatarFallback>
-              </Avatar>
+              {selectedGroup ? (
+                <GroupAvatar group={selectedGroup} className="w-8 h-8 mt-1" />
+              ) : (
+                <Avatar className="w-8 h-8 mt-1">
+                  <AvatarImage src={selectedUser?.profilePhoto || undefined} />
+                  <AvatarFallback>{selectedUser?.firstName[0]}</AvatarFallback>
+                </Avatar>
+              )}
               <div className="message-bubble max-w-[70%]">
                 <div className="bg-secondary rounded-lg rounded-tl-none p-3">
                   <div className="flex space-x-1">
@@ -402,60 +541,93 @@ export default function ChatWindow({ currentUser, selectedUser, onToggleUserInfo
 
       {/* Message Input Area */}
       <div className="bg-card border-t border-border p-4">
-        <div className="flex items-end space-x-3">
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={handleFileUpload}
-            disabled={imageUploadMutation.isPending}
-            data-testid="button-upload-file"
-          >
-            {imageUploadMutation.isPending ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
-              <Paperclip className="h-4 w-4" />
+        {messagingRestriction ? (
+          <div className="flex items-center justify-center gap-2 py-2 text-sm text-muted-foreground" data-testid="text-messaging-restricted">
+            <MessageCircleOff className="h-4 w-4" />
+            {messagingRestriction}
+          </div>
+        ) : (
+          <>
+            {editingMessage && (
+              <div className="flex items-center justify-between mb-2 text-sm text-muted-foreground" data-testid="banner-editing-message">
+                <span className="flex items-center gap-2">
+                  <Pencil className="h-3.5 w-3.5" />
+                  Editing message
+                </span>
+                <Button variant="ghost" size="sm" onClick={handleCancelEdit} data-testid="button-cancel-edit">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
             )}
-          </Button>
-
-          <div className="flex-1 relative">
-            <Textarea
-              placeholder="Type a message..."
-              value={messageText}
-              onChange={handleTyping}
-              onKeyDown={handleKeyPress}
-              className="resize-none min-h-[48px] max-h-32 pr-10"
-              data-testid="textarea-message-input"
-            />
-            
-            <Button
-              variant="ghost"
-              size="sm"
-              className="absolute right-2 top-1/2 transform -translate-y-1/2"
-              onClick={() => setShowEmojiPicker(!showEmojiPicker)}
-              data-testid="button-emoji-picker"
-            >
-              <Smile className="h-4 w-4" />
-            </Button>
-
-            {showEmojiPicker && (
-              <EmojiPicker
-                onEmojiSelect={(emoji) => {
-                  setMessageText(prev => prev + emoji);
-                  setShowEmojiPicker(false);
-                }}
-                onClose={() => setShowEmojiPicker(false)}
-              />
+            {replyingTo && (
+              <div className="flex items-center gap-2 mb-2" data-testid="banner-replying-to">
+                <QuotedMessage
+                  replyTo={replyingTo}
+                  senderName={replyingTo.senderId === currentUser.id ? "Replying to yourself" : `Replying to ${getSender(replyingTo.senderId)?.firstName ?? "a former member"}`}
+                  className="flex-1"
+                />
+                <Button variant="ghost" size="sm" onClick={() => setReplyingTo(null)} data-testid="button-cancel-reply">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
             )}
-          </div>
+            <div className="flex items-end space-x-3">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleFileUpload}
+                disabled={imageUploadMutation.isPending}
+                data-testid="button-upload-file"
+              >
+                {imageUploadMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Paperclip className="h-4 w-4" />
+                )}
+              </Button>
+
+              <div className="flex-1 relative">
+                <Textarea
+                  placeholder="Type a message..."
+                  maxLength={MAX_MESSAGE_LENGTH}
+                  value={messageText}
+                  onChange={handleTyping}
+                  onKeyDown={handleKeyPress}
+                  className="resize-none min-h-[48px] max-h-32 pr-10"
+                  data-testid="textarea-message-input"
+                />
+                
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="absolute right-2 top-1/2 transform -translate-y-1/2"
+                  onClick={() => setShowEmojiPicker(!showEmojiPicker)}
+                  data-testid="button-emoji-picker"
+                >
+                  <Smile className="h-4 w-4" />
+                </Button>
+
+                {showEmojiPicker && (
+                  <EmojiPicker
+                    onEmojiSelect={(emoji) => {
+                      setMessageText(prev => prev + emoji);
+                      setShowEmojiPicker(false);
+                    }}
+                    onClose={() => setShowEmojiPicker(false)}
+                  />
+                )}
+              </div>
 
-          <Button
-            onClick={handleSendMessage}
-            disabled={!messageText.trim()}
-            data-testid="button-send-message"
-          >
-            <Send className="h-4 w-4" />
-          </Button>
-        </div>
+              <Button
+                onClick={handleSendMessage}
+                disabled={!messageText.trim()}
+                data-testid="button-send-message"
+              >
+                <Send className="h-4 w-4" />
+              </Button>
+            </div>
+          </>
+        )}
 
         <input
           type="file"
@@ -466,6 +638,15 @@ export default function ChatWindow({ currentUser, selectedUser, onToggleUserInfo
           data-testid="input-file-upload"
         />
       </div>
+
+      {reportingMessage && getSender(reportingMessage.senderId) && (
+        <ReportDialog
+          isOpen
+          onClose={() => setReportingMessage(null)}
+          targetUser={getSender(reportingMessage.senderId)!}
+          message={reportingMessage}
+        />
+      )}
     </div>
   );
 }
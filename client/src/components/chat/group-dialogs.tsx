@@ -0,0 +1,310 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Crown, LogOut, UserMinus, UserPlus, Users } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Conversation, ConversationSummary, GroupDetails, User, MAX_GROUP_MEMBERS } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+// People the user already has direct chats with - the pool groups are built from
+function useChatPartners() {
+  const { data: conversations = [] } = useQuery<ConversationSummary[]>({
+    queryKey: ["/api/conversations"],
+  });
+
+  return conversations.flatMap(conv => conv.otherUser ? [conv.otherUser] : []);
+}
+
+interface GroupAvatarProps {
+  group: Pick<Conversation, "name" | "avatarUrl">;
+  className?: string;
+}
+
+export function GroupAvatar({ group, className }: GroupAvatarProps) {
+  return (
+    <Avatar className={className}>
+      <AvatarImage src={group.avatarUrl || undefined} />
+      <AvatarFallback className="bg-gradient-to-br from-primary/20 to-primary/5">
+        <Users className="h-1/2 w-1/2 text-primary" />
+      </AvatarFallback>
+    </Avatar>
+  );
+}
+
+interface MemberRowProps {
+  user: Pick<User, "id" | "firstName" | "lastName" | "profilePhoto">;
+  children?: React.ReactNode;
+  onClick?: () => void;
+}
+
+function MemberRow({ user, children, onClick }: MemberRowProps) {
+  return (
+    <div
+      className={cn("flex items-center gap-3 rounded-md p-2", onClick && "cursor-pointer hover:bg-secondary")}
+      onClick={onClick}
+      data-testid={`group-member-${user.id}`}
+    >
+      <Avatar className="h-8 w-8">
+        <AvatarImage src={user.profilePhoto || undefined} />
+        <AvatarFallback>{user.firstName[0]}{user.lastName[0]}</AvatarFallback>
+      </Avatar>
+      <span className="flex-1 truncate text-sm font-medium">{user.firstName} {user.lastName}</span>
+      {children}
+    </div>
+  );
+}
+
+interface CreateGroupDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreated: (group: GroupDetails) => void;
+}
+
+export default function CreateGroupDialog({ isOpen, onClose, onCreated }: CreateGroupDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const partners = useChatPartners();
+  const [name, setName] = useState("");
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName("");
+      setMemberIds([]);
+    }
+  }, [isOpen]);
+
+  const createGroupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/groups", { name, memberIds });
+      return res.json();
+    },
+    onSuccess: (group: GroupDetails) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      onClose();
+      onCreated(group);
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not create group",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMember = (userId: string) => {
+    setMemberIds(prev => prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>New group</DialogTitle>
+          <DialogDescription>Pick people you've chatted with to start a group.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="group-name">Group name</Label>
+            <Input
+              id="group-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={60}
+              data-testid="input-group-name"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Members ({memberIds.length + 1}/{MAX_GROUP_MEMBERS})</Label>
+            {partners.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Start a chat with someone first to add them to a group.</p>
+            ) : (
+              <ScrollArea className="h-60 rounded-md border">
+                <div className="p-1">
+                  {partners.map(partner => (
+                    <MemberRow key={partner.id} user={partner} onClick={() => toggleMember(partner.id)}>
+                      <Checkbox checked={memberIds.includes(partner.id)} />
+                    </MemberRow>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+
+          <Button
+            className="w-full"
+            onClick={() => createGroupMutation.mutate()}
+            disabled={!name.trim() || memberIds.length === 0 || createGroupMutation.isPending}
+            data-testid="button-create-group"
+          >
+            Create group
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface GroupInfoDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  group: GroupDetails;
+  currentUserId: string;
+  onLeft: () => void;
+}
+
+// Members list plus owner controls (rename, add, remove) and leaving the group
+export function GroupInfoDialog({ isOpen, onClose, group, currentUserId, onLeft }: GroupInfoDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const partners = useChatPartners();
+  const [name, setName] = useState(group.name || "");
+  const isOwner = group.members.some(m => m.userId === currentUserId && m.role === "owner");
+  const addablePartners = partners.filter(partner => !group.members.some(m => m.userId === partner.id));
+
+  useEffect(() => {
+    setName(group.name || "");
+  }, [group.name]);
+
+  const refreshGroup = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/groups", group.id] });
+    queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+  };
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Something went wrong",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PATCH", `/api/groups/${group.id}`, { name });
+      return res.json();
+    },
+    onSuccess: refreshGroup,
+    onError: showError,
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const res = await apiRequest("POST", `/api/groups/${group.id}/members`, { userId });
+      return res.json();
+    },
+    onSuccess: refreshGroup,
+    onError: showError,
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("DELETE", `/api/groups/${group.id}/members/${userId}`);
+      return userId;
+    },
+    onSuccess: (userId) => {
+      refreshGroup();
+      if (userId === currentUserId) {
+        onClose();
+        onLeft();
+      }
+    },
+    onError: showError,
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3">
+            <GroupAvatar group={group} className="h-10 w-10" />
+            {group.name}
+          </DialogTitle>
+          <DialogDescription>{group.members.length} members</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isOwner && (
+            <div className="flex gap-2">
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={60}
+                data-testid="input-rename-group"
+              />
+              <Button
+                variant="outline"
+                onClick={() => renameMutation.mutate()}
+                disabled={!name.trim() || name.trim() === group.name || renameMutation.isPending}
+                data-testid="button-rename-group"
+              >
+                Rename
+              </Button>
+            </div>
+          )}
+
+          <ScrollArea className="h-60 rounded-md border">
+            <div className="p-1">
+              {group.members.map(member => (
+                <MemberRow key={member.userId} user={member.user}>
+                  {member.role === "owner" && <Crown className="h-4 w-4 text-primary" />}
+                  {isOwner && member.userId !== currentUserId && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeMemberMutation.mutate(member.userId)}
+                      disabled={removeMemberMutation.isPending}
+                      data-testid={`button-remove-member-${member.userId}`}
+                    >
+                      <UserMinus className="h-4 w-4" />
+                    </Button>
+                  )}
+                </MemberRow>
+              ))}
+              {isOwner && addablePartners.map(partner => (
+                <MemberRow key={partner.id} user={partner}>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => addMemberMutation.mutate(partner.id)}
+                    disabled={addMemberMutation.isPending || group.members.length >= MAX_GROUP_MEMBERS}
+                    data-testid={`button-add-member-${partner.id}`}
+                  >
+                    <UserPlus className="h-4 w-4" />
+                  </Button>
+                </MemberRow>
+              ))}
+            </div>
+          </ScrollArea>
+
+          <Button
+            variant="outline"
+            className="w-full text-destructive hover:text-destructive"
+            onClick={() => removeMemberMutation.mutate(currentUserId)}
+            disabled={removeMemberMutation.isPending}
+            data-testid="button-leave-group"
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            Leave group
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { MoreHorizontal, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Message, MESSAGE_EDIT_WINDOW_MINUTES } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+interface MessageActionsProps {
+  message: Message;
+  onEdit: (message: Message) => void;
+  onDelete: (message: Message) => void;
+  className?: string;
+}
+
+export function canEditMessage(message: Message) {
+  if (message.deletedAt || !message.content) return false;
+  const sentAt = new Date(message.timestamp!).getTime();
+  return Date.now() - sentAt <= MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000;
+}
+
+// Edit / unsend menu shown next to our own message bubbles
+export default function MessageActions({ message, onEdit, onDelete, className }: MessageActionsProps) {
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  if (message.deletedAt) return null;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn("h-7 w-7 rounded-full opacity-0 group-hover/message:opacity-100 focus:opacity-100 transition-opacity", className)}
+            data-testid={`button-message-actions-${message.id}`}
+          >
+            <MoreHorizontal className="h-4 w-4 text-muted-foreground" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {canEditMessage(message) && (
+            <DropdownMenuItem onClick={() => onEdit(message)} data-testid={`button-edit-message-${message.id}`}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem
+            onClick={() => setConfirmDelete(true)}
+            className="text-destructive focus:text-destructive"
+            data-testid={`button-delete-message-${message.id}`}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete for everyone
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this message?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The message will be removed for both of you. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => onDelete(message)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
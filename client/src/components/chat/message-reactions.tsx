@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { Plus, Reply, SmilePlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { MessageReaction } from "@shared/schema";
+import { cn } from "@/lib/utils";
+import EmojiPicker from "./emoji-picker";
+
+const QUICK_REACTIONS = ["❤️", "😂", "😮", "😢", "👍", "🔥"];
+const LONG_PRESS_MS = 500;
+
+interface MessageReactionsProps {
+  reactions: MessageReaction[];
+  currentUserId: string;
+  resolveName: (userId: string) => string;
+  onReact: (emoji: string) => void;
+  align?: "start" | "end";
+}
+
+// Reaction chips under a bubble: one per emoji with a count and "who reacted" tooltip
+export default function MessageReactions({ reactions, currentUserId, resolveName, onReact, align = "start" }: MessageReactionsProps) {
+  if (reactions.length === 0) return null;
+
+  const grouped = reactions.reduce((groups: Record<string, MessageReaction[]>, reaction) => {
+    if (!groups[reaction.emoji]) {
+      groups[reaction.emoji] = [];
+    }
+    groups[reaction.emoji].push(reaction);
+    return groups;
+  }, {});
+
+  return (
+    <div className={cn("flex flex-wrap gap-1 -mt-1", align === "end" ? "justify-end" : "justify-start")}>
+      {Object.entries(grouped).map(([emoji, emojiReactions]) => {
+        const reactedByMe = emojiReactions.some(r => r.userId === currentUserId);
+        const names = emojiReactions.map(r => r.userId === currentUserId ? "You" : resolveName(r.userId));
+
+        return (
+          <Tooltip key={emoji}>
+            <TooltipTrigger asChild>
+              <button
+                onClick={() => onReact(emoji)}
+                className={cn(
+                  "flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs shadow-sm transition-colors",
+                  reactedByMe
+                    ? "border-primary/50 bg-primary/10 text-primary"
+                    : "border-border bg-card text-muted-foreground hover:bg-muted"
+                )}
+                data-testid={`reaction-${emoji}`}
+              >
+                <span className="text-sm leading-none">{emoji}</span>
+                {emojiReactions.length > 1 && <span className="font-medium">{emojiReactions.length}</span>}
+              </button>
+            </TooltipTrigger>
+            <TooltipContent>{names.join(", ")}</TooltipContent>
+          </Tooltip>
+        );
+      })}
+    </div>
+  );
+}
+
+interface ReactionPickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onReact: (emoji: string) => void;
+  onReply?: () => void;
+  className?: string;
+}
+
+// Quick reaction bar opened from the hover button next to a bubble (or by long-press, see longPressHandlers)
+export function ReactionPicker({ open, onOpenChange, onReact, onReply, className }: ReactionPickerProps) {
+  const [showFullPicker, setShowFullPicker] = useState(false);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    onOpenChange(isOpen);
+    setShowFullPicker(false);
+  };
+
+  const handleSelect = (emoji: string) => {
+    onReact(emoji);
+    handleOpenChange(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn(
+            "h-7 w-7 rounded-full transition-opacity",
+            open ? "opacity-100" : "opacity-0 group-hover/message:opacity-100 focus:opacity-100",
+            className
+          )}
+          data-testid="button-add-reaction"
+        >
+          <SmilePlus className="h-4 w-4 text-muted-foreground" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="relative w-auto rounded-full p-1" side="top">
+        <div className="flex items-center gap-0.5">
+          {QUICK_REACTIONS.map(emoji => (
+            <button
+              key={emoji}
+              onClick={() => handleSelect(emoji)}
+              className="h-9 w-9 rounded-full text-xl transition-transform hover:scale-125 hover:bg-muted"
+              data-testid={`quick-reaction-${emoji}`}
+            >
+              {emoji}
+            </button>
+          ))}
+          <button
+            onClick={() => setShowFullPicker(!showFullPicker)}
+            className="h-9 w-9 rounded-full flex items-center justify-center hover:bg-muted"
+            data-testid="button-more-reactions"
+          >
+            <Plus className="h-4 w-4 text-muted-foreground" />
+          </button>
+          {onReply && (
+            <button
+              onClick={() => {
+                onReply();
+                handleOpenChange(false);
+              }}
+              className="h-9 w-9 rounded-full flex items-center justify-center hover:bg-muted"
+              data-testid="button-reply-from-reactions"
+            >
+              <Reply className="h-4 w-4 text-muted-foreground" />
+            </button>
+          )}
+        </div>
+        {showFullPicker && (
+          <EmojiPicker onEmojiSelect={handleSelect} onClose={() => setShowFullPicker(false)} />
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+// Only one bubble can be pressed at a time, so a single pending timer is enough
+let longPressTimeout: NodeJS.Timeout | undefined;
+
+// Touch handlers for a bubble that fire `onLongPress` after it is held
+export function longPressHandlers(onLongPress: () => void) {
+  const cancel = () => clearTimeout(longPressTimeout);
+
+  return {
+    onTouchStart: () => {
+      cancel();
+      longPressTimeout = setTimeout(onLongPress, LONG_PRESS_MS);
+    },
+    onTouchEnd: cancel,
+    onTouchMove: cancel,
+  };
+}
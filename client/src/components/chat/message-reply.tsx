@@ -0,0 +1,63 @@
+import { Image as ImageIcon, Reply } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { MessageReplyPreview } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+interface QuotedMessageProps {
+  replyTo: MessageReplyPreview;
+  senderName: string;
+  onClick?: () => void;
+  className?: string;
+}
+
+// Snippet of the original message, shown above a reply bubble and in the composer
+export default function QuotedMessage({ replyTo, senderName, onClick, className }: QuotedMessageProps) {
+  return (
+    <div
+      onClick={onClick}
+      className={cn(
+        "flex items-center gap-2 rounded-md border-l-4 border-primary/60 bg-muted/60 px-2 py-1.5 text-xs text-foreground",
+        onClick && "cursor-pointer hover:bg-muted",
+        className
+      )}
+      data-testid={`quoted-message-${replyTo.id}`}
+    >
+      <div className="min-w-0 flex-1">
+        <p className="font-semibold text-primary">{senderName}</p>
+        {replyTo.deletedAt ? (
+          <p className="italic text-muted-foreground">Original message was deleted</p>
+        ) : replyTo.content ? (
+          <p className="line-clamp-2 break-words text-muted-foreground">{replyTo.content}</p>
+        ) : (
+          <p className="flex items-center gap-1 text-muted-foreground">
+            <ImageIcon className="h-3 w-3" />
+            Photo
+          </p>
+        )}
+      </div>
+      {!replyTo.deletedAt && replyTo.imageUrl && (
+        <img src={replyTo.imageUrl} alt="" className="h-10 w-10 rounded object-cover" />
+      )}
+    </div>
+  );
+}
+
+interface ReplyButtonProps {
+  onReply: () => void;
+  className?: string;
+}
+
+// Hover button next to a bubble that starts a quoted reply
+export function ReplyButton({ onReply, className }: ReplyButtonProps) {
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      onClick={onReply}
+      className={cn("h-7 w-7 rounded-full opacity-0 group-hover/message:opacity-100 focus:opacity-100 transition-opacity", className)}
+      data-testid="button-reply-message"
+    >
+      <Reply className="h-4 w-4 text-muted-foreground" />
+    </Button>
+  );
+}
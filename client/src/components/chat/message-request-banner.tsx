@@ -0,0 +1,93 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Ban, Check, MailQuestion, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { User } from "@shared/schema";
+
+type RequestAnswer = "accept" | "decline" | "block";
+
+interface MessageRequestBannerProps {
+  chatUser: Pick<User, "id" | "firstName">;
+}
+
+// Shown above the composer of a chat that is still an incoming message request.
+// Replying accepts too; declining and blocking leave the chat
+export default function MessageRequestBanner({ chatUser }: MessageRequestBannerProps) {
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+
+  const answerMutation = useMutation({
+    mutationFn: async (answer: RequestAnswer) => {
+      if (answer === "block") {
+        await apiRequest("POST", `/api/users/${chatUser.id}/block`);
+      } else {
+        await apiRequest("POST", `/api/conversations/${chatUser.id}/${answer}`);
+      }
+    },
+    onSuccess: (_, answer) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      if (answer === "block") {
+        queryClient.invalidateQueries({ queryKey: ["/api/user/blocks"] });
+      }
+      if (answer !== "accept") {
+        toast({ title: answer === "block" ? "User blocked" : "Request declined" });
+        setLocation("/messages");
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Something went wrong",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="mb-3 rounded-xl border border-primary/20 bg-primary/5 p-3" data-testid="banner-message-request">
+      <div className="flex items-start gap-2 text-sm">
+        <MailQuestion className="h-4 w-4 mt-0.5 text-primary flex-shrink-0" />
+        <p>
+          <span className="font-semibold">{chatUser.firstName}</span> wants to message you.
+          They can't send more until you accept or reply.
+        </p>
+      </div>
+      <div className="flex flex-wrap gap-2 mt-3">
+        <Button
+          size="sm"
+          className="rounded-full"
+          onClick={() => answerMutation.mutate("accept")}
+          disabled={answerMutation.isPending}
+          data-testid="button-accept-request"
+        >
+          <Check className="h-4 w-4 mr-1" />
+          Accept
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="rounded-full"
+          onClick={() => answerMutation.mutate("decline")}
+          disabled={answerMutation.isPending}
+          data-testid="button-decline-request"
+        >
+          <X className="h-4 w-4 mr-1" />
+          Decline
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="rounded-full text-destructive hover:text-destructive"
+          onClick={() => answerMutation.mutate("block")}
+          disabled={answerMutation.isPending}
+          data-testid="button-block-request"
+        >
+          <Ban className="h-4 w-4 mr-1" />
+          Block
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { Check, CheckCheck } from "lucide-react";
+import { Message } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+interface MessageStatusProps {
+  message: Message;
+  className?: string;
+}
+
+// Sent (✓), delivered (✓✓) or read (blue ✓✓) indicator for our own messages
+export default function MessageStatus({ message, className }: MessageStatusProps) {
+  if (message.readAt) {
+    return (
+      <CheckCheck
+        className={cn("inline h-3.5 w-3.5 text-blue-500", className)}
+        aria-label="Read"
+        data-testid={`status-read-${message.id}`}
+      />
+    );
+  }
+
+  if (message.deliveredAt) {
+    return (
+      <CheckCheck
+        className={cn("inline h-3.5 w-3.5", className)}
+        aria-label="Delivered"
+        data-testid={`status-delivered-${message.id}`}
+      />
+    );
+  }
+
+  return (
+    <Check
+      className={cn("inline h-3.5 w-3.5", className)}
+      aria-label="Sent"
+      data-testid={`status-sent-${message.id}`}
+    />
+  );
+}
@@ -0,0 +1,69 @@
+import { AlertCircle, Clock, X } from "lucide-react";
+import { OutboxMessage } from "@/hooks/use-socket";
+import { cn } from "@/lib/utils";
+
+interface OutboxMessageBubbleProps {
+  message: OutboxMessage;
+  onRetry: () => void;
+  onDiscard: () => void;
+  bubbleClassName?: string;
+}
+
+// One of our own messages the server hasn't acknowledged yet - "Sending…" while
+// pending, and a tap-to-retry bubble once it has failed
+export default function OutboxMessageBubble({ message, onRetry, onDiscard, bubbleClassName }: OutboxMessageBubbleProps) {
+  const failed = message.status === "failed";
+
+  return (
+    <div className="flex justify-end" data-testid={`outbox-message-${message.clientMessageId}`}>
+      <div className="flex flex-col items-end gap-1 max-w-[70%]">
+        <div
+          className={cn(
+            "bg-primary text-primary-foreground break-words",
+            failed ? "opacity-60 cursor-pointer" : "opacity-80",
+            bubbleClassName,
+          )}
+          onClick={failed ? onRetry : undefined}
+        >
+          {message.imageUrl && (
+            <img
+              src={message.imageUrl}
+              alt="Shared image"
+              className="rounded-md max-w-xs w-full h-auto mb-2"
+            />
+          )}
+          {message.content && (
+            <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+          )}
+        </div>
+        {failed ? (
+          <span className="text-xs text-destructive flex items-center gap-1">
+            <button
+              type="button"
+              className="flex items-center gap-1 hover:underline"
+              onClick={onRetry}
+              data-testid={`button-retry-${message.clientMessageId}`}
+            >
+              <AlertCircle className="h-3.5 w-3.5" />
+              Failed – tap to retry
+            </button>
+            <button
+              type="button"
+              className="ml-1 text-muted-foreground hover:text-foreground"
+              onClick={onDiscard}
+              aria-label="Discard message"
+              data-testid={`button-discard-${message.clientMessageId}`}
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </span>
+        ) : (
+          <span className="text-xs text-muted-foreground flex items-center gap-1">
+            <Clock className="h-3.5 w-3.5" aria-label="Sending" />
+            Sending…
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
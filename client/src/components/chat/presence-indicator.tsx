@@ -0,0 +1,48 @@
+import { formatDistanceToNow } from "date-fns";
+import { Presence, User } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+type PresenceUser = Pick<User, "presence" | "lastSeen">;
+
+const presenceLabels: Record<Exclude<Presence, "offline">, string> = {
+  online: "Online",
+  away: "Away",
+  busy: "Busy",
+};
+
+const presenceColors: Record<Exclude<Presence, "offline">, string> = {
+  online: "bg-green-500",
+  away: "bg-yellow-500",
+  busy: "bg-destructive",
+};
+
+export function getPresence(user: PresenceUser): Presence {
+  return (user.presence as Presence | null) || "offline";
+}
+
+// "Online", "Away", "Busy" - or, for offline users, when they were last active
+export function describePresence(user: PresenceUser) {
+  const presence = getPresence(user);
+  if (presence !== "offline") return presenceLabels[presence];
+  if (!user.lastSeen) return "Offline";
+  return `Active ${formatDistanceToNow(new Date(user.lastSeen), { addSuffix: true })}`;
+}
+
+interface PresenceDotProps {
+  user: PresenceUser;
+  className?: string;
+}
+
+// Colored status dot for avatars; nothing for offline users
+export function PresenceDot({ user, className }: PresenceDotProps) {
+  const presence = getPresence(user);
+  if (presence === "offline") return null;
+
+  return (
+    <div
+      className={cn("rounded-full", presenceColors[presence], className)}
+      aria-label={presenceLabels[presence]}
+      data-testid={`presence-${presence}`}
+    />
+  );
+}
@@ -13,10 +13,21 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { User } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
+import { FieldError, UpdateProfile, User, toFieldErrors, updateProfileSchema } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 
+// Rejected by the server for specific fields, shown next to them
+class ProfileValidationError extends Error {
+  constructor(message: string, public errors: FieldError[]) {
+    super(message);
+  }
+}
+
+function FieldErrorText({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="text-xs font-medium text-destructive">{message}</p>;
+}
+
 interface ProfileModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -34,18 +45,33 @@ export default function ProfileModal({ isOpen, onClose, user }: ProfileModalProp
     username: user.username,
     email: user.email,
     gender: user.gender,
+    age: String(user.age),
     bio: user.bio || "",
     location: user.location || "",
   });
+  const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
+  const fieldError = (field: keyof UpdateProfile) => fieldErrors.find(error => error.field === field)?.message;
 
   const profileUpdateMutation = useMutation({
-    mutationFn: async (data: typeof formData) => {
-      const { username, email, gender, ...editableData } = data;
-      const res = await apiRequest("PATCH", "/api/profile", editableData);
+    mutationFn: async (updates: UpdateProfile) => {
+      const res = await fetch("/api/profile", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+        credentials: "include",
+      });
+      if (res.status === 400) {
+        const body: { message: string; errors?: FieldError[] } = await res.json();
+        throw new ProfileValidationError(body.message, body.errors ?? []);
+      }
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
       return res.json();
     },
     onSuccess: (updatedUser) => {
-      queryClient.setQueryData(["/api/user"], updatedUser);
+      // The response is the public profile, so keep the account fields we already have
+      queryClient.setQueryData(["/api/user"], (current: User | undefined) => ({ ...current, ...updatedUser }));
       toast({
         title: "Profile updated",
         description: "Your profile has been updated successfully",
@@ -53,6 +79,10 @@ export default function ProfileModal({ isOpen, onClose, user }: ProfileModalProp
       onClose();
     },
     onError: (error) => {
+      if (error instanceof ProfileValidationError && error.errors.length > 0) {
+        setFieldErrors(error.errors);
+        return;
+      }
       toast({
         title: "Update failed",
         description: error.message,
@@ -91,7 +121,23 @@ export default function ProfileModal({ isOpen, onClose, user }: ProfileModalProp
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    profileUpdateMutation.mutate(formData);
+    
+    // Username, email and gender are shown but can't be changed
+    const parsed = updateProfileSchema.safeParse({
+      firstName: formData.firstName,
+      lastName: formData.lastName,
+      // An emptied field becomes 0, which the schema reports as too young
+      age: Number(formData.age),
+      location: formData.location,
+      bio: formData.bio,
+    });
+    if (!parsed.success) {
+      setFieldErrors(toFieldErrors(parsed.error));
+      return;
+    }
+    
+    setFieldErrors([]);
+    profileUpdateMutation.mutate(parsed.data);
   };
 
   const handleFileUpload = () => {
@@ -171,6 +217,7 @@ export default function ProfileModal({ isOpen, onClose, user }: ProfileModalProp
                   className="rounded-xl border-2 focus:border-primary transition-all"
                   data-testid="input-first-name"
                 />
+                <FieldErrorText message={fieldError("firstName")} />
               </div>
               <div className="space-y-2">
                 <Label htmlFor="lastName" className="text-sm font-medium">Last Name</Label>
@@ -182,9 +229,27 @@ export default function ProfileModal({ isOpen, onClose, user }: ProfileModalProp
                   className="rounded-xl border-2 focus:border-primary transition-all"
                   data-testid="input-last-name"
                 />
+                <FieldErrorText message={fieldError("lastName")} />
               </div>
             </div>
 
+            {/* Age */}
+            <div className="space-y-2">
+              <Label htmlFor="age" className="text-sm font-medium">Age</Label>
+              <Input
+                id="age"
+                type="number"
+                min={18}
+                max={99}
+                value={formData.age}
+                onChange={(e) => setFormData(prev => ({ ...prev, age: e.target.value }))}
+                required
+                className="rounded-xl border-2 focus:border-primary transition-all"
+                data-testid="input-age"
+              />
+              <FieldErrorText message={fieldError("age")} />
+            </div>
+
             {/* Username (Disabled) */}
             <div className="space-y-2">
               <Label htmlFor="username" className="text-sm font-medium">Username</Label>
@@ -251,6 +316,7 @@ export default function ProfileModal({ isOpen, onClose, user }: ProfileModalProp
                 data-testid="input-location"
                 maxLength={100}
               />
+              <FieldErrorText message={fieldError("location")} />
             </div>
 
             {/* Bio */}
@@ -266,9 +332,12 @@ export default function ProfileModal({ isOpen, onClose, user }: ProfileModalProp
                 maxLength={500}
                 rows={3}
               />
-              <p className="text-xs text-muted-foreground text-right">
-                {formData.bio.length}/500 characters
-              </p>
+              <div className="flex justify-between gap-2">
+                <FieldErrorText message={fieldError("bio")} />
+                <p className="text-xs text-muted-foreground ml-auto">
+                  {formData.bio.length}/500 characters
+                </p>
+              </div>
             </div>
 
             {/* Action Buttons */}
@@ -0,0 +1,143 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Flag } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { Message, ReportReason, User } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+export const reasonLabels: Record<ReportReason, string> = {
+  spam: "Spam or scam",
+  harassment: "Harassment or hate",
+  inappropriate_content: "Inappropriate content",
+  fake_profile: "Fake profile",
+  underage: "Under 18",
+  other: "Something else",
+};
+
+interface ReportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  targetUser: Pick<User, "id" | "firstName">;
+  // Set when reporting one message rather than the whole profile
+  message?: Message | null;
+}
+
+export default function ReportDialog({ isOpen, onClose, targetUser, message }: ReportDialogProps) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState<ReportReason | "">("");
+  const [details, setDetails] = useState("");
+
+  useEffect(() => {
+    if (isOpen) {
+      setReason("");
+      setDetails("");
+    }
+  }, [isOpen]);
+
+  const reportMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/reports", {
+        targetUserId: targetUser.id,
+        messageId: message?.id,
+        reason,
+        details: details.trim() || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      onClose();
+      toast({
+        title: "Report sent",
+        description: "Thanks for letting us know. Our moderators will review it.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not send report",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{message ? "Report message" : `Report ${targetUser.firstName}`}</DialogTitle>
+          <DialogDescription>
+            {message
+              ? "The message and the conversation before it are shared with our moderators."
+              : `${targetUser.firstName} won't know you reported them.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReportReason)}>
+            {(Object.keys(reasonLabels) as ReportReason[]).map(key => (
+              <div key={key} className="flex items-center gap-2">
+                <RadioGroupItem value={key} id={`report-reason-${key}`} />
+                <Label htmlFor={`report-reason-${key}`} className="font-normal">{reasonLabels[key]}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-details">Details (optional)</Label>
+            <Textarea
+              id="report-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={1000}
+              rows={3}
+              data-testid="input-report-details"
+            />
+          </div>
+
+          <Button
+            className="w-full"
+            variant="destructive"
+            onClick={() => reportMutation.mutate()}
+            disabled={!reason || reportMutation.isPending}
+            data-testid="button-submit-report"
+          >
+            Send report
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ReportMessageButtonProps {
+  onReport: () => void;
+  className?: string;
+}
+
+// Hover action next to other people's message bubbles
+export function ReportMessageButton({ onReport, className }: ReportMessageButtonProps) {
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      onClick={onReport}
+      className={cn("h-7 w-7 rounded-full opacity-0 group-hover/message:opacity-100 focus:opacity-100 transition-opacity", className)}
+      aria-label="Report message"
+      data-testid="button-report-message"
+    >
+      <Flag className="h-4 w-4 text-muted-foreground" />
+    </Button>
+  );
+}
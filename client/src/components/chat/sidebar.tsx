@@ -6,22 +6,26 @@ import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useAuth } from "@/hooks/use-auth";
-import { User, Conversation, Message } from "@shared/schema";
+import { User, ConversationSummary } from "@shared/schema";
 import { cn } from "@/lib/utils";
+import { socketEvents } from "@/lib/socket-events";
+import { GroupAvatar } from "./group-dialogs";
 
 interface SidebarProps {
   currentUser: User;
   selectedUser: User | null;
+  selectedGroupId: string | null;
   onSelectUser: (user: User) => void;
+  onSelectGroup: (groupId: string) => void;
   onOpenProfile: () => void;
 }
 
-export default function Sidebar({ currentUser, selectedUser, onSelectUser, onOpenProfile }: SidebarProps) {
+export default function Sidebar({ currentUser, selectedUser, selectedGroupId, onSelectUser, onSelectGroup, onOpenProfile }: SidebarProps) {
   const { logoutMutation } = useAuth();
   const queryClient = useQueryClient();
   const [searchQuery, setSearchQuery] = useState("");
 
-  const { data: conversations = [] } = useQuery<Array<Conversation & { otherUser: User; lastMessage?: Message }>>({
+  const { data: conversations = [] } = useQuery<ConversationSummary[]>({
     queryKey: ["/api/conversations"],
   });
 
@@ -32,20 +36,30 @@ export default function Sidebar({ currentUser, selectedUser, onSelectUser, onOpe
 
   // Listen for online status changes
   useEffect(() => {
-    const handleOnlineStatusChanged = () => {
+    const handlePresenceChanged = () => {
       // Refetch online users when status changes
       queryClient.invalidateQueries({ queryKey: ["/api/users/online"] });
       queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
     };
 
-    window.addEventListener('onlineStatusChanged', handleOnlineStatusChanged);
-    return () => window.removeEventListener('onlineStatusChanged', handleOnlineStatusChanged);
+    // Groups we were added to, removed from or that were renamed
+    const handleGroupUpdated = () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    };
+
+    const unsubscribers = [
+      socketEvents.on('presenceChanged', handlePresenceChanged),
+      socketEvents.on('groupUpdated', handleGroupUpdated),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
   }, [queryClient]);
 
   const filteredConversations = conversations.filter(conv =>
-    conv.otherUser.firstName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    conv.otherUser.lastName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    conv.otherUser.username.toLowerCase().includes(searchQuery.toLowerCase())
+    conv.otherUser ? (
+      conv.otherUser.firstName.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      conv.otherUser.lastName.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      conv.otherUser.username.toLowerCase().includes(searchQuery.toLowerCase())
+    ) : (conv.name || "").toLowerCase().includes(searchQuery.toLowerCase())
   );
 
   const formatTime = (date: Date | string) => {
@@ -119,14 +133,45 @@ export default function Sidebar({ currentUser, selectedUser, onSelectUser, onOpe
       {/* Conversations List */}
       <ScrollArea className="flex-1">
         <div className="space-y-1 p-2">
-          {filteredConversations.map((conversation) => (
+          {filteredConversations.map((conversation) => conversation.isGroup ? (
+            <div
+              key={conversation.id}
+              className={cn(
+                "p-3 hover:bg-secondary cursor-pointer rounded-md transition-colors",
+                selectedGroupId === conversation.id && "bg-secondary border-l-2 border-primary"
+              )}
+              onClick={() => onSelectGroup(conversation.id)}
+              data-testid={`conversation-group-${conversation.id}`}
+            >
+              <div className="flex items-center space-x-3">
+                <GroupAvatar group={conversation} />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between">
+                    <h4 className="font-medium text-sm truncate" data-testid={`text-group-name-${conversation.id}`}>
+                      {conversation.name}
+                    </h4>
+                    {conversation.lastMessage && (
+                      <span className="text-xs text-muted-foreground">
+                        {formatTime(conversation.lastMessage.timestamp!)}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {conversation.lastMessage
+                      ? (conversation.lastMessage.imageUrl ? "📷 Photo" : conversation.lastMessage.content)
+                      : `${conversation.members?.length ?? 0} members`}
+                  </p>
+                </div>
+              </div>
+            </div>
+          ) : conversation.otherUser && (
             <div
               key={conversation.id}
               className={cn(
                 "p-3 hover:bg-secondary cursor-pointer rounded-md transition-colors",
                 selectedUser?.id === conversation.otherUser.id && "bg-secondary border-l-2 border-primary"
               )}
-              onClick={() => onSelectUser(conversation.otherUser)}
+              onClick={() => onSelectUser(conversation.otherUser!)}
               data-testid={`conversation-${conversation.otherUser.id}`}
             >
               <div className="flex items-center space-x-3">
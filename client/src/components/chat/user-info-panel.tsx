@@ -2,6 +2,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { User } from "@shared/schema";
 import { cn } from "@/lib/utils";
+import { PresenceDot, describePresence, getPresence } from "./presence-indicator";
 
 interface UserInfoPanelProps {
   user: User;
@@ -37,9 +38,7 @@ export default function UserInfoPanel({
             {user.firstName[0]}
             {user.lastName[0]}
           </AvatarFallback>
-          {user.isOnline && (
-            <div className="absolute bottom-1 right-1 w-4 h-4 bg-accent border-2 border-card rounded-full"></div>
-          )}
+          <PresenceDot user={user} className="absolute bottom-1 right-1 w-4 h-4 border-2 border-card" />
         </Avatar>
 
         <h3
@@ -52,11 +51,11 @@ export default function UserInfoPanel({
         <p
           className={cn(
             "text-sm mb-6",
-            user.isOnline ? "text-accent" : "text-muted-foreground",
+            getPresence(user) === "online" ? "text-accent" : "text-muted-foreground",
           )}
           data-testid="text-user-status"
         >
-          {user.isOnline ? "Online" : "Offline"}
+          {describePresence(user)}
         </p>
 
         <div className="space-y-4 text-left">
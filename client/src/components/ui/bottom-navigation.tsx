@@ -1,8 +1,9 @@
 import { Link, useLocation } from "wouter";
-import { Users, MessageCircle, User, Search, Bell } from "lucide-react";
+import { Users, MessageCircle, User, Search, Bell, type LucideIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { getQueryFn } from "@/lib/queryClient";
+import { socketEvents } from "@/lib/socket-events";
 import { useEffect } from "react";
 
 const navItems = [
@@ -15,12 +16,13 @@ const navItems = [
     label: "Messages",
     icon: MessageCircle,
     path: "/messages",
+    counter: "messages",
   },
   {
     label: "Notifications",
     icon: Bell,
     path: "/notifications",
-    hasCounter: true,
+    counter: "notifications",
   },
   {
     label: "Profile",
@@ -29,10 +31,10 @@ const navItems = [
   },
 ];
 
-function NotificationIcon({ isActive, unreadCount }: { isActive: boolean, unreadCount: number }) {
+function CounterIcon({ icon: Icon, isActive, unreadCount }: { icon: LucideIcon, isActive: boolean, unreadCount: number }) {
   return (
     <div className="relative">
-      <Bell 
+      <Icon 
         className={cn(
           "h-5 w-5 transition-all duration-200",
           isActive ? "scale-110" : "scale-100"
@@ -61,6 +63,21 @@ export function BottomNavigation() {
   
   const unreadNotificationsCount = unreadData?.count || 0;
 
+  const { data: unreadMessagesData } = useQuery<{ count: number }>({
+    queryKey: ["/api/conversations/unread-count"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    refetchInterval: 30000,
+  });
+
+  const unreadMessagesCount = unreadMessagesData?.count || 0;
+
+  // Server pushes the new total whenever a message arrives or a conversation is read
+  useEffect(() => {
+    return socketEvents.on('unreadCountUpdated', ({ totalUnreadCount }) => {
+      queryClient.setQueryData(["/api/conversations/unread-count"], { count: totalUnreadCount });
+    });
+  }, [queryClient]);
+
   useEffect(() => {
     const handleNotificationUpdate = () => {
       queryClient.invalidateQueries({ 
@@ -68,13 +85,12 @@ export function BottomNavigation() {
       });
     };
 
-    window.addEventListener('notificationReceived', handleNotificationUpdate);
-    window.addEventListener('notificationRead', handleNotificationUpdate);
+    const unsubscribers = [
+      socketEvents.on('notificationReceived', handleNotificationUpdate),
+      socketEvents.on('notificationRead', handleNotificationUpdate),
+    ];
     
-    return () => {
-      window.removeEventListener('notificationReceived', handleNotificationUpdate);
-      window.removeEventListener('notificationRead', handleNotificationUpdate);
-    };
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
   }, [queryClient]);
 
   return (
@@ -103,8 +119,12 @@ export function BottomNavigation() {
                   : "text-muted-foreground hover:text-foreground hover:bg-accent/50"
               )}
             >
-              {item.hasCounter ? (
-                <NotificationIcon isActive={isActive} unreadCount={unreadNotificationsCount} />
+              {item.counter ? (
+                <CounterIcon
+                  icon={item.icon}
+                  isActive={isActive}
+                  unreadCount={item.counter === "messages" ? unreadMessagesCount : unreadNotificationsCount}
+                />
               ) : (
                 <item.icon 
                   className={cn(
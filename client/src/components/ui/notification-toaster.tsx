@@ -1,5 +1,6 @@
 import { useNotification } from "@/hooks/use-notification"
 import { useLocation } from "wouter"
+import { socketEvents } from "@/lib/socket-events"
 import {
   NotificationToast,
   NotificationProvider,
@@ -22,7 +23,7 @@ export function NotificationToaster() {
       });
       
       // Trigger a refresh of notification data
-      window.dispatchEvent(new CustomEvent('notificationRead'));
+      socketEvents.emit('notificationRead');
     } catch (error) {
       console.error('Failed to mark notification as read:', error);
     }
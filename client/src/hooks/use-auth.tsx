@@ -1,10 +1,10 @@
-import { createContext, ReactNode, useContext } from "react";
+import { createContext, ReactNode, useContext, useState } from "react";
 import {
   useQuery,
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema";
+import { insertUserSchema, User as SelectUser, InsertUser, FieldError, SuspensionNotice } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
@@ -15,13 +15,31 @@ type AuthContextType = {
   loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
+  // Why the last sign-in was refused, or the live session ended, for a suspended account
+  suspension: SuspensionNotice | null;
+  // Signs out locally once the server reports the account suspended
+  handleSuspended: (notice?: SuspensionNotice) => void;
 };
 
 type LoginData = Pick<InsertUser, "username" | "password">;
 
+class AccountSuspendedError extends Error {
+  constructor(public notice: SuspensionNotice) {
+    super(notice.message);
+  }
+}
+
+// Sign-up refused because of specific fields, which the form shows next to them
+export class RegistrationError extends Error {
+  constructor(message: string, public errors: FieldError[]) {
+    super(message);
+  }
+}
+
 export const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
+  const [suspension, setSuspension] = useState<SuspensionNotice | null>(null);
   const {
     data: user,
     error,
@@ -33,13 +51,31 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const loginMutation = useMutation({
     mutationFn: async (credentials: LoginData) => {
-      const res = await apiRequest("POST", "/api/login", credentials);
+      // Not apiRequest: a suspended account gets a 403 whose body is the notice
+      const res = await fetch("/api/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(credentials),
+        credentials: "include",
+      });
+      if (res.status === 403) {
+        throw new AccountSuspendedError(await res.json());
+      }
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
       return await res.json();
     },
+    onMutate: () => setSuspension(null),
     onSuccess: (user: SelectUser) => {
       queryClient.setQueryData(["/api/user"], user);
     },
     onError: (error: Error) => {
+      // Shown on the sign-in form instead
+      if (error instanceof AccountSuspendedError) {
+        setSuspension(error.notice);
+        return;
+      }
       toast({
         title: "Login failed",
         description: error.message,
@@ -50,13 +86,28 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const registerMutation = useMutation({
     mutationFn: async (credentials: InsertUser) => {
-      const res = await apiRequest("POST", "/api/register", credentials);
+      // Not apiRequest: validation errors come back as JSON with per-field errors
+      const res = await fetch("/api/register", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(credentials),
+        credentials: "include",
+      });
+      if (res.status === 400 || res.status === 409) {
+        const body: { message: string; errors?: FieldError[] } = await res.json();
+        throw new RegistrationError(body.message, body.errors ?? []);
+      }
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
       return await res.json();
     },
     onSuccess: (user: SelectUser) => {
       queryClient.setQueryData(["/api/user"], user);
     },
     onError: (error: Error) => {
+      // Field errors are shown on the sign-up form instead
+      if (error instanceof RegistrationError && error.errors.length > 0) return;
       toast({
         title: "Registration failed",
         description: error.message,
@@ -90,6 +141,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         loginMutation,
         logoutMutation,
         registerMutation,
+        suspension,
+        handleSuspended: (notice) => {
+          if (notice) setSuspension(notice);
+          queryClient.setQueryData(["/api/user"], null);
+        },
       }}
     >
       {children}
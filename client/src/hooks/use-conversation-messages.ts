@@ -0,0 +1,212 @@
+import { RefObject, useEffect, useLayoutEffect, useRef } from "react";
+import { InfiniteData, QueryClient, useInfiniteQuery, useQueryClient } from "@tanstack/react-query";
+import { Message, MessagePage, MessageWithReactions } from "@shared/schema";
+import { socketEvents, type SocketEventMap } from "@/lib/socket-events";
+import { toast } from "@/hooks/use-toast";
+
+const PAGE_SIZE = 30;
+
+// Chats are keyed by the other user's id, or by the group id for groups
+export function conversationMessagesKey(chatId: string | undefined) {
+  return ["/api/conversations", chatId, "messages"];
+}
+
+// Whether a socket event (tagged with otherUserId or groupId) belongs to the chat
+export function isEventForChat(detail: { otherUserId?: string; groupId?: string }, chatId: string) {
+  return (detail.groupId ?? detail.otherUserId) === chatId;
+}
+
+/**
+ * Conversation history loaded newest page first. `messages` is flattened
+ * oldest first so it can be rendered top to bottom.
+ */
+export function useConversationMessages(chatId: string | undefined, isGroup = false) {
+  const queryClient = useQueryClient();
+
+  const query = useInfiniteQuery({
+    queryKey: conversationMessagesKey(chatId),
+    queryFn: async ({ pageParam }): Promise<MessagePage> => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (pageParam) params.set("before", pageParam);
+
+      const url = isGroup ? `/api/groups/${chatId}/messages` : `/api/conversations/${chatId}/messages`;
+      const res = await fetch(`${url}?${params}`, {
+        credentials: "include",
+      });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      return await res.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!chatId,
+  });
+
+  // Apply edits, unsends and reaction changes pushed over the socket
+  useEffect(() => {
+    if (!chatId) return;
+
+    const handleMessageUpdated = (event: SocketEventMap["messageUpdated"]) => {
+      const { message } = event;
+      if (isEventForChat(event, chatId)) {
+        // Merge so reactions already in the cache survive the update, and
+        // refresh quotes of the message in replies to it
+        updateCachedMessages(queryClient, chatId, m => {
+          if (m.id === message.id) return { ...m, ...message };
+          if (m.replyTo?.id === message.id) {
+            const { content, imageUrl, deletedAt } = message;
+            return { ...m, replyTo: { ...m.replyTo, content, imageUrl, deletedAt } };
+          }
+          return m;
+        });
+      }
+    };
+
+    const handleReactionsUpdated = (event: SocketEventMap["messageReactionsUpdated"]) => {
+      const { messageId, reactions } = event;
+      if (isEventForChat(event, chatId)) {
+        updateCachedMessages(queryClient, chatId, m => m.id === messageId ? { ...m, reactions } : m);
+      }
+    };
+
+    const unsubscribers = [
+      socketEvents.on('messageUpdated', handleMessageUpdated),
+      socketEvents.on('messageReactionsUpdated', handleReactionsUpdated),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [chatId, queryClient]);
+
+  const messages = query.data
+    ? [...query.data.pages].reverse().flatMap(page => page.messages)
+    : [];
+
+  return {
+    messages,
+    hasOlderMessages: query.hasNextPage,
+    isLoadingOlderMessages: query.isFetchingNextPage,
+    loadOlderMessages: query.fetchNextPage,
+  };
+}
+
+// Apply `update` to every cached message of the conversation
+export function updateCachedMessages(
+  queryClient: QueryClient,
+  chatId: string,
+  update: (message: MessageWithReactions) => MessageWithReactions,
+) {
+  queryClient.setQueryData<InfiniteData<MessagePage>>(
+    conversationMessagesKey(chatId),
+    (data) => data && {
+      ...data,
+      pages: data.pages.map(page => ({ ...page, messages: page.messages.map(update) })),
+    },
+  );
+}
+
+// Add a just-received message to the newest page, ignoring duplicates. Replayed
+// messages can arrive after newer live ones, so the page is kept in send order.
+export function appendCachedMessage(queryClient: QueryClient, chatId: string, message: Message) {
+  queryClient.setQueryData<InfiniteData<MessagePage>>(
+    conversationMessagesKey(chatId),
+    (data) => {
+      if (!data) return data;
+      if (data.pages.some(page => page.messages.some(m => m.id === message.id))) return data;
+
+      const [newestPage, ...olderPages] = data.pages;
+      const messages = [...newestPage.messages, message].sort((a, b) =>
+        new Date(a.timestamp!).getTime() - new Date(b.timestamp!).getTime()
+      );
+      return {
+        ...data,
+        pages: [{ ...newestPage, messages }, ...olderPages],
+      };
+    },
+  );
+}
+
+/**
+ * Loads older history when the user scrolls to the top of a ScrollArea and
+ * keeps the visible messages in place while the older page is prepended.
+ */
+export function useLoadOlderOnScroll(
+  scrollAreaRef: RefObject<HTMLElement>,
+  messages: Message[],
+  { hasOlderMessages, isLoadingOlderMessages, loadOlderMessages }: Pick<
+    ReturnType<typeof useConversationMessages>,
+    "hasOlderMessages" | "isLoadingOlderMessages" | "loadOlderMessages"
+  >,
+) {
+  const previousScrollHeightRef = useRef<number | null>(null);
+
+  const getViewport = () =>
+    scrollAreaRef.current?.querySelector<HTMLElement>("[data-radix-scroll-area-viewport]") ?? null;
+
+  useEffect(() => {
+    const viewport = getViewport();
+    if (!viewport) return;
+
+    const handleScroll = () => {
+      if (viewport.scrollTop > 80 || !hasOlderMessages || isLoadingOlderMessages) return;
+      previousScrollHeightRef.current = viewport.scrollHeight;
+      loadOlderMessages();
+    };
+
+    viewport.addEventListener("scroll", handleScroll);
+    return () => viewport.removeEventListener("scroll", handleScroll);
+  }, [hasOlderMessages, isLoadingOlderMessages, loadOlderMessages]);
+
+  // Restore the scroll offset once the older page has been rendered
+  useLayoutEffect(() => {
+    const viewport = getViewport();
+    if (!viewport || previousScrollHeightRef.current === null || isLoadingOlderMessages) return;
+
+    viewport.scrollTop += viewport.scrollHeight - previousScrollHeightRef.current;
+    previousScrollHeightRef.current = null;
+  }, [messages, isLoadingOlderMessages]);
+}
+
+const HIGHLIGHT_CLASSES = ["ring-2", "ring-primary", "rounded-lg"];
+// How far back a jump to a quoted message pages before giving up
+const MAX_SCROLL_PAGES = 20;
+
+/**
+ * Returns a function that scrolls a message row (marked with
+ * `data-message-id`) into view, paging back through history until the
+ * message is loaded, and briefly highlights it.
+ */
+export function useScrollToMessage(
+  scrollAreaRef: RefObject<HTMLElement>,
+  { hasOlderMessages, loadOlderMessages }: Pick<
+    ReturnType<typeof useConversationMessages>,
+    "hasOlderMessages" | "loadOlderMessages"
+  >,
+) {
+  const findRow = (messageId: string) =>
+    scrollAreaRef.current?.querySelector<HTMLElement>(`[data-message-id="${messageId}"]`) ?? null;
+
+  return async (messageId: string) => {
+    let row = findRow(messageId);
+    let canLoadMore = hasOlderMessages;
+    let pagesLoaded = 0;
+
+    while (!row && canLoadMore && pagesLoaded < MAX_SCROLL_PAGES) {
+      const result = await loadOlderMessages();
+      pagesLoaded++;
+      // A failed page keeps hasNextPage set, so retrying would never end
+      canLoadMore = result.hasNextPage && !result.isError;
+      // Let the older page render before looking again
+      await new Promise(resolve => requestAnimationFrame(resolve));
+      row = findRow(messageId);
+    }
+    if (!row) {
+      toast({ title: "Message not found", description: "It may have been deleted or is too far back" });
+      return;
+    }
+
+    const target = row;
+    target.scrollIntoView({ behavior: "smooth", block: "center" });
+    target.classList.add(...HIGHLIGHT_CLASSES);
+    setTimeout(() => target.classList.remove(...HIGHLIGHT_CLASSES), 1500);
+  };
+}
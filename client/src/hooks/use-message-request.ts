@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ConversationSummary } from "@shared/schema";
+import { socketEvents } from "@/lib/socket-events";
+import { useAuth } from "./use-auth";
+
+/**
+ * Request state of the direct chat with otherUserId, read from the inbox list:
+ * - incoming: they messaged first and we haven't accepted yet
+ * - outgoing: we messaged first and are waiting (the server shows a declined
+ *   request as still pending to its sender)
+ */
+export function useMessageRequest(otherUserId: string | undefined) {
+  const { user } = useAuth();
+  const { data: conversations = [] } = useQuery<ConversationSummary[]>({
+    queryKey: ["/api/conversations"],
+    enabled: !!otherUserId,
+  });
+
+  const conversation = conversations.find(conv => !conv.isGroup && conv.otherUser?.id === otherUserId);
+  const isPending = conversation?.requestStatus === "pending";
+
+  return {
+    isIncoming: isPending && conversation.participant2Id === user?.id,
+    isOutgoing: isPending && conversation.participant1Id === user?.id,
+  };
+}
+
+// The reason the server last refused to start a conversation with otherUserId
+// (their "who can message me" setting), or null. Nothing tells us when they
+// change the setting, so it only lasts while the chat stays open
+export function useMessagingRestriction(otherUserId: string | undefined) {
+  const [restriction, setRestriction] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRestriction(null);
+    return socketEvents.on('messagingRestricted', (event) => {
+      if (event.otherUserId === otherUserId) setRestriction(event.message);
+    });
+  }, [otherUserId]);
+
+  return restriction;
+}
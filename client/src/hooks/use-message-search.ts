@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { MessageSearchResult } from "@shared/schema";
+
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+/**
+ * Searches the user's messages as they type. The request is debounced and
+ * only sent once the query is long enough for the server to accept it.
+ */
+export function useMessageSearch(query: string) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const enabled = debouncedQuery.length >= MIN_QUERY_LENGTH;
+
+  const { data, isFetching } = useQuery<MessageSearchResult[]>({
+    queryKey: ["/api/messages/search", debouncedQuery],
+    queryFn: async () => {
+      const res = await fetch(`/api/messages/search?${new URLSearchParams({ q: debouncedQuery })}`, {
+        credentials: "include",
+      });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      return await res.json();
+    },
+    enabled,
+    // New messages arrive all the time, so don't keep results around forever
+    staleTime: 30 * 1000,
+  });
+
+  return {
+    isSearching: query.trim().length >= MIN_QUERY_LENGTH,
+    results: enabled ? data ?? [] : [],
+    isLoading: isFetching || query.trim() !== debouncedQuery,
+  };
+}
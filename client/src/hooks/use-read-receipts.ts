@@ -0,0 +1,74 @@
+import { useEffect, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Message } from "@shared/schema";
+import { useAuth } from "./use-auth";
+import { useSocket } from "./use-socket";
+import { socketEvents, type SocketEventMap } from "@/lib/socket-events";
+import { updateCachedMessages } from "./use-conversation-messages";
+
+/**
+ * Keeps delivery/read state of a conversation in sync:
+ * - tells the server when we've seen the other members' messages
+ * - patches our own messages in the cache when receipts come back
+ *
+ * In groups a message's readAt is set by the first member to read it, so
+ * receipts there are sent for the newest incoming message we haven't
+ * acknowledged yet rather than for messages without readAt.
+ */
+export function useReadReceipts(chatId: string | undefined, messages: Message[], isGroup = false) {
+  const { user } = useAuth();
+  const { markRead, isConnected } = useSocket();
+  const queryClient = useQueryClient();
+  const acknowledgedMessageIdRef = useRef<string | null>(null);
+
+  // Mark incoming messages as read while the conversation is on screen
+  useEffect(() => {
+    if (!chatId || !isConnected) return;
+
+    const incoming = messages.filter(m => m.senderId !== user?.id);
+    const unread = isGroup ? incoming.slice(-1) : incoming.filter(m => !m.readAt);
+    if (unread.length === 0 || unread[unread.length - 1].id === acknowledgedMessageIdRef.current) return;
+
+    const sendReceipt = () => {
+      if (document.visibilityState === "visible") {
+        const upToMessageId = unread[unread.length - 1].id;
+        markRead(chatId, upToMessageId, isGroup);
+        if (isGroup) acknowledgedMessageIdRef.current = upToMessageId;
+      }
+    };
+
+    sendReceipt();
+    document.addEventListener("visibilitychange", sendReceipt);
+    return () => document.removeEventListener("visibilitychange", sendReceipt);
+  }, [chatId, isGroup, isConnected, messages]);
+
+  // Reflect receipts for our own messages
+  useEffect(() => {
+    if (!chatId) return;
+
+    const applyReceipt = (messageIds: string[], update: (message: Message) => Message) => {
+      updateCachedMessages(queryClient, chatId, m => messageIds.includes(m.id) ? update(m) : m);
+    };
+
+    // Direct receipts name the other user; group receipts carry the conversation id
+    const handleDelivered = ({ recipientId, conversationId, messageIds, deliveredAt }: SocketEventMap["messagesDelivered"]) => {
+      if (recipientId === chatId || conversationId === chatId) {
+        applyReceipt(messageIds, m => ({ ...m, deliveredAt }));
+      }
+    };
+
+    const handleRead = ({ readerId, conversationId, messageIds, readAt }: SocketEventMap["messagesRead"]) => {
+      if (readerId === chatId || conversationId === chatId) {
+        // A read message is implicitly delivered as well
+        applyReceipt(messageIds, m => ({ ...m, deliveredAt: m.deliveredAt || readAt, readAt }));
+      }
+    };
+
+    const unsubscribers = [
+      socketEvents.on('messagesDelivered', handleDelivered),
+      socketEvents.on('messagesRead', handleRead),
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [chatId, queryClient]);
+}
@@ -1,30 +1,128 @@
 import { createContext, useContext, useEffect, useState, useRef } from "react";
 import { useAuth } from "./use-auth";
-import { Message, User } from "@shared/schema";
+import { User, AWAY_AFTER_MINUTES } from "@shared/schema";
+import { WS_CLOSE_ACCOUNT_SUSPENDED, type ClientEvent, type ServerEvent } from "@shared/ws-protocol";
 import { useNotification } from "./use-notification";
+import { toast } from "./use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { socketEvents } from "@/lib/socket-events";
+import { appendCachedMessage } from "./use-conversation-messages";
 
 interface SocketContextType {
   socket: WebSocket | null;
   isConnected: boolean;
-  sendMessage: (receiverId: string, content?: string, imageUrl?: string) => void;
-  sendTyping: (receiverId: string, isTyping: boolean) => void;
-  openChatWindow: (otherUserId: string) => void;
-  closeChatWindow: (otherUserId: string) => void;
+  sendMessage: (chatId: string, content?: string, imageUrl?: string, replyToMessageId?: string, isGroup?: boolean) => void;
+  sendTyping: (chatId: string, isTyping: boolean, isGroup?: boolean) => void;
+  markRead: (chatId: string, upToMessageId?: string, isGroup?: boolean) => void;
+  editMessage: (chatId: string, messageId: string, content: string, isGroup?: boolean) => void;
+  deleteMessage: (chatId: string, messageId: string, isGroup?: boolean) => void;
+  reactToMessage: (messageId: string, emoji: string) => void;
+  // Messages sent from this tab that the server hasn't acknowledged yet
+  outbox: OutboxMessage[];
+  retryMessage: (clientMessageId: string) => void;
+  discardMessage: (clientMessageId: string) => void;
+  openChatWindow: (chatId: string, isGroup?: boolean) => void;
+  closeChatWindow: (chatId: string, isGroup?: boolean) => void;
   onlineUsers: User[];
+  // Keyed by the typing user for direct chats, by groupId for groups
   typingUsers: Record<string, boolean>;
 }
 
+export interface OutboxMessage {
+  clientMessageId: string;
+  chatId: string;
+  isGroup?: boolean;
+  content?: string;
+  imageUrl?: string;
+  replyToMessageId?: string;
+  status: "pending" | "failed";
+  createdAt: string;
+}
+
+// A send the server hasn't acknowledged by then is shown as failed
+const ACK_TIMEOUT_MS = 10000;
+
+// Where a reconnecting socket should resume from: the newest message seen and
+// the newest server timestamp seen (for notifications, and when no message arrived)
+interface ResumePoint {
+  lastMessageId?: string;
+  since?: string;
+}
+
+// A chat is the other user for direct conversations, or a group
+function chatRef(chatId: string, isGroup?: boolean) {
+  return isGroup ? { groupId: chatId } : { otherUserId: chatId };
+}
+
+function sendEvent(target: WebSocket, event: ClientEvent) {
+  target.send(JSON.stringify(event));
+}
+
 const SocketContext = createContext<SocketContextType | null>(null);
 
 export function SocketProvider({ children }: { children: React.ReactNode }) {
-  const { user } = useAuth();
+  const { user, handleSuspended } = useAuth();
   const [socket, setSocket] = useState<WebSocket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [onlineUsers, setOnlineUsers] = useState<User[]>([]);
   const [typingUsers, setTypingUsers] = useState<Record<string, boolean>>({});
   const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
+  const resumePointRef = useRef<ResumePoint>({});
+  const [outbox, setOutbox] = useState<OutboxMessage[]>([]);
+  // Mirrors `outbox` for the socket handlers, which outlive a single render
+  const outboxRef = useRef<OutboxMessage[]>([]);
+  const ackTimeoutsRef = useRef(new Map<string, NodeJS.Timeout>());
+  // Chats open in this tab, by id, with whether each is a group. The server
+  // forgets them when a connection drops, so they're sent again on reconnect
+  const openChatsRef = useRef(new Map<string, boolean | undefined>());
+  // Whether this tab last told the server it's idle
+  const isIdleRef = useRef(false);
   const { showNotification } = useNotification();
 
+  const updateOutbox = (update: (messages: OutboxMessage[]) => OutboxMessage[]) => {
+    outboxRef.current = update(outboxRef.current);
+    setOutbox(outboxRef.current);
+  };
+
+  const clearAckTimeout = (clientMessageId: string) => {
+    clearTimeout(ackTimeoutsRef.current.get(clientMessageId));
+    ackTimeoutsRef.current.delete(clientMessageId);
+  };
+
+  const setOutboxStatus = (clientMessageId: string, status: OutboxMessage["status"]) => {
+    clearAckTimeout(clientMessageId);
+    updateOutbox(messages => messages.map(m => m.clientMessageId === clientMessageId ? { ...m, status } : m));
+  };
+
+  // Send an outbox entry if the socket is open - otherwise it stays pending
+  // and goes out on reconnect. Resends reuse the client id, so they're idempotent.
+  const transmit = (target: WebSocket | null, pending: OutboxMessage) => {
+    if (!target || target.readyState !== WebSocket.OPEN) return;
+
+    sendEvent(target, {
+      type: 'sendMessage',
+      ...(pending.isGroup ? { groupId: pending.chatId } : { receiverId: pending.chatId }),
+      content: pending.content,
+      imageUrl: pending.imageUrl,
+      replyToMessageId: pending.replyToMessageId,
+      clientMessageId: pending.clientMessageId,
+    });
+
+    clearAckTimeout(pending.clientMessageId);
+    ackTimeoutsRef.current.set(
+      pending.clientMessageId,
+      setTimeout(() => setOutboxStatus(pending.clientMessageId, "failed"), ACK_TIMEOUT_MS),
+    );
+  };
+
+  const rememberSeen = (at: string | Date | null | undefined, messageId?: string) => {
+    const point = resumePointRef.current;
+    if (messageId) point.lastMessageId = messageId;
+    if (at && (!point.since || new Date(at) > new Date(point.since))) {
+      point.since = new Date(at).toISOString();
+    }
+  };
+
   const connect = () => {
     if (!user || socket?.readyState === WebSocket.CONNECTING) return;
 
@@ -42,25 +140,114 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
 
     newSocket.onmessage = (event) => {
       try {
-        const data = JSON.parse(event.data);
+        const data = JSON.parse(event.data) as ServerEvent;
         
         switch (data.type) {
+          case 'connected':
+            // Ask for whatever was missed while a previous connection was down
+            const { lastMessageId, since } = resumePointRef.current;
+            if (lastMessageId || since) {
+              sendEvent(newSocket, { type: 'resume', lastMessageId, since });
+            }
+            rememberSeen(data.serverTime);
+            
+            openChatsRef.current.forEach((isGroup, chatId) => {
+              sendEvent(newSocket, { type: 'openChatWindow', ...chatRef(chatId, isGroup) });
+            });
+            
+            // Send whatever was queued while disconnected
+            outboxRef.current
+              .filter(m => m.status === "pending")
+              .forEach(m => transmit(newSocket, m));
+            break;
+            
+          case 'missedEvents':
+            // Merge replayed messages into the open conversations (duplicates are skipped)
+            data.messages.forEach(({ message, groupId, otherUserId }) => {
+              appendCachedMessage(queryClient, groupId ?? otherUserId!, message);
+              rememberSeen(message.timestamp, message.id);
+            });
+            
+            if (data.hasMore) {
+              // Too much to replay - refetch conversations and their history
+              queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+            } else if (data.messages.length > 0) {
+              queryClient.invalidateQueries({ queryKey: ["/api/conversations"], exact: true });
+            }
+            if (data.messages.length > 0 || data.hasMore) {
+              socketEvents.emit('missedMessages', data);
+            }
+            
+            if (data.notifications.length > 0) {
+              data.notifications.forEach(notification => rememberSeen(notification.createdAt));
+              socketEvents.emit('notificationReceived');
+            }
+            break;
+            
           case 'newMessage':
             // Handle new message - parent component should listen for this
             console.log('Received newMessage:', data);
-            window.dispatchEvent(new CustomEvent('newMessage', { detail: data }));
+            rememberSeen(data.message.timestamp, data.message.id);
+            socketEvents.emit('newMessage', data);
             break;
             
           case 'messageConfirmed':
             // Handle message confirmation
             console.log('Received messageConfirmed:', data);
-            window.dispatchEvent(new CustomEvent('messageConfirmed', { detail: data }));
+            rememberSeen(data.message.timestamp, data.message.id);
+            if (data.clientMessageId) {
+              clearAckTimeout(data.clientMessageId);
+              updateOutbox(messages => messages.filter(m => m.clientMessageId !== data.clientMessageId));
+            }
+            socketEvents.emit('messageConfirmed', data);
+            break;
+            
+          case 'messagesDelivered':
+            // Our messages reached the recipient's device
+            socketEvents.emit('messagesDelivered', data);
+            break;
+            
+          case 'messagesRead':
+            // The recipient has viewed our messages
+            socketEvents.emit('messagesRead', data);
+            break;
+            
+          case 'messageUpdated':
+            // A message was edited or unsent (by us on another view, or by the other user)
+            socketEvents.emit('messageUpdated', data);
+            break;
+            
+          case 'messageReactionsUpdated':
+            socketEvents.emit('messageReactionsUpdated', data);
+            break;
+            
+          case 'error':
+            // A rejected send stays in the outbox as failed so it can be retried
+            if (data.clientMessageId) {
+              setOutboxStatus(data.clientMessageId, "failed");
+            }
+            // The open chat explains this one in place of the composer
+            if (data.code === 'messaging_restricted') {
+              socketEvents.emit('messagingRestricted', data);
+              break;
+            }
+            toast({
+              title: "Something went wrong",
+              description: data.message,
+              variant: "destructive",
+            });
+            break;
+            
+          case 'unreadCountUpdated':
+            // Server-computed unread counts changed (new message or read receipt)
+            socketEvents.emit('unreadCountUpdated', data);
             break;
             
           case 'userTyping':
+            const typingKey = data.groupId ?? data.userId;
             setTypingUsers(prev => ({
               ...prev,
-              [data.userId]: data.isTyping,
+              [typingKey]: data.isTyping,
             }));
             
             // Clear typing indicator after 3 seconds
@@ -68,53 +255,75 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
               setTimeout(() => {
                 setTypingUsers(prev => ({
                   ...prev,
-                  [data.userId]: false,
+                  [typingKey]: false,
                 }));
               }, 3000);
             }
             break;
             
-          case 'userOnline':
-          case 'userOffline':
-            // Update online users list and pass userId information
-            console.log(`[WebSocket] User ${data.userId} is now ${data.type === 'userOnline' ? 'ONLINE' : 'OFFLINE'}`);
-            window.dispatchEvent(new CustomEvent('onlineStatusChanged', { 
-              detail: { 
-                userId: data.userId, 
-                isOnline: data.type === 'userOnline' 
-              } 
-            }));
+          case 'groupUpdated':
+            // Group name, avatar or membership changed
+            socketEvents.emit('groupUpdated', data);
+            break;
+            
+          case 'messageRequestUpdated':
+            // A message request was accepted (by either side's view) or declined by us
+            queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+            socketEvents.emit('messageRequestUpdated', data);
+            break;
+            
+          case 'presenceChanged':
+            // Someone came online, went away/busy or offline
+            socketEvents.emit('presenceChanged', data);
             break;
             
           case 'newNotification':
             // Handle real-time notifications
             const { notification } = data;
             console.log('Received notification:', notification);
+            rememberSeen(notification.createdAt);
             
-            if (notification.type === 'profile_view') {
+            if (notification.type === 'profile_view' || notification.type === 'profile_like') {
+              // Both open the other user's profile
               showNotification({
                 type: 'profile_view',
                 fromUserName: notification.fromUserName,
-                fromUserPhoto: notification.fromUserPhoto,
+                fromUserPhoto: notification.fromUserPhoto ?? undefined,
                 fromUserId: notification.fromUserId,
                 notificationId: notification.id,
                 title: notification.fromUserName,
-                description: 'viewed your profile.'
+                description: notification.type === 'profile_like' ? 'liked your profile.' : 'viewed your profile.'
               });
-            } else if (notification.type === 'message_received') {
+            } else if (notification.type === 'message_received' || notification.type === 'message_request' || notification.type === 'message_request_accepted') {
+              // All three open the chat with the sender
               showNotification({
                 type: 'message_received',
                 fromUserName: notification.fromUserName,
-                fromUserPhoto: notification.fromUserPhoto,
+                fromUserPhoto: notification.fromUserPhoto ?? undefined,
                 fromUserId: notification.fromUserId,
                 notificationId: notification.id,
                 title: notification.fromUserName,
-                description: 'sent you a message.'
+                description: notification.type === 'message_request'
+                  ? 'sent you a message request.'
+                  : notification.type === 'message_request_accepted'
+                    ? 'accepted your message request.'
+                    : 'sent you a message.'
+              });
+            } else if (notification.type === 'moderation_warning') {
+              toast({
+                title: "Warning from moderators",
+                description: notification.message,
+                variant: "destructive",
               });
             }
             
             // Invalidate notification count query to update navbar counter
-            window.dispatchEvent(new CustomEvent('notificationReceived'));
+            socketEvents.emit('notificationReceived');
+            break;
+
+          case 'accountSuspended':
+            // The server closes the socket right after; onclose signs out
+            handleSuspended(data.notice);
             break;
         }
       } catch (error) {
@@ -122,10 +331,21 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
       }
     };
 
-    newSocket.onclose = () => {
+    newSocket.onclose = (event) => {
       setIsConnected(false);
       setSocket(null);
       
+      // Unacknowledged sends are resent on reconnect rather than failed
+      ackTimeoutsRef.current.forEach(timeout => clearTimeout(timeout));
+      ackTimeoutsRef.current.clear();
+      
+      // The session is gone too, so don't reconnect; the sign-in page shows
+      // the accountSuspended notice that came just before
+      if (event.code === WS_CLOSE_ACCOUNT_SUSPENDED) {
+        handleSuspended();
+        return;
+      }
+      
       // Attempt to reconnect after 3 seconds
       if (user) {
         reconnectTimeoutRef.current = setTimeout(connect, 3000);
@@ -143,6 +363,8 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
     } else if (!user && socket) {
       socket.close();
       setSocket(null);
+      resumePointRef.current = {};
+      updateOutbox(() => []);
       setIsConnected(false);
     }
 
@@ -156,42 +378,155 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
     };
   }, [user]);
 
-  const sendMessage = (receiverId: string, content?: string, imageUrl?: string) => {
+  // Report this tab idle after AWAY_AFTER_MINUTES without input, and active again
+  // on the next input; the server shows the user away once all their tabs are idle
+  useEffect(() => {
+    if (!socket) return;
+
+    // A new connection starts out active on the server
+    isIdleRef.current = false;
+    let idleTimeout: NodeJS.Timeout;
+
+    const reportIdle = (idle: boolean) => {
+      if (isIdleRef.current === idle) return;
+      isIdleRef.current = idle;
+      if (socket.readyState === WebSocket.OPEN) {
+        sendEvent(socket, { type: 'setIdle', idle });
+      }
+    };
+
+    const handleActivity = () => {
+      reportIdle(false);
+      clearTimeout(idleTimeout);
+      idleTimeout = setTimeout(() => reportIdle(true), AWAY_AFTER_MINUTES * 60 * 1000);
+    };
+
+    const activityEvents = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+    activityEvents.forEach(type => window.addEventListener(type, handleActivity, { passive: true }));
+    handleActivity();
+
+    return () => {
+      clearTimeout(idleTimeout);
+      activityEvents.forEach(type => window.removeEventListener(type, handleActivity));
+    };
+  }, [socket]);
+
+  const sendMessage = (chatId: string, content?: string, imageUrl?: string, replyToMessageId?: string, isGroup?: boolean) => {
+    const pending: OutboxMessage = {
+      clientMessageId: crypto.randomUUID(),
+      chatId,
+      isGroup,
+      content,
+      imageUrl,
+      replyToMessageId,
+      status: "pending",
+      createdAt: new Date().toISOString(),
+    };
+    updateOutbox(messages => [...messages, pending]);
+    transmit(socket, pending);
+  };
+
+  const retryMessage = (clientMessageId: string) => {
+    const failed = outboxRef.current.find(m => m.clientMessageId === clientMessageId);
+    if (!failed) return;
+
+    setOutboxStatus(clientMessageId, "pending");
+    transmit(socket, failed);
+  };
+
+  const discardMessage = (clientMessageId: string) => {
+    clearAckTimeout(clientMessageId);
+    updateOutbox(messages => messages.filter(m => m.clientMessageId !== clientMessageId));
+  };
+
+  const sendTyping = (chatId: string, isTyping: boolean, isGroup?: boolean) => {
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      sendEvent(socket, {
+        type: 'typing',
+        ...(isGroup ? { groupId: chatId } : { receiverId: chatId }),
+        isTyping,
+      });
+    }
+  };
+
+  const markRead = (chatId: string, upToMessageId?: string, isGroup?: boolean) => {
     if (socket && socket.readyState === WebSocket.OPEN) {
-      socket.send(JSON.stringify({
-        type: 'sendMessage',
-        receiverId,
+      sendEvent(socket, {
+        type: 'markRead',
+        ...chatRef(chatId, isGroup),
+        upToMessageId,
+      });
+    }
+  };
+
+  // Edits and unsends fall back to REST when the socket is down
+  const editMessage = (chatId: string, messageId: string, content: string, isGroup?: boolean) => {
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      sendEvent(socket, {
+        type: 'editMessage',
+        messageId,
         content,
-        imageUrl,
-      }));
+      });
+      return;
     }
+
+    apiRequest("PATCH", `/api/messages/${messageId}`, { content })
+      .then(res => res.json())
+      .then(message => {
+        socketEvents.emit('messageUpdated', { type: 'messageUpdated', message, ...chatRef(chatId, isGroup) });
+      })
+      .catch((error: Error) => {
+        toast({ title: "Edit failed", description: error.message, variant: "destructive" });
+      });
   };
 
-  const sendTyping = (receiverId: string, isTyping: boolean) => {
+  const deleteMessage = (chatId: string, messageId: string, isGroup?: boolean) => {
     if (socket && socket.readyState === WebSocket.OPEN) {
-      socket.send(JSON.stringify({
-        type: 'typing',
-        receiverId,
-        isTyping,
-      }));
+      sendEvent(socket, {
+        type: 'deleteMessage',
+        messageId,
+      });
+      return;
+    }
+
+    apiRequest("DELETE", `/api/messages/${messageId}`)
+      .then(res => res.json())
+      .then(message => {
+        socketEvents.emit('messageUpdated', { type: 'messageUpdated', message, ...chatRef(chatId, isGroup) });
+      })
+      .catch((error: Error) => {
+        toast({ title: "Delete failed", description: error.message, variant: "destructive" });
+      });
+  };
+
+  // Reacting with the emoji already chosen removes the reaction
+  const reactToMessage = (messageId: string, emoji: string) => {
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      sendEvent(socket, {
+        type: 'reactToMessage',
+        messageId,
+        emoji,
+      });
     }
   };
 
-  const openChatWindow = (otherUserId: string) => {
+  const openChatWindow = (chatId: string, isGroup?: boolean) => {
+    openChatsRef.current.set(chatId, isGroup);
     if (socket && socket.readyState === WebSocket.OPEN) {
-      socket.send(JSON.stringify({
+      sendEvent(socket, {
         type: 'openChatWindow',
-        otherUserId,
-      }));
+        ...chatRef(chatId, isGroup),
+      });
     }
   };
 
-  const closeChatWindow = (otherUserId: string) => {
+  const closeChatWindow = (chatId: string, isGroup?: boolean) => {
+    openChatsRef.current.delete(chatId);
     if (socket && socket.readyState === WebSocket.OPEN) {
-      socket.send(JSON.stringify({
+      sendEvent(socket, {
         type: 'closeChatWindow',
-        otherUserId,
-      }));
+        ...chatRef(chatId, isGroup),
+      });
     }
   };
 
@@ -201,6 +536,13 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
       isConnected,
       sendMessage,
       sendTyping,
+      markRead,
+      editMessage,
+      deleteMessage,
+      reactToMessage,
+      outbox,
+      retryMessage,
+      discardMessage,
       openChatWindow,
       closeChatWindow,
       onlineUsers,
@@ -0,0 +1,45 @@
+import type { ServerEventOf } from "@shared/ws-protocol";
+
+// Events the socket provider re-publishes to components, plus a few app-level
+// ones that ride the same bus
+export interface SocketEventMap {
+  newMessage: ServerEventOf<"newMessage">;
+  messageConfirmed: ServerEventOf<"messageConfirmed">;
+  messagesDelivered: ServerEventOf<"messagesDelivered">;
+  messagesRead: ServerEventOf<"messagesRead">;
+  messageUpdated: ServerEventOf<"messageUpdated">;
+  messageReactionsUpdated: ServerEventOf<"messageReactionsUpdated">;
+  unreadCountUpdated: ServerEventOf<"unreadCountUpdated">;
+  groupUpdated: ServerEventOf<"groupUpdated">;
+  messageRequestUpdated: ServerEventOf<"messageRequestUpdated">;
+  // A send refused because of the recipient's messaging setting
+  messagingRestricted: ServerEventOf<"error">;
+  // Replayed after a reconnect
+  missedMessages: ServerEventOf<"missedEvents">;
+  presenceChanged: ServerEventOf<"presenceChanged">;
+  notificationReceived: void;
+  notificationRead: void;
+}
+
+type SocketEventType = keyof SocketEventMap;
+type SocketEventListener<K extends SocketEventType> = (payload: SocketEventMap[K]) => void;
+
+const listeners = new Map<SocketEventType, Set<SocketEventListener<any>>>();
+
+export const socketEvents = {
+  // Returns the unsubscribe function, so it can be handed straight back from useEffect
+  on<K extends SocketEventType>(type: K, listener: SocketEventListener<K>) {
+    if (!listeners.has(type)) {
+      listeners.set(type, new Set());
+    }
+    listeners.get(type)!.add(listener);
+
+    return () => {
+      listeners.get(type)?.delete(listener);
+    };
+  },
+
+  emit<K extends SocketEventType>(type: K, ...[payload]: SocketEventMap[K] extends void ? [] : [SocketEventMap[K]]) {
+    listeners.get(type)?.forEach(listener => listener(payload));
+  },
+};
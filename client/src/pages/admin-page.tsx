@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { Redirect } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Download, Loader2, Search, Shield } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import ReportsQueue from "@/components/admin/reports-queue";
+import UserDetailsSheet from "@/components/admin/user-details-sheet";
+import AuditLogList, { actionLabels } from "@/components/admin/audit-log-list";
+import { AdminUser, AuditAction, AuditEventWithUsers, AUDIT_ACTIONS, AUDIT_EXPORT_FORMATS, hasRole, isSuspended } from "@shared/schema";
+
+async function searchUsers(query: string): Promise<AdminUser[]> {
+  const res = await fetch(`/api/admin/users?q=${encodeURIComponent(query)}`, { credentials: "include" });
+  if (!res.ok) throw new Error("Failed to search users");
+  return res.json();
+}
+
+function UserSearch({ onSelectUser }: { onSelectUser: (userId: string) => void }) {
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+
+  const { data: users = [], isLoading } = useQuery({
+    queryKey: ["/api/admin/users", "search", query],
+    queryFn: () => searchUsers(query),
+  });
+
+  return (
+    <div className="space-y-4">
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setQuery(input.trim());
+        }}
+      >
+        <Input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Username, email or name"
+          maxLength={100}
+          className="rounded-lg"
+          data-testid="input-admin-user-search"
+        />
+        <Button type="submit" className="rounded-lg" data-testid="button-admin-user-search">
+          <Search className="h-4 w-4" />
+        </Button>
+      </form>
+
+      {isLoading ? (
+        <div className="flex justify-center py-10">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : users.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-10">No matching accounts</p>
+      ) : (
+        <div className="divide-y rounded-xl border" data-testid="list-admin-users">
+          {users.map((user) => (
+            <button
+              key={user.id}
+              className="flex w-full items-center gap-3 p-3 text-left hover:bg-muted/50 transition-colors"
+              onClick={() => onSelectUser(user.id)}
+              data-testid={`row-admin-user-${user.id}`}
+            >
+              <Avatar className="h-9 w-9">
+                <AvatarImage src={user.profilePhoto || undefined} />
+                <AvatarFallback className="text-xs">{user.firstName[0]}{user.lastName[0]}</AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{user.firstName} {user.lastName}</p>
+                <p className="text-xs text-muted-foreground truncate">@{user.username} · {user.email}</p>
+              </div>
+              {user.role !== "user" && <Badge variant="secondary" className="capitalize">{user.role}</Badge>}
+              {isSuspended(user) && <Badge variant="destructive">Suspended</Badge>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface AuditFilters {
+  action: AuditAction | "";
+  from: string;
+  to: string;
+}
+
+// Date inputs give whole days, so "to" runs through the end of its day
+function auditFilterParams({ action, from, to }: AuditFilters) {
+  const params = new URLSearchParams();
+  if (action) params.set("action", action);
+  if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+  if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+  return params;
+}
+
+async function fetchAuditEvents(filters: AuditFilters): Promise<AuditEventWithUsers[]> {
+  const res = await fetch(`/api/admin/audit-events?${auditFilterParams(filters)}`, { credentials: "include" });
+  if (!res.ok) throw new Error("Failed to fetch audit events");
+  return res.json();
+}
+
+function AuditLogTab() {
+  const [filters, setFilters] = useState<AuditFilters>({ action: "", from: "", to: "" });
+
+  const { data: entries = [], isLoading } = useQuery({
+    queryKey: ["/api/admin/audit-events", filters],
+    queryFn: () => fetchAuditEvents(filters),
+  });
+
+  const exportUrl = (format: typeof AUDIT_EXPORT_FORMATS[number]) => {
+    const params = auditFilterParams(filters);
+    params.set("format", format);
+    return `/api/admin/audit-events/export?${params}`;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={filters.action || "all"}
+          onValueChange={(value) => setFilters({ ...filters, action: value === "all" ? "" : value as AuditAction })}
+        >
+          <SelectTrigger className="w-52 rounded-lg" data-testid="select-audit-action">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All actions</SelectItem>
+            {AUDIT_ACTIONS.map(action => (
+              <SelectItem key={action} value={action}>{actionLabels[action]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          value={filters.from}
+          onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+          className="w-40 rounded-lg"
+          aria-label="From"
+          data-testid="input-audit-from"
+        />
+        <Input
+          type="date"
+          value={filters.to}
+          onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+          className="w-40 rounded-lg"
+          aria-label="To"
+          data-testid="input-audit-to"
+        />
+        <div className="flex gap-2 ml-auto">
+          {AUDIT_EXPORT_FORMATS.map(format => (
+            <Button key={format} variant="outline" size="sm" className="rounded-lg uppercase" asChild>
+              <a href={exportUrl(format)} download data-testid={`link-audit-export-${format}`}>
+                <Download className="h-4 w-4 mr-1" />
+                {format}
+              </a>
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-10">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <AuditLogList entries={entries} emptyText="No matching events" />
+      )}
+    </div>
+  );
+}
+
+export default function AdminPage() {
+  const { user } = useAuth();
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+
+  if (!user || !hasRole(user, "moderator")) {
+    return <Redirect to="/" />;
+  }
+
+  const isAdmin = hasRole(user, "admin");
+
+  return (
+    <div className="min-h-screen bg-background pb-20 md:pb-6">
+      {/* Header */}
+      <div className="sticky top-0 z-40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80 border-b">
+        <div className="container max-w-5xl mx-auto flex items-center gap-3 p-4">
+          <Shield className="h-6 w-6 text-primary" />
+          <div>
+            <h1 className="text-xl md:text-2xl font-bold">Administration</h1>
+            <p className="text-xs md:text-sm text-muted-foreground">Accounts, reports and moderation history</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="container max-w-5xl mx-auto p-4">
+        <Tabs defaultValue="users">
+          <TabsList className="mb-4">
+            <TabsTrigger value="users">Users</TabsTrigger>
+            <TabsTrigger value="reports">Reports</TabsTrigger>
+            {isAdmin && <TabsTrigger value="audit">Audit log</TabsTrigger>}
+          </TabsList>
+          <TabsContent value="users">
+            <UserSearch onSelectUser={setSelectedUserId} />
+          </TabsContent>
+          <TabsContent value="reports">
+            <ReportsQueue onSelectUser={setSelectedUserId} />
+          </TabsContent>
+          {isAdmin && (
+            <TabsContent value="audit">
+              <AuditLogTab />
+            </TabsContent>
+          )}
+        </Tabs>
+      </div>
+
+      <UserDetailsSheet userId={selectedUserId} onClose={() => setSelectedUserId(null)} />
+    </div>
+  );
+}
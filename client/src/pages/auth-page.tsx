@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useAuth } from "@/hooks/use-auth";
+import { useAuth, RegistrationError } from "@/hooks/use-auth";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,6 +7,8 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { format } from "date-fns";
 import { 
   MessageSquare, 
   Users, 
@@ -17,11 +19,21 @@ import {
   Calendar,
   MapPin,
   UserCircle,
-  Heart
+  Heart,
+  ShieldAlert
 } from "lucide-react";
 
+// Fields of the sign-up form, by the names the server reports errors under
+// (the country picker sends location, the date of birth sends age)
+const registerFields = ["firstName", "lastName", "email", "username", "password", "gender", "location", "age"];
+
+function FieldErrorText({ message, testId }: { message?: string; testId: string }) {
+  if (!message) return null;
+  return <p className="text-sm font-medium text-destructive" data-testid={testId}>{message}</p>;
+}
+
 export default function AuthPage() {
-  const { user, loginMutation, registerMutation } = useAuth();
+  const { user, loginMutation, registerMutation, suspension } = useAuth();
   const [, setLocation] = useLocation();
   
   const [loginData, setLoginData] = useState({ username: "", password: "" });
@@ -50,6 +62,10 @@ export default function AuthPage() {
     return null;
   }
 
+  const registerErrors = registerMutation.error instanceof RegistrationError ? registerMutation.error.errors : [];
+  const fieldError = (field: string) => registerErrors.find(error => error.field === field)?.message;
+  const otherRegisterErrors = registerErrors.filter(error => !registerFields.includes(error.field));
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     loginMutation.mutate(loginData);
@@ -131,6 +147,21 @@ export default function AuthPage() {
                     <p className="text-sm text-muted-foreground mt-1">Sign in to continue your journey</p>
                   </div>
                   
+                  {suspension && (
+                    <Alert variant="destructive" className="mb-6 rounded-xl" data-testid="alert-account-suspended">
+                      <ShieldAlert className="h-4 w-4" />
+                      <AlertTitle>{suspension.message}</AlertTitle>
+                      <AlertDescription className="space-y-1">
+                        {suspension.suspensionReason && <p>Reason: {suspension.suspensionReason}</p>}
+                        <p>
+                          {suspension.suspendedUntil
+                            ? `You can sign in again after ${format(new Date(suspension.suspendedUntil), "PPp")}.`
+                            : "The suspension lasts until further notice."}
+                        </p>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  
                   <form onSubmit={handleLogin} className="space-y-5">
                     <div className="space-y-2">
                       <Label htmlFor="login-username" className="text-sm font-semibold">Username</Label>
@@ -203,6 +234,14 @@ export default function AuthPage() {
                     <p className="text-sm text-muted-foreground mt-1">Join our community today</p>
                   </div>
                   
+                  {otherRegisterErrors.length > 0 && (
+                    <Alert variant="destructive" className="mb-6 rounded-xl" data-testid="alert-registration-errors">
+                      <AlertDescription>
+                        {otherRegisterErrors.map(error => <p key={error.field}>{error.message}</p>)}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  
                   <form onSubmit={handleRegister} className="space-y-5">
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                       <div className="space-y-2">
@@ -220,6 +259,7 @@ export default function AuthPage() {
                             className="pl-10 h-12 rounded-xl border-2 transition-all focus:border-primary focus:ring-2 focus:ring-primary/20"
                           />
                         </div>
+                        <FieldErrorText message={fieldError("firstName")} testId="error-first-name" />
                       </div>
                       
                       <div className="space-y-2">
@@ -237,6 +277,7 @@ export default function AuthPage() {
                             className="pl-10 h-12 rounded-xl border-2 transition-all focus:border-primary focus:ring-2 focus:ring-primary/20"
                           />
                         </div>
+                        <FieldErrorText message={fieldError("lastName")} testId="error-last-name" />
                       </div>
                     </div>
                     
@@ -255,6 +296,7 @@ export default function AuthPage() {
                           className="pl-10 h-12 rounded-xl border-2 transition-all focus:border-primary focus:ring-2 focus:ring-primary/20"
                         />
                       </div>
+                      <FieldErrorText message={fieldError("email")} testId="error-email" />
                     </div>
                     
                     <div className="space-y-2">
@@ -272,6 +314,7 @@ export default function AuthPage() {
                           className="pl-10 h-12 rounded-xl border-2 transition-all focus:border-primary focus:ring-2 focus:ring-primary/20"
                         />
                       </div>
+                      <FieldErrorText message={fieldError("username")} testId="error-register-username" />
                     </div>
                     
                     <div className="space-y-2">
@@ -289,6 +332,7 @@ export default function AuthPage() {
                           className="pl-10 h-12 rounded-xl border-2 transition-all focus:border-primary focus:ring-2 focus:ring-primary/20"
                         />
                       </div>
+                      <FieldErrorText message={fieldError("password")} testId="error-register-password" />
                     </div>
                     
                     <div className="space-y-2">
@@ -304,6 +348,7 @@ export default function AuthPage() {
                           <SelectItem value="prefer_not_to_say">Prefer not to say</SelectItem>
                         </SelectContent>
                       </Select>
+                      <FieldErrorText message={fieldError("gender")} testId="error-gender" />
                     </div>
 
                     <div className="space-y-2">
@@ -376,6 +421,7 @@ export default function AuthPage() {
                           </SelectContent>
                         </Select>
                       </div>
+                      <FieldErrorText message={fieldError("location")} testId="error-country" />
                     </div>
 
                     <div className="space-y-2">
@@ -435,6 +481,7 @@ export default function AuthPage() {
                           </SelectContent>
                         </Select>
                       </div>
+                      <FieldErrorText message={fieldError("age")} testId="error-date-of-birth" />
                     </div>
                     
                     <Button 
@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef } from "react";
-import { useParams, useLocation } from "wouter";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useParams, useLocation, useSearch } from "wouter";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { useSocket } from "@/hooks/use-socket";
 import { Button } from "@/components/ui/button";
@@ -18,128 +18,186 @@ import {
   Video, 
   MoreVertical,
   Loader2,
-  Image as ImageIcon
+  Image as ImageIcon,
+  Pencil,
+  X
 } from "lucide-react";
-import { User, Message } from "@shared/schema";
+import { User, Message, MessageWithReactions, MessageReplyPreview, GroupDetails, MAX_MESSAGE_LENGTH } from "@shared/schema";
 import { cn } from "@/lib/utils";
 import EmojiPicker from "@/components/chat/emoji-picker";
-
-interface ChatContentProps {
-  chatUser: User;
-}
-
-function ChatContent({ chatUser }: ChatContentProps) {
+import MessageStatus from "@/components/chat/message-status";
+import OutboxMessageBubble from "@/components/chat/outbox-message";
+import { socketEvents, type SocketEventMap } from "@/lib/socket-events";
+import MessageActions from "@/components/chat/message-actions";
+import MessageReactions, { ReactionPicker, longPressHandlers } from "@/components/chat/message-reactions";
+import QuotedMessage, { ReplyButton } from "@/components/chat/message-reply";
+import { GroupAvatar } from "@/components/chat/group-dialogs";
+import ReportDialog, { ReportMessageButton } from "@/components/chat/report-dialog";
+import MessageRequestBanner from "@/components/chat/message-request-banner";
+import { useReadReceipts } from "@/hooks/use-read-receipts";
+import { useMessageRequest, useMessagingRestriction } from "@/hooks/use-message-request";
+import { useConversationMessages, useLoadOlderOnScroll, useScrollToMessage, appendCachedMessage, isEventForChat } from "@/hooks/use-conversation-messages";
+
+// Either a direct chat with chatUser or a group chat
+type ChatContentProps =
+  | { chatUser: User; group?: undefined }
+  | { chatUser?: undefined; group: GroupDetails };
+
+export function ChatContent({ chatUser, group }: ChatContentProps) {
   const { user: currentUser } = useAuth();
-  const { sendMessage, sendTyping, typingUsers, isConnected, openChatWindow, closeChatWindow } = useSocket();
+  const { sendMessage, sendTyping, typingUsers, isConnected, openChatWindow, closeChatWindow, editMessage, deleteMessage, reactToMessage, outbox, retryMessage, discardMessage } = useSocket();
   const queryClient = useQueryClient();
   const [messageText, setMessageText] = useState("");
   const [isTyping, setIsTyping] = useState(false);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [reactingMessageId, setReactingMessageId] = useState<string | null>(null);
+  const [reportingMessage, setReportingMessage] = useState<Message | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout>();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
 
-  const { data: messages = [] } = useQuery<Message[]>({
-    queryKey: ["/api/conversations", chatUser.id, "messages"],
-    enabled: !!chatUser.id,
-  });
+  const chatId = group ? group.id : chatUser.id;
+  const isGroup = !!group;
+
+  const conversation = useConversationMessages(chatId, isGroup);
+  const { messages } = conversation;
+  const newestMessageId = messages[messages.length - 1]?.id;
 
+  useLoadOlderOnScroll(scrollAreaRef, messages, conversation);
+  const scrollToMessage = useScrollToMessage(scrollAreaRef, conversation);
+  const targetMessageId = new URLSearchParams(useSearch()).get("message");
+  const jumpedToMessageRef = useRef<string | null>(null);
+
+  useReadReceipts(chatId, messages, isGroup);
+  const messageRequest = useMessageRequest(chatUser?.id);
+  const messagingRestriction = useMessagingRestriction(chatUser?.id);
+
+  // Only follow the bottom for new messages, not when older history is prepended
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages, typingUsers]);
+  }, [newestMessageId, outbox.length, typingUsers]);
+
+  // Jump to the message linked from search results (?message=<id>) once history has loaded
+  useEffect(() => {
+    if (!targetMessageId || messages.length === 0 || jumpedToMessageRef.current === targetMessageId) return;
+    jumpedToMessageRef.current = targetMessageId;
+    scrollToMessage(targetMessageId);
+  }, [targetMessageId, messages.length]);
 
+  // Drop a pending edit or reply when switching conversations
   useEffect(() => {
-    if (chatUser.id) {
+    setEditingMessage(null);
+    setReplyingTo(null);
+  }, [chatId]);
+
+  useEffect(() => {
+    if (chatId) {
       queryClient.invalidateQueries({ 
-        queryKey: ["/api/conversations", chatUser.id, "messages"] 
+        queryKey: ["/api/conversations", chatId, "messages"] 
       });
       
-      openChatWindow(chatUser.id);
+      openChatWindow(chatId, isGroup);
     }
     
     return () => {
-      if (chatUser.id) {
-        closeChatWindow(chatUser.id);
+      if (chatId) {
+        closeChatWindow(chatId, isGroup);
       }
     };
-  }, [chatUser.id, queryClient, openChatWindow, closeChatWindow]);
+  }, [chatId, isGroup, queryClient, openChatWindow, closeChatWindow]);
 
   useEffect(() => {
-    const handleNewMessage = (event: CustomEvent) => {
-      const { message } = event.detail;
-      
-      const isRelevantMessage = (
-        (message.senderId === chatUser.id && message.receiverId === currentUser?.id) ||
-        (message.senderId === currentUser?.id && message.receiverId === chatUser.id)
-      );
+    const handleNewMessage = (event: SocketEventMap["newMessage"]) => {
+      const { message } = event;
       
-      if (isRelevantMessage) {
-        queryClient.setQueryData(
-          ["/api/conversations", chatUser.id, "messages"],
-          (oldMessages: Message[] = []) => {
-            const messageExists = oldMessages.some(m => m.id === message.id);
-            if (messageExists) return oldMessages;
-            
-            return [...oldMessages, message];
-          }
-        );
+      if (isEventForChat(event, chatId)) {
+        appendCachedMessage(queryClient, chatId, message);
       }
       
       queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
     };
 
-    const handleMessageConfirmed = (event: CustomEvent) => {
-      const { message } = event.detail;
-      
-      const isRelevantMessage = (
-        (message.senderId === chatUser.id && message.receiverId === currentUser?.id) ||
-        (message.senderId === currentUser?.id && message.receiverId === chatUser.id)
-      );
+    const handleMessageConfirmed = (event: SocketEventMap["messageConfirmed"]) => {
+      const { message } = event;
       
-      if (isRelevantMessage) {
-        queryClient.setQueryData(
-          ["/api/conversations", chatUser.id, "messages"],
-          (oldMessages: Message[] = []) => {
-            const messageExists = oldMessages.some(m => m.id === message.id);
-            if (messageExists) return oldMessages;
-            
-            return [...oldMessages, message];
-          }
-        );
+      if (isEventForChat(event, chatId)) {
+        appendCachedMessage(queryClient, chatId, message);
       }
       
       queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
     };
 
-    window.addEventListener('newMessage', handleNewMessage as EventListener);
-    window.addEventListener('messageConfirmed', handleMessageConfirmed as EventListener);
+    const unsubscribers = [
+      socketEvents.on('newMessage', handleNewMessage),
+      socketEvents.on('messageConfirmed', handleMessageConfirmed),
+    ];
 
-    return () => {
-      window.removeEventListener('newMessage', handleNewMessage as EventListener);
-      window.removeEventListener('messageConfirmed', handleMessageConfirmed as EventListener);
-    };
-  }, [chatUser.id, currentUser?.id, queryClient]);
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [chatId, queryClient]);
 
   const handleSendMessage = () => {
     if (!messageText.trim() || !isConnected) return;
 
-    sendMessage(chatUser.id, messageText.trim());
+    if (editingMessage) {
+      editMessage(chatId, editingMessage.id, messageText.trim(), isGroup);
+      setEditingMessage(null);
+    } else {
+      sendMessage(chatId, messageText.trim(), undefined, replyingTo?.id, isGroup);
+      setReplyingTo(null);
+    }
     setMessageText("");
     
     if (isTyping) {
-      sendTyping(chatUser.id, false);
+      sendTyping(chatId, false, isGroup);
       setIsTyping(false);
     }
   };
 
+  const handleStartEdit = (message: Message) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setMessageText(message.content || "");
+  };
+
+  const handleCancelEdit = () => {
+    setEditingMessage(null);
+    setMessageText("");
+  };
+
+  const handleDeleteMessage = (message: Message) => {
+    deleteMessage(chatId, message.id, isGroup);
+    if (editingMessage?.id === message.id) {
+      handleCancelEdit();
+    }
+    if (replyingTo?.id === message.id) {
+      setReplyingTo(null);
+    }
+  };
+
+  const handleStartReply = (message: Message) => {
+    if (editingMessage) handleCancelEdit();
+    setReplyingTo(message);
+  };
+
+  // The other participant, or the group member who sent a message
+  const getSender = (userId: string) =>
+    group
+      ? group.members.find(m => m.userId === userId)?.user
+      : userId === chatUser.id ? chatUser : undefined;
+
+  const resolveQuotedName = (replyTo: MessageReplyPreview) =>
+    replyTo.senderId === currentUser?.id ? "You" : getSender(replyTo.senderId)?.firstName || "";
+
   const handleTyping = (text: string) => {
     setMessageText(text);
 
     if (!isConnected) return;
 
     if (!isTyping && text.trim()) {
-      sendTyping(chatUser.id, true);
+      sendTyping(chatId, true, isGroup);
       setIsTyping(true);
     }
 
@@ -149,7 +207,7 @@ function ChatContent({ chatUser }: ChatContentProps) {
 
     typingTimeoutRef.current = setTimeout(() => {
       if (isTyping) {
-        sendTyping(chatUser.id, false);
+        sendTyping(chatId, false, isGroup);
         setIsTyping(false);
       }
     }, 2000);
@@ -168,7 +226,8 @@ function ChatContent({ chatUser }: ChatContentProps) {
       return res.json();
     },
     onSuccess: (data) => {
-      sendMessage(chatUser.id, undefined, data.imageUrl);
+      sendMessage(chatId, undefined, data.imageUrl, replyingTo?.id, isGroup);
+      setReplyingTo(null);
     },
     onError: () => {
       toast({
@@ -247,7 +306,7 @@ function ChatContent({ chatUser }: ChatContentProps) {
     }
   };
 
-  const groupedMessages = messages.reduce((groups: { [key: string]: Message[] }, message) => {
+  const groupedMessages = messages.reduce((groups: { [key: string]: MessageWithReactions[] }, message) => {
     const date = formatDate(message.timestamp!);
     if (!groups[date]) {
       groups[date] = [];
@@ -260,6 +319,12 @@ function ChatContent({ chatUser }: ChatContentProps) {
     <div className="flex flex-col h-full bg-gradient-to-b from-background/50 via-background to-muted/20">
       <ScrollArea className="flex-1 px-3 py-4 sm:px-4 sm:py-5 lg:px-8" ref={scrollAreaRef}>
         <div className="w-full max-w-full lg:max-w-6xl mx-auto space-y-2 pb-8">
+          {conversation.isLoadingOlderMessages && (
+            <div className="flex justify-center py-3">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          )}
+
           {Object.entries(groupedMessages).map(([date, dateMessages]) => (
             <div key={date}>
               <div className="flex items-center justify-center my-8">
@@ -271,6 +336,7 @@ function ChatContent({ chatUser }: ChatContentProps) {
               <div className="space-y-4">
                 {dateMessages.map((message, index) => {
                   const isOwn = message.senderId === currentUser?.id;
+                  const sender = getSender(message.senderId);
                   const showAvatar = !isOwn && (
                     index === dateMessages.length - 1 || 
                     dateMessages[index + 1]?.senderId !== message.senderId
@@ -279,8 +345,9 @@ function ChatContent({ chatUser }: ChatContentProps) {
                   return (
                     <div
                       key={message.id}
+                      data-message-id={message.id}
                       className={cn(
-                        "flex items-end gap-2 sm:gap-2.5 max-w-[85%] sm:max-w-[80%] md:max-w-[70%] lg:max-w-[60%] animate-in fade-in-0 slide-in-from-bottom-3 duration-300",
+                        "group/message flex items-end gap-2 sm:gap-2.5 max-w-[85%] sm:max-w-[80%] md:max-w-[70%] lg:max-w-[60%] animate-in fade-in-0 slide-in-from-bottom-3 duration-300",
                         isOwn ? "ml-auto flex-row-reverse" : "mr-auto"
                       )}
                     >
@@ -288,9 +355,9 @@ function ChatContent({ chatUser }: ChatContentProps) {
                         <div className="flex-shrink-0 mb-1">
                           {showAvatar ? (
                             <Avatar className="h-8 w-8 sm:h-9 sm:w-9 border-2 border-background shadow-md ring-1 ring-primary/10">
-                              <AvatarImage src={chatUser.profilePhoto || ""} />
+                              <AvatarImage src={sender?.profilePhoto || ""} />
                               <AvatarFallback className="text-xs font-semibold bg-gradient-to-br from-primary/20 to-primary/30">
-                                {chatUser.firstName[0]}{chatUser.lastName[0]}
+                                {sender?.firstName[0]}{sender?.lastName[0]}
                               </AvatarFallback>
                             </Avatar>
                           ) : (
@@ -303,15 +370,33 @@ function ChatContent({ chatUser }: ChatContentProps) {
                         "flex flex-col gap-1.5 min-w-0",
                         isOwn ? "items-end" : "items-start"
                       )}>
+                        {isGroup && !isOwn && (index === 0 || dateMessages[index - 1]?.senderId !== message.senderId) && (
+                          <span className="text-xs font-semibold text-muted-foreground px-1">
+                            {sender ? sender.firstName : "Former member"}
+                          </span>
+                        )}
                         <div
+                          {...(message.deletedAt ? {} : longPressHandlers(() => setReactingMessageId(message.id)))}
                           className={cn(
                             "group relative rounded-2xl px-4 py-3 break-words shadow-md transition-all duration-200 hover:shadow-lg",
-                            isOwn 
-                              ? "bg-gradient-to-br from-primary to-primary/90 text-primary-foreground rounded-br-md" 
-                              : "bg-card text-card-foreground border border-border/60 rounded-bl-md backdrop-blur-sm"
+                            message.deletedAt
+                              ? "bg-transparent shadow-none hover:shadow-none border border-dashed border-border text-muted-foreground"
+                              : isOwn 
+                                ? "bg-gradient-to-br from-primary to-primary/90 text-primary-foreground rounded-br-md" 
+                                : "bg-card text-card-foreground border border-border/60 rounded-bl-md backdrop-blur-sm"
                           )}
                         >
-                          {message.imageUrl ? (
+                          {message.replyTo && !message.deletedAt && (
+                            <QuotedMessage
+                              replyTo={message.replyTo}
+                              senderName={resolveQuotedName(message.replyTo)}
+                              onClick={() => scrollToMessage(message.replyTo!.id)}
+                              className="mb-2"
+                            />
+                          )}
+                          {message.deletedAt ? (
+                            <p className="text-sm italic">This message was deleted</p>
+                          ) : message.imageUrl ? (
                             <div className="space-y-2">
                               <div className="relative overflow-hidden rounded-xl group/image">
                                 <img 
@@ -331,13 +416,50 @@ function ChatContent({ chatUser }: ChatContentProps) {
                           )}
                         </div>
                         
+                        {!message.deletedAt && (
+                          <MessageReactions
+                            reactions={message.reactions || []}
+                            currentUserId={currentUser!.id}
+                            resolveName={(userId) => getSender(userId)?.firstName ?? "Someone"}
+                            onReact={(emoji) => reactToMessage(message.id, emoji)}
+                            align={isOwn ? "end" : "start"}
+                          />
+                        )}
+                        
                         <span className={cn(
-                          "text-xs text-muted-foreground/70 px-1 font-medium",
-                          isOwn ? "text-right" : "text-left"
+                          "text-xs text-muted-foreground/70 px-1 font-medium flex items-center gap-1",
+                          isOwn ? "justify-end" : "justify-start"
                         )}>
                           {formatTime(message.timestamp!)}
+                          {message.editedAt && !message.deletedAt && <span>· edited</span>}
+                          {isOwn && <MessageStatus message={message} />}
                         </span>
                       </div>
+
+                      {!message.deletedAt && (
+                        <>
+                          <ReactionPicker
+                            open={reactingMessageId === message.id}
+                            onOpenChange={(open) => setReactingMessageId(open ? message.id : null)}
+                            onReact={(emoji) => reactToMessage(message.id, emoji)}
+                            onReply={() => handleStartReply(message)}
+                            className="self-center"
+                          />
+                          <ReplyButton onReply={() => handleStartReply(message)} className="self-center" />
+                          {!isOwn && sender && (
+                            <ReportMessageButton onReport={() => setReportingMessage(message)} className="self-center" />
+                          )}
+                        </>
+                      )}
+
+                      {isOwn && (
+                        <MessageActions
+                          message={message}
+                          onEdit={handleStartEdit}
+                          onDelete={handleDeleteMessage}
+                          className="self-center"
+                        />
+                      )}
                     </div>
                   );
                 })}
@@ -345,14 +467,28 @@ function ChatContent({ chatUser }: ChatContentProps) {
             </div>
           ))}
 
-          {typingUsers[chatUser.id] && (
+          {outbox.filter(pending => pending.chatId === chatId).map(pending => (
+            <OutboxMessageBubble
+              key={pending.clientMessageId}
+              message={pending}
+              onRetry={() => retryMessage(pending.clientMessageId)}
+              onDiscard={() => discardMessage(pending.clientMessageId)}
+              bubbleClassName="rounded-2xl rounded-br-md px-4 py-3 shadow-md"
+            />
+          ))}
+
+          {typingUsers[chatId] && (
             <div className="flex items-end gap-2 sm:gap-2.5 max-w-[75%] sm:max-w-[70%] md:max-w-[60%] lg:max-w-[50%] animate-in fade-in-0 slide-in-from-bottom-3 duration-300">
-              <Avatar className="h-8 w-8 sm:h-9 sm:w-9 flex-shrink-0 mb-1 border-2 border-background shadow-md ring-1 ring-primary/10">
-                <AvatarImage src={chatUser.profilePhoto || ""} />
-                <AvatarFallback className="text-xs font-semibold bg-gradient-to-br from-primary/20 to-primary/30">
-                  {chatUser.firstName[0]}{chatUser.lastName[0]}
-                </AvatarFallback>
-              </Avatar>
+              {group ? (
+                <GroupAvatar group={group} className="h-8 w-8 sm:h-9 sm:w-9 flex-shrink-0 mb-1 border-2 border-background shadow-md ring-1 ring-primary/10" />
+              ) : (
+                <Avatar className="h-8 w-8 sm:h-9 sm:w-9 flex-shrink-0 mb-1 border-2 border-background shadow-md ring-1 ring-primary/10">
+                  <AvatarImage src={chatUser.profilePhoto || ""} />
+                  <AvatarFallback className="text-xs font-semibold bg-gradient-to-br from-primary/20 to-primary/30">
+                    {chatUser.firstName[0]}{chatUser.lastName[0]}
+                  </AvatarFallback>
+                </Avatar>
+              )}
               <div className="bg-card border border-border/60 rounded-2xl rounded-bl-md px-6 py-3.5 shadow-md backdrop-blur-sm">
                 <div className="flex items-center gap-1.5">
                   <div className="w-2 h-2 bg-primary/60 rounded-full animate-bounce [animation-duration:1s]"></div>
@@ -369,57 +505,94 @@ function ChatContent({ chatUser }: ChatContentProps) {
 
       <div className="border-t border-border/50 bg-card/95 backdrop-blur-md p-3 sm:p-4 shadow-[0_-4px_12px_rgba(0,0,0,0.15)] flex-shrink-0">
         <div className="w-full max-w-full lg:max-w-6xl mx-auto">
-          <div className="flex items-end gap-2 sm:gap-2.5">
-            <Button 
-              variant="ghost" 
-              size="icon" 
-              className="flex-shrink-0 h-10 w-10 sm:h-10 sm:w-10 rounded-full hover:bg-primary/10 transition-all hover:scale-105 active:scale-95 mb-0.5"
-              onClick={() => fileInputRef.current?.click()}
-              disabled={!isConnected || imageUploadMutation.isPending}
-            >
-              {imageUploadMutation.isPending ? (
-                <Loader2 className="h-5 w-5 animate-spin text-primary" />
-              ) : (
-                <Paperclip className="h-5 w-5 text-muted-foreground hover:text-primary transition-colors" />
+          {chatUser && messageRequest.isIncoming && <MessageRequestBanner chatUser={chatUser} />}
+          {messagingRestriction ? (
+            <p className="py-2 text-center text-sm text-muted-foreground" data-testid="text-messaging-restricted">
+              {messagingRestriction}
+            </p>
+          ) : messageRequest.isOutgoing ? (
+            <p className="py-2 text-center text-sm text-muted-foreground" data-testid="text-request-sent">
+              Message request sent. You can send more once {chatUser?.firstName} accepts.
+            </p>
+          ) : (
+            <>
+              {editingMessage && (
+                <div className="flex items-center justify-between mb-2 px-1 text-xs sm:text-sm text-muted-foreground font-medium">
+                  <span className="flex items-center gap-2">
+                    <Pencil className="h-3.5 w-3.5 text-primary" />
+                    Editing message
+                  </span>
+                  <Button variant="ghost" size="icon" className="h-7 w-7 rounded-full" onClick={handleCancelEdit}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
               )}
-            </Button>
-            
-            <div className="flex-1 relative min-w-0">
-              <Textarea
-                value={messageText}
-                onChange={(e) => handleTyping(e.target.value)}
-                onKeyDown={handleKeyDown}
-                placeholder="Type a message..."
-                className="min-h-[42px] sm:min-h-[44px] max-h-32 resize-none pr-11 sm:pr-12 py-2.5 sm:py-2.5 px-4 sm:px-4 rounded-2xl border-border/50 focus:border-primary/50 bg-card shadow-sm transition-all focus:shadow-md text-sm sm:text-base leading-normal"
-                disabled={!isConnected}
-              />
-              <Button 
-                variant="ghost" 
-                size="icon" 
-                className="absolute right-1.5 sm:right-2 top-1/2 -translate-y-1/2 h-8 w-8 sm:h-9 sm:w-9 rounded-full hover:bg-primary/10 transition-all hover:scale-105 active:scale-95"
-                onClick={() => setShowEmojiPicker(!showEmojiPicker)}
-                disabled={!isConnected}
-              >
-                <Smile className="h-[18px] w-[18px] sm:h-5 sm:w-5 text-muted-foreground hover:text-primary transition-colors" />
-              </Button>
-              
-              {showEmojiPicker && (
-                <EmojiPicker
-                  onEmojiSelect={handleEmojiSelect}
-                  onClose={() => setShowEmojiPicker(false)}
-                />
+              {replyingTo && (
+                <div className="flex items-center gap-2 mb-2 px-1">
+                  <QuotedMessage
+                    replyTo={replyingTo}
+                    senderName={replyingTo.senderId === currentUser?.id ? "Replying to yourself" : `Replying to ${getSender(replyingTo.senderId)?.firstName ?? "a former member"}`}
+                    className="flex-1 min-w-0"
+                  />
+                  <Button variant="ghost" size="icon" className="h-7 w-7 rounded-full" onClick={() => setReplyingTo(null)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
               )}
-            </div>
-            
-            <Button 
-              onClick={handleSendMessage}
-              disabled={!messageText.trim() || !isConnected}
-              size="icon"
-              className="flex-shrink-0 h-10 w-10 sm:h-10 sm:w-10 rounded-full shadow-md hover:shadow-lg transition-all hover:scale-105 active:scale-95 disabled:opacity-50 disabled:hover:scale-100 mb-0.5"
-            >
-              <Send className="h-5 w-5" />
-            </Button>
-          </div>
+              <div className="flex items-end gap-2 sm:gap-2.5">
+                <Button 
+                  variant="ghost" 
+                  size="icon" 
+                  className="flex-shrink-0 h-10 w-10 sm:h-10 sm:w-10 rounded-full hover:bg-primary/10 transition-all hover:scale-105 active:scale-95 mb-0.5"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={!isConnected || imageUploadMutation.isPending}
+                >
+                  {imageUploadMutation.isPending ? (
+                    <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                  ) : (
+                    <Paperclip className="h-5 w-5 text-muted-foreground hover:text-primary transition-colors" />
+                  )}
+                </Button>
+                
+                <div className="flex-1 relative min-w-0">
+                  <Textarea
+                    value={messageText}
+                    onChange={(e) => handleTyping(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder="Type a message..."
+                    maxLength={MAX_MESSAGE_LENGTH}
+                    className="min-h-[42px] sm:min-h-[44px] max-h-32 resize-none pr-11 sm:pr-12 py-2.5 sm:py-2.5 px-4 sm:px-4 rounded-2xl border-border/50 focus:border-primary/50 bg-card shadow-sm transition-all focus:shadow-md text-sm sm:text-base leading-normal"
+                    disabled={!isConnected}
+                  />
+                  <Button 
+                    variant="ghost" 
+                    size="icon" 
+                    className="absolute right-1.5 sm:right-2 top-1/2 -translate-y-1/2 h-8 w-8 sm:h-9 sm:w-9 rounded-full hover:bg-primary/10 transition-all hover:scale-105 active:scale-95"
+                    onClick={() => setShowEmojiPicker(!showEmojiPicker)}
+                    disabled={!isConnected}
+                  >
+                    <Smile className="h-[18px] w-[18px] sm:h-5 sm:w-5 text-muted-foreground hover:text-primary transition-colors" />
+                  </Button>
+                  
+                  {showEmojiPicker && (
+                    <EmojiPicker
+                      onEmojiSelect={handleEmojiSelect}
+                      onClose={() => setShowEmojiPicker(false)}
+                    />
+                  )}
+                </div>
+                
+                <Button 
+                  onClick={handleSendMessage}
+                  disabled={!messageText.trim() || !isConnected}
+                  size="icon"
+                  className="flex-shrink-0 h-10 w-10 sm:h-10 sm:w-10 rounded-full shadow-md hover:shadow-lg transition-all hover:scale-105 active:scale-95 disabled:opacity-50 disabled:hover:scale-100 mb-0.5"
+                >
+                  <Send className="h-5 w-5" />
+                </Button>
+              </div>
+            </>
+          )}
           
           <input
             ref={fileInputRef}
@@ -437,6 +610,15 @@ function ChatContent({ chatUser }: ChatContentProps) {
           )}
         </div>
       </div>
+
+      {reportingMessage && getSender(reportingMessage.senderId) && (
+        <ReportDialog
+          isOpen
+          onClose={() => setReportingMessage(null)}
+          targetUser={getSender(reportingMessage.senderId)!}
+          message={reportingMessage}
+        />
+      )}
     </div>
   );
 }
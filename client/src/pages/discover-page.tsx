@@ -18,6 +18,8 @@ import { User } from "@shared/schema";
 import { PhotoCarousel } from "@/components/ui/photo-carousel";
 import { useLocation } from "wouter";
 import { cn } from "@/lib/utils";
+import { PresenceDot, describePresence } from "@/components/chat/presence-indicator";
+import { socketEvents } from "@/lib/socket-events";
 
 export default function DiscoverPage() {
   const { user } = useAuth();
@@ -165,12 +167,11 @@ export default function DiscoverPage() {
 
   // Listen for real-time online status changes
   useEffect(() => {
-    const handleOnlineStatusChanged = () => {
+    const handlePresenceChanged = () => {
       fetchUsers();
     };
 
-    window.addEventListener('onlineStatusChanged', handleOnlineStatusChanged);
-    return () => window.removeEventListener('onlineStatusChanged', handleOnlineStatusChanged);
+    return socketEvents.on('presenceChanged', handlePresenceChanged);
   }, []);
 
   if (!user) return null;
@@ -444,11 +445,10 @@ export default function DiscoverPage() {
                       className="w-full h-full group-hover:scale-105 transition-transform duration-300"
                     />
                     
-                    {profile.isOnline && (
-                      <div className="absolute top-2 right-2">
-                        <div className="w-3 h-3 bg-green-500 rounded-full border-2 border-white animate-pulse"></div>
-                      </div>
-                    )}
+                    <PresenceDot
+                      user={profile}
+                      className="absolute top-2 right-2 w-3 h-3 border-2 border-white animate-pulse"
+                    />
                   </div>
 
                   <div className="p-1.5 space-y-1">
@@ -467,6 +467,9 @@ export default function DiscoverPage() {
                           </>
                         )}
                       </div>
+                      <p className="text-[10px] text-muted-foreground truncate mt-0.5" data-testid={`text-presence-${profile.id}`}>
+                        {describePresence(profile)}
+                      </p>
                     </div>
 
                     <div className="flex gap-0.5 pt-0.5">
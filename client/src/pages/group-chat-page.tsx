@@ -0,0 +1,124 @@
+import { useState, useEffect } from "react";
+import { useParams, useLocation } from "wouter";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Info, Loader2 } from "lucide-react";
+import { GroupDetails } from "@shared/schema";
+import { socketEvents } from "@/lib/socket-events";
+import { GroupAvatar, GroupInfoDialog } from "@/components/chat/group-dialogs";
+import { ChatContent } from "./chat-page";
+
+export default function GroupChatPage() {
+  const { groupId } = useParams<{ groupId: string }>();
+  const [, setLocation] = useLocation();
+  const { user: currentUser } = useAuth();
+  const queryClient = useQueryClient();
+  const [showGroupInfo, setShowGroupInfo] = useState(false);
+
+  const { data: group, isLoading } = useQuery<GroupDetails>({
+    queryKey: ["/api/groups", groupId],
+    enabled: !!groupId,
+  });
+
+  // Membership, name or avatar changed while the group is open
+  useEffect(() => {
+    return socketEvents.on('groupUpdated', (event) => {
+      if (event.groupId === groupId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/groups", groupId] });
+      }
+    });
+  }, [groupId, queryClient]);
+
+  if (!currentUser) return null;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen bg-gradient-to-b from-background to-muted/20">
+        <div className="text-center space-y-4">
+          <Loader2 className="h-10 w-10 animate-spin mx-auto text-primary" />
+          <p className="text-muted-foreground font-medium">Loading chat...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!group) {
+    return (
+      <div className="flex items-center justify-center h-screen bg-gradient-to-b from-background to-muted/20">
+        <div className="text-center space-y-4 px-4">
+          <div className="w-16 h-16 mx-auto bg-destructive/10 rounded-full flex items-center justify-center">
+            <span className="text-2xl">😕</span>
+          </div>
+          <h3 className="text-lg font-semibold">Group not found</h3>
+          <p className="text-muted-foreground text-sm max-w-xs mx-auto">This group could not be loaded. You may have left it or been removed.</p>
+          <Button onClick={() => setLocation("/messages")} className="mt-4 rounded-full shadow-md hover:shadow-lg transition-all">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Messages
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const onlineCount = group.members.filter(m => m.userId !== currentUser.id && m.user.isOnline).length;
+
+  return (
+    <div className="fixed inset-0 flex flex-col bg-gradient-to-b from-background via-background to-muted/30 pb-16">
+      <div className="border-b bg-card/95 backdrop-blur-md shadow-md flex-shrink-0">
+        <div className="w-full max-w-full px-3 py-3 sm:px-4 sm:py-3.5 lg:max-w-6xl lg:mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-2 sm:gap-3 flex-1 min-w-0">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => window.history.back()}
+              className="flex-shrink-0 h-9 w-9 sm:h-10 sm:w-10 rounded-full hover:bg-primary/10 transition-colors"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            
+            <div className="flex items-center gap-2 sm:gap-3 flex-1 min-w-0 cursor-pointer hover:opacity-80 transition-opacity" onClick={() => setShowGroupInfo(true)}>
+              <GroupAvatar group={group} className="h-10 w-10 sm:h-11 sm:w-11 border-2 border-background shadow-md flex-shrink-0" />
+              
+              <div className="min-w-0 flex-1">
+                <h3 className="font-semibold text-sm sm:text-base truncate leading-tight" data-testid="text-group-name">
+                  {group.name}
+                </h3>
+                <p className="text-xs text-muted-foreground truncate mt-0.5">
+                  {group.members.length} members
+                  {onlineCount > 0 && (
+                    <span className="text-green-600 dark:text-green-500 font-medium"> · {onlineCount} online</span>
+                  )}
+                </p>
+              </div>
+            </div>
+          </div>
+          
+          <div className="flex items-center gap-1 flex-shrink-0 ml-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setShowGroupInfo(true)}
+              className="h-9 w-9 sm:h-10 sm:w-10 rounded-full hover:bg-primary/10 transition-colors"
+              data-testid="button-group-info"
+            >
+              <Info className="h-5 w-5 text-muted-foreground" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-hidden min-h-0">
+        <ChatContent group={group} />
+      </div>
+
+      <GroupInfoDialog
+        isOpen={showGroupInfo}
+        onClose={() => setShowGroupInfo(false)}
+        group={group}
+        currentUserId={currentUser.id}
+        onLeft={() => setLocation("/messages")}
+      />
+    </div>
+  );
+}
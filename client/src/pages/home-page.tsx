@@ -1,17 +1,53 @@
 import { useState, useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import Sidebar from "@/components/chat/sidebar";
 import ChatWindow from "@/components/chat/chat-window";
 import UserInfoPanel from "@/components/chat/user-info-panel";
 import ProfileModal from "@/components/chat/profile-modal";
-import { User } from "@shared/schema";
+import { GroupInfoDialog } from "@/components/chat/group-dialogs";
+import { User, GroupDetails } from "@shared/schema";
+import { socketEvents } from "@/lib/socket-events";
 
 export default function HomePage() {
   const { user } = useAuth();
+  const queryClient = useQueryClient();
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
   const [showUserInfo, setShowUserInfo] = useState(false);
   const [showProfile, setShowProfile] = useState(false);
 
+  const { data: selectedGroup = null } = useQuery<GroupDetails>({
+    queryKey: ["/api/groups", selectedGroupId],
+    enabled: !!selectedGroupId,
+  });
+
+  // Keep the open group's name and members current
+  useEffect(() => {
+    return socketEvents.on('groupUpdated', ({ groupId }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/groups", groupId] });
+    });
+  }, [queryClient]);
+
+  // Keep the info panel's status line current
+  useEffect(() => {
+    return socketEvents.on('presenceChanged', ({ userId, presence, lastSeen }) => {
+      setSelectedUser(prev => prev?.id === userId
+        ? { ...prev, presence, isOnline: presence !== "offline", lastSeen }
+        : prev);
+    });
+  }, []);
+
+  const handleSelectUser = (selected: User) => {
+    setSelectedGroupId(null);
+    setSelectedUser(selected);
+  };
+
+  const handleSelectGroup = (groupId: string) => {
+    setSelectedUser(null);
+    setSelectedGroupId(groupId);
+  };
+
   if (!user) return null;
 
   return (
@@ -20,7 +56,9 @@ export default function HomePage() {
       <Sidebar 
         currentUser={user}
         selectedUser={selectedUser}
-        onSelectUser={setSelectedUser}
+        selectedGroupId={selectedGroupId}
+        onSelectUser={handleSelectUser}
+        onSelectGroup={handleSelectGroup}
         onOpenProfile={() => setShowProfile(true)}
       />
 
@@ -29,6 +67,7 @@ export default function HomePage() {
         <ChatWindow 
           currentUser={user}
           selectedUser={selectedUser}
+          selectedGroup={selectedGroup}
           onToggleUserInfo={() => setShowUserInfo(!showUserInfo)}
         />
       </div>
@@ -42,6 +81,17 @@ export default function HomePage() {
         />
       )}
 
+      {/* Group members and settings */}
+      {selectedGroup && (
+        <GroupInfoDialog
+          isOpen={showUserInfo}
+          onClose={() => setShowUserInfo(false)}
+          group={selectedGroup}
+          currentUserId={user.id}
+          onLeft={() => setSelectedGroupId(null)}
+        />
+      )}
+
       {/* Profile Modal */}
       <ProfileModal 
         isOpen={showProfile}
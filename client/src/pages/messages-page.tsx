@@ -1,23 +1,48 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
-import { MessageCircle, Clock, Send, CheckCheck } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { MessageCircle, Clock, Send, CheckCheck, Search, X, Loader2, Users, MailQuestion } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
-import { Link } from "wouter";
-import { User, Conversation, Message } from "@shared/schema";
+import { Link, useLocation } from "wouter";
+import { ConversationSummary, MessageSearchResult, SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END } from "@shared/schema";
+import { cn } from "@/lib/utils";
+import { socketEvents, type SocketEventMap } from "@/lib/socket-events";
+import { useMessageSearch } from "@/hooks/use-message-search";
+import CreateGroupDialog, { GroupAvatar } from "@/components/chat/group-dialogs";
 
-interface ConversationWithDetails extends Conversation {
-  otherUser: User;
-  lastMessage?: Message;
+// Render a search snippet, turning the highlight markers into <mark> elements
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(SEARCH_HIGHLIGHT_START);
+
+  return (
+    <>
+      {parts.map((part, index) => {
+        if (index === 0) return <span key={index}>{part}</span>;
+        const [highlighted, rest] = part.split(SEARCH_HIGHLIGHT_END);
+        return (
+          <span key={index}>
+            <mark className="rounded bg-primary/20 px-0.5 text-foreground">{highlighted}</mark>
+            {rest}
+          </span>
+        );
+      })}
+    </>
+  );
 }
 
 export default function MessagesPage() {
   const { user } = useAuth();
-  const [conversations, setConversations] = useState<ConversationWithDetails[]>([]);
+  const [, setLocation] = useLocation();
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
   const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [showCreateGroup, setShowCreateGroup] = useState(false);
+  const search = useMessageSearch(searchQuery);
 
   const fetchConversations = async () => {
     try {
@@ -41,50 +66,104 @@ export default function MessagesPage() {
 
   // Listen for real-time WebSocket events
   useEffect(() => {
-    const handleNewMessage = (event: CustomEvent) => {
+    const handleNewMessage = () => {
       // Refresh conversations when new message arrives
       fetchConversations();
     };
 
-    const handleOnlineStatusChanged = () => {
+    const handlePresenceChanged = () => {
       // Refresh conversations to update online status
       fetchConversations();
     };
 
-    window.addEventListener('newMessage', handleNewMessage as EventListener);
-    window.addEventListener('onlineStatusChanged', handleOnlineStatusChanged as EventListener);
+    const handleUnreadCountUpdated = ({ conversationId, unreadCount }: SocketEventMap["unreadCountUpdated"]) => {
+      setConversations(prev => prev.map(conv =>
+        conv.id === conversationId ? { ...conv, unreadCount } : conv
+      ));
+    };
 
-    return () => {
-      window.removeEventListener('newMessage', handleNewMessage as EventListener);
-      window.removeEventListener('onlineStatusChanged', handleOnlineStatusChanged as EventListener);
+    const handleMissedMessages = () => {
+      // Messages replayed after a reconnect
+      fetchConversations();
     };
+
+    const handleGroupUpdated = () => {
+      // Added to or removed from a group, or a group was renamed
+      fetchConversations();
+    };
+
+    const handleMessageRequestUpdated = () => {
+      // A request moved into the inbox, or out of it after declining
+      fetchConversations();
+    };
+
+    const unsubscribers = [
+      socketEvents.on('newMessage', handleNewMessage),
+      socketEvents.on('presenceChanged', handlePresenceChanged),
+      socketEvents.on('unreadCountUpdated', handleUnreadCountUpdated),
+      socketEvents.on('groupUpdated', handleGroupUpdated),
+      socketEvents.on('messageRequestUpdated', handleMessageRequestUpdated),
+      socketEvents.on('missedMessages', handleMissedMessages),
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
   }, []);
 
   if (!user) return null;
 
-  const ConversationCard = ({ conversation }: { conversation: ConversationWithDetails }) => (
-    <Link href={`/chat/${conversation.otherUser.id}`} className="block">
+  const LastMessagePreview = ({ conversation }: { conversation: ConversationSummary }) => {
+    if (!conversation.lastMessage) {
+      return <p className="text-sm text-muted-foreground italic">No messages yet</p>;
+    }
+
+    // In groups, say who sent the last message
+    const sender = conversation.isGroup && conversation.lastMessage.senderId !== user.id
+      ? conversation.members?.find(m => m.userId === conversation.lastMessage!.senderId)?.user
+      : undefined;
+
+    return (
+      <div className="flex items-center space-x-2">
+        {conversation.lastMessage.senderId === user.id ? (
+          <Send className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+        ) : (
+          <MessageCircle className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+        )}
+        <p className={cn(
+          "text-sm truncate",
+          conversation.unreadCount > 0 ? "text-foreground font-medium" : "text-muted-foreground"
+        )}>
+          {sender && <span>{sender.firstName}: </span>}
+          {conversation.lastMessage.deletedAt ? (
+            <span className="italic">Message deleted</span>
+          ) : conversation.lastMessage.imageUrl ? (
+            <span className="italic">📷 Photo</span>
+          ) : (
+            conversation.lastMessage.content
+          )}
+        </p>
+      </div>
+    );
+  };
+
+  const UnreadBadge = ({ conversation }: { conversation: ConversationSummary }) => (
+    conversation.unreadCount > 0 ? (
+      <Badge className="text-xs" data-testid={`badge-unread-${conversation.id}`}>
+        {conversation.unreadCount > 99 ? "99+" : conversation.unreadCount}
+      </Badge>
+    ) : null
+  );
+
+  const GroupConversationCard = ({ conversation }: { conversation: ConversationSummary }) => (
+    <Link href={`/groups/${conversation.id}`} className="block">
       <Card className="hover:shadow-md transition-all duration-200 cursor-pointer border-l-4 border-l-transparent hover:border-l-primary">
         <CardContent className="p-4">
           <div className="flex items-start space-x-3">
-            {/* Avatar */}
-            <div className="relative">
-              <Avatar className="h-12 w-12">
-                <AvatarImage src={conversation.otherUser.profilePhoto || undefined} />
-                <AvatarFallback className="bg-gradient-to-br from-primary/20 to-primary/5">
-                  {conversation.otherUser.firstName[0]}{conversation.otherUser.lastName[0]}
-                </AvatarFallback>
-              </Avatar>
-              {conversation.otherUser.isOnline && (
-                <div className="absolute -bottom-1 -right-1 w-4 h-4 bg-green-500 border-2 border-background rounded-full"></div>
-              )}
-            </div>
+            <GroupAvatar group={conversation} className="h-12 w-12" />
 
-            {/* Message Info */}
             <div className="flex-1 min-w-0">
               <div className="flex items-center justify-between mb-1">
-                <h3 className="font-semibold text-sm truncate">
-                  {conversation.otherUser.firstName} {conversation.otherUser.lastName}
+                <h3 className="font-semibold text-sm truncate" data-testid={`text-group-name-${conversation.id}`}>
+                  {conversation.name}
                 </h3>
                 <div className="flex items-center space-x-2">
                   {conversation.lastMessage && (
@@ -92,38 +171,119 @@ export default function MessagesPage() {
                       {formatDistanceToNow(new Date(conversation.lastMessage.timestamp!), { addSuffix: true })}
                     </span>
                   )}
-                  <Badge variant="secondary" className="text-xs">
-                    {conversation.otherUser.age}
+                  <Badge variant="secondary" className="text-xs flex items-center gap-1">
+                    <Users className="h-3 w-3" />
+                    {conversation.members?.length ?? 0}
                   </Badge>
+                  <UnreadBadge conversation={conversation} />
                 </div>
               </div>
 
-              {/* Last Message Preview */}
-              {conversation.lastMessage ? (
-                <div className="flex items-center space-x-2">
-                  {conversation.lastMessage.senderId === user.id ? (
-                    <Send className="h-3 w-3 text-muted-foreground flex-shrink-0" />
-                  ) : (
-                    <MessageCircle className="h-3 w-3 text-muted-foreground flex-shrink-0" />
-                  )}
-                  <p className="text-sm text-muted-foreground truncate">
-                    {conversation.lastMessage.imageUrl ? (
-                      <span className="italic">📷 Photo</span>
-                    ) : (
-                      conversation.lastMessage.content
+              <LastMessagePreview conversation={conversation} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </Link>
+  );
+
+  const ConversationCard = ({ conversation }: { conversation: ConversationSummary }) => {
+    if (conversation.isGroup) return <GroupConversationCard conversation={conversation} />;
+    if (!conversation.otherUser) return null;
+    const { otherUser } = conversation;
+
+    return (
+      <Link href={`/chat/${otherUser.id}`} className="block">
+        <Card className="hover:shadow-md transition-all duration-200 cursor-pointer border-l-4 border-l-transparent hover:border-l-primary">
+          <CardContent className="p-4">
+            <div className="flex items-start space-x-3">
+              {/* Avatar */}
+              <div className="relative">
+                <Avatar className="h-12 w-12">
+                  <AvatarImage src={otherUser.profilePhoto || undefined} />
+                  <AvatarFallback className="bg-gradient-to-br from-primary/20 to-primary/5">
+                    {otherUser.firstName[0]}{otherUser.lastName[0]}
+                  </AvatarFallback>
+                </Avatar>
+                {otherUser.isOnline && (
+                  <div className="absolute -bottom-1 -right-1 w-4 h-4 bg-green-500 border-2 border-background rounded-full"></div>
+                )}
+              </div>
+
+              {/* Message Info */}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between mb-1">
+                  <h3 className="font-semibold text-sm truncate">
+                    {otherUser.firstName} {otherUser.lastName}
+                  </h3>
+                  <div className="flex items-center space-x-2">
+                    {conversation.lastMessage && (
+                      <span className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(conversation.lastMessage.timestamp!), { addSuffix: true })}
+                      </span>
                     )}
-                  </p>
+                    {conversation.requestStatus === "pending" && conversation.participant1Id === user.id && (
+                      <Badge variant="outline" className="text-xs">Pending</Badge>
+                    )}
+                    <Badge variant="secondary" className="text-xs">
+                      {otherUser.age}
+                    </Badge>
+                    <UnreadBadge conversation={conversation} />
+                  </div>
                 </div>
-              ) : (
-                <p className="text-sm text-muted-foreground italic">No messages yet</p>
-              )}
 
-              {/* Location */}
-              {conversation.otherUser.location && (
-                <p className="text-xs text-muted-foreground mt-1">
-                  📍 {conversation.otherUser.location}
-                </p>
-              )}
+                {/* Last Message Preview */}
+                <LastMessagePreview conversation={conversation} />
+
+                {/* Location */}
+                {otherUser.location && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    📍 {otherUser.location}
+                  </p>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </Link>
+  );
+  };
+
+  // Group matches open the group, direct matches the chat with the other user
+  const SearchResultCard = ({ result }: { result: MessageSearchResult }) => (
+    <Link
+      href={result.group
+        ? `/groups/${result.group.id}?message=${result.message.id}`
+        : `/chat/${result.otherUser?.id}?message=${result.message.id}`}
+      className="block"
+    >
+      <Card className="hover:shadow-md transition-all duration-200 cursor-pointer border-l-4 border-l-transparent hover:border-l-primary">
+        <CardContent className="p-4">
+          <div className="flex items-start space-x-3">
+            {result.group ? (
+              <GroupAvatar group={result.group} className="h-10 w-10" />
+            ) : (
+              <Avatar className="h-10 w-10">
+                <AvatarImage src={result.otherUser?.profilePhoto || undefined} />
+                <AvatarFallback className="bg-gradient-to-br from-primary/20 to-primary/5">
+                  {result.otherUser?.firstName[0]}{result.otherUser?.lastName[0]}
+                </AvatarFallback>
+              </Avatar>
+            )}
+
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between mb-1">
+                <h3 className="font-semibold text-sm truncate">
+                  {result.group ? result.group.name : `${result.otherUser?.firstName} ${result.otherUser?.lastName}`}
+                </h3>
+                <span className="text-xs text-muted-foreground flex-shrink-0">
+                  {formatDistanceToNow(new Date(result.message.timestamp!), { addSuffix: true })}
+                </span>
+              </div>
+              <p className="text-sm text-muted-foreground line-clamp-2 break-words">
+                {result.message.senderId === user.id && <span className="font-medium">You: </span>}
+                <HighlightedSnippet snippet={result.snippet} />
+              </p>
             </div>
           </div>
         </CardContent>
@@ -142,12 +302,13 @@ export default function MessagesPage() {
     );
   }
 
-  // Filter conversations for tabs
-  const allConversations = conversations;
-  const unreadConversations = conversations.filter(conv => 
-    conv.lastMessage && conv.lastMessage.senderId !== user.id
+  // Filter conversations for tabs; requests from strangers stay out of the inbox until accepted
+  const requestConversations = conversations.filter(conv =>
+    conv.requestStatus === "pending" && conv.participant2Id === user.id
   );
-  const sentConversations = conversations.filter(conv => 
+  const allConversations = conversations.filter(conv => !requestConversations.includes(conv));
+  const unreadConversations = allConversations.filter(conv => conv.unreadCount > 0);
+  const sentConversations = allConversations.filter(conv => 
     conv.lastMessage && conv.lastMessage.senderId === user.id
   );
 
@@ -156,74 +317,150 @@ export default function MessagesPage() {
       {/* Header */}
       <div className="sticky top-0 z-40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 border-b">
         <div className="p-4">
-          <h1 className="text-2xl font-bold bg-gradient-to-r from-primary to-primary/70 bg-clip-text text-transparent">
-            Messages
-          </h1>
-          <p className="text-sm text-muted-foreground">{conversations.length} conversations</p>
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold bg-gradient-to-r from-primary to-primary/70 bg-clip-text text-transparent">
+                Messages
+              </h1>
+              <p className="text-sm text-muted-foreground">{allConversations.length} conversations</p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowCreateGroup(true)}
+              data-testid="button-new-group"
+            >
+              <Users className="h-4 w-4 mr-2" />
+              New group
+            </Button>
+          </div>
+          <div className="relative mt-3">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search messages..."
+              className="pl-9 pr-9"
+              data-testid="input-search-messages"
+            />
+            {searchQuery && (
+              <button
+                onClick={() => setSearchQuery("")}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                data-testid="button-clear-search"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            )}
+          </div>
         </div>
       </div>
 
       {/* Messages Content */}
       <div className="p-4">
-        <Tabs defaultValue="all" className="w-full">
-          <TabsList className="grid w-full grid-cols-3 mb-4">
-            <TabsTrigger value="all" className="flex items-center gap-2">
-              <MessageCircle className="h-4 w-4" />
-              All ({allConversations.length})
-            </TabsTrigger>
-            <TabsTrigger value="unread" className="flex items-center gap-2">
-              <Clock className="h-4 w-4" />
-              Unread ({unreadConversations.length})
-            </TabsTrigger>
-            <TabsTrigger value="sent" className="flex items-center gap-2">
-              <Send className="h-4 w-4" />
-              Sent ({sentConversations.length})
-            </TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="all" className="space-y-3">
-            {allConversations.length === 0 ? (
-              <div className="text-center py-12">
-                <MessageCircle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                <h3 className="text-lg font-semibold mb-2">No conversations yet</h3>
-                <p className="text-muted-foreground">Start discovering people and begin chatting!</p>
+        {search.isSearching ? (
+          <div className="space-y-3" data-testid="search-results">
+            {search.isLoading && search.results.length === 0 ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
               </div>
-            ) : (
-              allConversations.map((conversation) => (
-                <ConversationCard key={conversation.id} conversation={conversation} />
-              ))
-            )}
-          </TabsContent>
-
-          <TabsContent value="unread" className="space-y-3">
-            {unreadConversations.length === 0 ? (
+            ) : search.results.length === 0 ? (
               <div className="text-center py-12">
-                <CheckCheck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                <h3 className="text-lg font-semibold mb-2">All caught up!</h3>
-                <p className="text-muted-foreground">No unread messages</p>
+                <Search className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-semibold mb-2">No messages found</h3>
+                <p className="text-muted-foreground">Try different words</p>
               </div>
             ) : (
-              unreadConversations.map((conversation) => (
-                <ConversationCard key={conversation.id} conversation={conversation} />
+              search.results.map((result) => (
+                <SearchResultCard key={result.message.id} result={result} />
               ))
             )}
-          </TabsContent>
+          </div>
+        ) : (
+          <Tabs defaultValue="all" className="w-full">
+            <TabsList className="grid w-full grid-cols-4 mb-4">
+              <TabsTrigger value="all" className="flex items-center gap-2">
+                <MessageCircle className="h-4 w-4" />
+                All ({allConversations.length})
+              </TabsTrigger>
+              <TabsTrigger value="unread" className="flex items-center gap-2">
+                <Clock className="h-4 w-4" />
+                Unread ({unreadConversations.length})
+              </TabsTrigger>
+              <TabsTrigger value="sent" className="flex items-center gap-2">
+                <Send className="h-4 w-4" />
+                Sent ({sentConversations.length})
+              </TabsTrigger>
+              <TabsTrigger value="requests" className="flex items-center gap-2" data-testid="tab-message-requests">
+                <MailQuestion className="h-4 w-4" />
+                Requests ({requestConversations.length})
+              </TabsTrigger>
+            </TabsList>
 
-          <TabsContent value="sent" className="space-y-3">
-            {sentConversations.length === 0 ? (
-              <div className="text-center py-12">
-                <Send className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                <h3 className="text-lg font-semibold mb-2">No sent messages</h3>
-                <p className="text-muted-foreground">Start a conversation!</p>
-              </div>
-            ) : (
-              sentConversations.map((conversation) => (
-                <ConversationCard key={conversation.id} conversation={conversation} />
-              ))
-            )}
-          </TabsContent>
-        </Tabs>
+            <TabsContent value="all" className="space-y-3">
+              {allConversations.length === 0 ? (
+                <div className="text-center py-12">
+                  <MessageCircle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="text-lg font-semibold mb-2">No conversations yet</h3>
+                  <p className="text-muted-foreground">Start discovering people and begin chatting!</p>
+                </div>
+              ) : (
+                allConversations.map((conversation) => (
+                  <ConversationCard key={conversation.id} conversation={conversation} />
+                ))
+              )}
+            </TabsContent>
+
+            <TabsContent value="unread" className="space-y-3">
+              {unreadConversations.length === 0 ? (
+                <div className="text-center py-12">
+                  <CheckCheck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="text-lg font-semibold mb-2">All caught up!</h3>
+                  <p className="text-muted-foreground">No unread messages</p>
+                </div>
+              ) : (
+                unreadConversations.map((conversation) => (
+                  <ConversationCard key={conversation.id} conversation={conversation} />
+                ))
+              )}
+            </TabsContent>
+
+            <TabsContent value="sent" className="space-y-3">
+              {sentConversations.length === 0 ? (
+                <div className="text-center py-12">
+                  <Send className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="text-lg font-semibold mb-2">No sent messages</h3>
+                  <p className="text-muted-foreground">Start a conversation!</p>
+                </div>
+              ) : (
+                sentConversations.map((conversation) => (
+                  <ConversationCard key={conversation.id} conversation={conversation} />
+                ))
+              )}
+            </TabsContent>
+
+            <TabsContent value="requests" className="space-y-3">
+              {requestConversations.length === 0 ? (
+                <div className="text-center py-12">
+                  <MailQuestion className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="text-lg font-semibold mb-2">No message requests</h3>
+                  <p className="text-muted-foreground">First messages from new people show up here</p>
+                </div>
+              ) : (
+                requestConversations.map((conversation) => (
+                  <ConversationCard key={conversation.id} conversation={conversation} />
+                ))
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
       </div>
+
+      <CreateGroupDialog
+        isOpen={showCreateGroup}
+        onClose={() => setShowCreateGroup(false)}
+        onCreated={(group) => setLocation(`/groups/${group.id}`)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -1,9 +1,10 @@
 import { useState, useEffect } from "react"
-import { Bell, Eye, Trash2, CheckCheck } from "lucide-react"
+import { Bell, Eye, Trash2, CheckCheck, ShieldAlert } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
 import type { Notification } from "@shared/schema"
+import { socketEvents } from "@/lib/socket-events"
 
 type NotificationWithUser = Notification & {
   fromUser: {
@@ -75,13 +76,12 @@ export default function NotificationsPage() {
       queryClient.invalidateQueries({ queryKey: ['/api/notifications/unread-count'] })
     }
 
-    window.addEventListener('notificationReceived', handleNotificationUpdate)
-    window.addEventListener('notificationRead', handleNotificationUpdate)
+    const unsubscribers = [
+      socketEvents.on('notificationReceived', handleNotificationUpdate),
+      socketEvents.on('notificationRead', handleNotificationUpdate),
+    ]
     
-    return () => {
-      window.removeEventListener('notificationReceived', handleNotificationUpdate)
-      window.removeEventListener('notificationRead', handleNotificationUpdate)
-    }
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe())
   }, [queryClient])
 
   const markAsReadMutation = useMutation({
@@ -132,8 +132,17 @@ export default function NotificationsPage() {
     switch (notification.type) {
       case 'profile_view':
         return `${notification.fromUser.firstName} viewed your profile.`
+      case 'profile_like':
+        return `${notification.fromUser.firstName} liked your profile.`
       case 'message_received':
         return `${notification.fromUser.firstName} sent you a message.`
+      case 'message_request':
+        return `${notification.fromUser.firstName} wants to message you.`
+      case 'message_request_accepted':
+        return `${notification.fromUser.firstName} accepted your message request.`
+      case 'moderation_warning':
+        return (notification.data as { note?: string } | null)?.note ||
+          'Your account was reported and a moderator issued a warning. Please keep to the community guidelines.'
       default:
         return 'New notification'
     }
@@ -143,8 +152,16 @@ export default function NotificationsPage() {
     switch (type) {
       case 'profile_view':
         return 'Profile View'
+      case 'profile_like':
+        return 'New Like'
       case 'message_received':
         return 'New Message'
+      case 'message_request':
+        return 'Message Request'
+      case 'message_request_accepted':
+        return 'Request Accepted'
+      case 'moderation_warning':
+        return 'Warning from moderators'
       default:
         return 'Notification'
     }
@@ -271,12 +288,18 @@ export default function NotificationsPage() {
                     <div className="flex gap-3 sm:gap-4">
                       {/* Profile Photo */}
                       <div className="flex-shrink-0">
-                        <Avatar className="h-12 w-12 sm:h-14 sm:w-14 ring-2 ring-background shadow-sm">
-                          <AvatarImage src={notification.fromUser.profilePhoto || ''} />
-                          <AvatarFallback className="bg-primary/10 text-primary font-semibold">
-                            {notification.fromUser.firstName[0]}{notification.fromUser.lastName[0]}
-                          </AvatarFallback>
-                        </Avatar>
+                        {notification.type === 'moderation_warning' ? (
+                          <div className="h-12 w-12 sm:h-14 sm:w-14 rounded-full bg-destructive/10 flex items-center justify-center ring-2 ring-background shadow-sm">
+                            <ShieldAlert className="h-6 w-6 text-destructive" />
+                          </div>
+                        ) : (
+                          <Avatar className="h-12 w-12 sm:h-14 sm:w-14 ring-2 ring-background shadow-sm">
+                            <AvatarImage src={notification.fromUser.profilePhoto || ''} />
+                            <AvatarFallback className="bg-primary/10 text-primary font-semibold">
+                              {notification.fromUser.firstName[0]}{notification.fromUser.lastName[0]}
+                            </AvatarFallback>
+                          </Avatar>
+                        )}
                       </div>
                       
                       {/* Content */}
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { Link } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -7,9 +8,15 @@ import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
 import { MultiplePhotoUpload } from "@/components/ui/multiple-photo-upload";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "@/hooks/use-toast";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
 import ProfileModal from "@/components/chat/profile-modal";
+import { PresenceDot } from "@/components/chat/presence-indicator";
+import BlockedUsersList from "@/components/chat/blocked-users";
+import { MessagePolicy, PresenceStatus, PrivacySettings, hasRole } from "@shared/schema";
 import { 
   Edit, 
   Camera, 
@@ -22,7 +29,8 @@ import {
   MessageCircle,
   Mail,
   AtSign,
-  UserCheck
+  UserCheck,
+  Shield
 } from "lucide-react";
 
 export default function ProfilePage() {
@@ -62,8 +70,80 @@ export default function ProfilePage() {
     },
   });
 
+  const presenceStatusMutation = useMutation({
+    mutationFn: async (status: PresenceStatus) => {
+      const res = await apiRequest("PATCH", "/api/user/presence", { status });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/user"], { ...user, ...data });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Status not updated",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const privacyMutation = useMutation({
+    mutationFn: async (settings: Partial<PrivacySettings>) => {
+      const res = await apiRequest("PATCH", "/api/user/privacy", settings);
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/user"], { ...user, ...data });
+      // Settings are reciprocal, so what we see of others may have changed too
+      queryClient.invalidateQueries({ queryKey: ["/api/users/online"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Privacy settings not updated",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const messagePolicyMutation = useMutation({
+    mutationFn: async (messagePolicy: MessagePolicy) => {
+      const res = await apiRequest("PATCH", "/api/user/message-policy", { messagePolicy });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/user"], { ...user, ...data });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Messaging setting not updated",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   if (!user) return null;
 
+  const privacyOptions: { key: keyof PrivacySettings; label: string; description: string }[] = [
+    {
+      key: "hideOnlineStatus",
+      label: "Hide online status",
+      description: "You won't see when others are online either",
+    },
+    {
+      key: "hideLastSeen",
+      label: "Hide last seen",
+      description: "You won't see when others were last active either",
+    },
+    {
+      key: "incognito",
+      label: "Incognito browsing",
+      description: "View profiles without notifying, but don't see who viewed yours",
+    },
+  ];
+
   const handleLogout = () => {
     logoutMutation.mutate();
   };
@@ -115,12 +195,79 @@ export default function ProfilePage() {
                 <Settings className="h-4 w-4" />
               </Button>
             </SheetTrigger>
-            <SheetContent side="right" className="w-80">
+            <SheetContent side="right" className="w-80 overflow-y-auto">
               <SheetHeader>
                 <SheetTitle>Settings</SheetTitle>
               </SheetHeader>
               
               <div className="space-y-3 mt-6">
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">Status</p>
+                  <Select
+                    value={user.presenceStatus || "available"}
+                    onValueChange={(value: PresenceStatus) => presenceStatusMutation.mutate(value)}
+                    disabled={presenceStatusMutation.isPending}
+                  >
+                    <SelectTrigger className="rounded-lg" data-testid="select-presence-status">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="available">Available</SelectItem>
+                      <SelectItem value="busy">Busy</SelectItem>
+                      <SelectItem value="invisible">Invisible</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Invisible hides you from others as if you were offline
+                  </p>
+                </div>
+
+                <div className="space-y-3">
+                  <p className="text-sm font-medium">Privacy</p>
+                  {privacyOptions.map(({ key, label, description }) => (
+                    <div key={key} className="flex items-start justify-between gap-3">
+                      <label htmlFor={`privacy-${key}`} className="space-y-0.5 cursor-pointer">
+                        <span className="text-sm block">{label}</span>
+                        <span className="text-xs text-muted-foreground block">{description}</span>
+                      </label>
+                      <Switch
+                        id={`privacy-${key}`}
+                        checked={user[key]}
+                        onCheckedChange={(checked) => privacyMutation.mutate({ [key]: checked })}
+                        disabled={privacyMutation.isPending}
+                        data-testid={`switch-privacy-${key}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">Who can message me</p>
+                  <Select
+                    value={user.messagePolicy || "everyone"}
+                    onValueChange={(value: MessagePolicy) => messagePolicyMutation.mutate(value)}
+                    disabled={messagePolicyMutation.isPending}
+                  >
+                    <SelectTrigger className="rounded-lg" data-testid="select-message-policy">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="everyone">Everyone</SelectItem>
+                      <SelectItem value="filters">People matching my filters</SelectItem>
+                      <SelectItem value="mutual_likes">People I've liked who liked me</SelectItem>
+                      <SelectItem value="nobody">Nobody</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Applies to new conversations and to being added to groups; your filters are the ones set on Discover
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Blocked users</p>
+                  <BlockedUsersList />
+                </div>
+
                 <Button 
                   variant="outline" 
                   className="w-full justify-start rounded-lg transition-all hover:bg-primary/10"
@@ -130,6 +277,15 @@ export default function ProfilePage() {
                   Edit Profile
                 </Button>
                 
+                {hasRole(user, "moderator") && (
+                  <Button asChild variant="outline" className="w-full justify-start rounded-lg">
+                    <Link href="/admin" data-testid="link-admin-console">
+                      <Shield className="h-4 w-4 mr-2" />
+                      Administration
+                    </Link>
+                  </Button>
+                )}
+                
                 <Button 
                   variant="destructive" 
                   className="w-full justify-start rounded-lg"
@@ -178,9 +334,10 @@ export default function ProfilePage() {
                         </div>
                       </div>
                     </div>
-                    {user.isOnline && (
-                      <div className="absolute bottom-2 right-2 bg-green-500 w-5 h-5 md:w-6 md:h-6 rounded-full border-4 border-background shadow-lg"></div>
-                    )}
+                    <PresenceDot
+                      user={user}
+                      className="absolute bottom-2 right-2 w-5 h-5 md:w-6 md:h-6 border-4 border-background shadow-lg"
+                    />
                     <Input
                       id="profile-photo-upload"
                       type="file"
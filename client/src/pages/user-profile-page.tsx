@@ -1,10 +1,23 @@
 import { useState, useEffect } from "react";
 import { useParams, useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { 
   ArrowLeft,
   MapPin, 
@@ -14,9 +27,14 @@ import {
   Heart,
   Camera,
   Cake,
-  Users
+  Users,
+  Ban,
+  Flag
 } from "lucide-react";
-import { User } from "@shared/schema";
+import { User, BlockedUser } from "@shared/schema";
+import { socketEvents } from "@/lib/socket-events";
+import { PresenceDot, describePresence } from "@/components/chat/presence-indicator";
+import ReportDialog from "@/components/chat/report-dialog";
 
 export default function UserProfilePage() {
   const { userId } = useParams<{ userId: string }>();
@@ -25,6 +43,59 @@ export default function UserProfilePage() {
   const [profileUser, setProfileUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [selectedPhotoIndex, setSelectedPhotoIndex] = useState<number | null>(null);
+  const [confirmBlock, setConfirmBlock] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const queryClient = useQueryClient();
+
+  const { data: blockedUsers = [] } = useQuery<BlockedUser[]>({
+    queryKey: ["/api/user/blocks"],
+  });
+  const isBlocked = blockedUsers.some(blocked => blocked.id === userId);
+
+  const { data: likedUserIds = [] } = useQuery<string[]>({
+    queryKey: ["/api/user/likes"],
+  });
+  const isLiked = !!userId && likedUserIds.includes(userId);
+
+  const likeMutation = useMutation({
+    mutationFn: async (like: boolean) => {
+      await apiRequest(like ? "POST" : "DELETE", `/api/users/${userId}/like`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/likes"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Something went wrong",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const blockMutation = useMutation({
+    mutationFn: async (block: boolean) => {
+      await apiRequest(block ? "POST" : "DELETE", `/api/users/${userId}/block`);
+    },
+    onSuccess: (_, block) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/blocks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users/online"] });
+      toast({
+        title: block ? "User blocked" : "User unblocked",
+        description: block
+          ? "They can no longer see your profile, message you or notify you"
+          : "You can see each other and message again",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Something went wrong",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
 
   const fetchUserProfile = async () => {
     if (!userId) return;
@@ -48,18 +119,14 @@ export default function UserProfilePage() {
     fetchUserProfile();
   }, [userId]);
 
+  // Patched in place: fetching the profile again would count as another view
   useEffect(() => {
-    const handleOnlineStatusChanged = (event: CustomEvent) => {
-      const { userId: changedUserId } = event.detail || {};
-      
-      if (changedUserId === userId) {
-        fetchUserProfile();
-      }
-    };
-
-    window.addEventListener('onlineStatusChanged', handleOnlineStatusChanged as EventListener);
-    return () => window.removeEventListener('onlineStatusChanged', handleOnlineStatusChanged as EventListener);
-  }, [userId]);
+    return socketEvents.on('presenceChanged', ({ userId: changedUserId, presence, lastSeen }) => {
+      setProfileUser(prev => prev?.id === changedUserId
+        ? { ...prev, presence, isOnline: presence !== "offline", lastSeen }
+        : prev);
+    });
+  }, []);
 
   if (!currentUser) return null;
 
@@ -111,12 +178,60 @@ export default function UserProfilePage() {
               {profileUser.firstName} {profileUser.lastName}
             </h1>
             <p className="text-xs md:text-sm text-muted-foreground">
-              {profileUser.isOnline ? "Online now" : "Last seen recently"}
+              {describePresence(profileUser)}
             </p>
           </div>
+          <Button
+            variant="outline"
+            size="icon"
+            className="rounded-full"
+            onClick={() => setShowReport(true)}
+            aria-label="Report"
+            data-testid="button-report-user"
+          >
+            <Flag className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className={isBlocked ? "rounded-full" : "rounded-full text-destructive hover:text-destructive"}
+            onClick={() => isBlocked ? blockMutation.mutate(false) : setConfirmBlock(true)}
+            disabled={blockMutation.isPending}
+            data-testid="button-toggle-block"
+          >
+            <Ban className="h-4 w-4 mr-2" />
+            {isBlocked ? "Unblock" : "Block"}
+          </Button>
         </div>
       </div>
 
+      <ReportDialog
+        isOpen={showReport}
+        onClose={() => setShowReport(false)}
+        targetUser={profileUser}
+      />
+
+      <AlertDialog open={confirmBlock} onOpenChange={setConfirmBlock}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Block {profileUser.firstName}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They won't be able to see your profile, message you or send you notifications,
+              and your chat with them will be hidden. You can unblock them later from your settings.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => blockMutation.mutate(true)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Block
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <div className="container max-w-5xl mx-auto p-4 space-y-6">
         <Card className="overflow-hidden rounded-2xl shadow-lg border-0 bg-gradient-to-br from-card to-card/80">
           <div className="relative">
@@ -138,9 +253,10 @@ export default function UserProfilePage() {
                         </AvatarFallback>
                       </Avatar>
                     </div>
-                    {profileUser.isOnline && (
-                      <div className="absolute bottom-2 right-2 bg-green-500 w-5 h-5 md:w-6 md:h-6 rounded-full border-4 border-background shadow-lg animate-pulse"></div>
-                    )}
+                    <PresenceDot
+                      user={profileUser}
+                      className="absolute bottom-2 right-2 w-5 h-5 md:w-6 md:h-6 border-4 border-background shadow-lg animate-pulse"
+                    />
                   </div>
 
                   <div className="space-y-2 mb-2">
@@ -183,16 +299,20 @@ export default function UserProfilePage() {
           <Button 
             className="h-12 md:h-14 rounded-xl hover:shadow-lg transition-all duration-300 hover:scale-105"
             onClick={() => setLocation(`/chat/${profileUser.id}`)}
+            disabled={isBlocked}
           >
             <MessageCircle className="h-4 w-4 md:h-5 md:w-5 mr-2" />
             <span className="font-semibold">Start Chat</span>
           </Button>
           <Button 
             variant="outline"
-            className="h-12 md:h-14 rounded-xl hover:shadow-lg transition-all duration-300 hover:scale-105 hover:bg-red-500/10 hover:text-red-500 hover:border-red-500/50"
+            className={`h-12 md:h-14 rounded-xl hover:shadow-lg transition-all duration-300 hover:scale-105 hover:bg-red-500/10 hover:text-red-500 hover:border-red-500/50 ${isLiked ? "text-red-500 border-red-500/50" : ""}`}
+            onClick={() => likeMutation.mutate(!isLiked)}
+            disabled={isBlocked || likeMutation.isPending}
+            data-testid="button-like-profile"
           >
-            <Heart className="h-4 w-4 md:h-5 md:w-5 mr-2" />
-            <span className="font-semibold">Like Profile</span>
+            <Heart className={`h-4 w-4 md:h-5 md:w-5 mr-2 ${isLiked ? "fill-current" : ""}`} />
+            <span className="font-semibold">{isLiked ? "Liked" : "Like Profile"}</span>
           </Button>
         </div>
 
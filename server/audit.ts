@@ -0,0 +1,83 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import type { AuditAction, AuditEventWithUsers, InsertAuditEvent } from "@shared/schema";
+
+type AuditEntry = Partial<Omit<InsertAuditEvent, "action" | "ip" | "userAgent">>;
+
+// Append an audit event for the request's user (or entry.actorId), along with
+// where the request came from. Auditing never fails the action it records, so
+// errors are only logged.
+export async function recordAuditEvent(req: Request, action: AuditAction, entry: AuditEntry = {}) {
+  try {
+    await storage.createAuditEvent({
+      actorId: entry.actorId !== undefined ? entry.actorId : req.user?.id ?? null,
+      action,
+      targetUserId: entry.targetUserId ?? null,
+      targetId: entry.targetId ?? null,
+      before: entry.before ?? null,
+      after: entry.after ?? null,
+      details: entry.details ?? null,
+      ip: req.ip ?? null,
+      userAgent: req.get("user-agent") ?? null,
+    });
+  } catch (error) {
+    console.error(`Failed to record audit event ${action}:`, error);
+  }
+}
+
+// The fields `updates` actually changes, as they were and as they will be
+export function snapshotChanges<T extends Record<string, any>>(current: T, updates: Partial<T>) {
+  const before: Record<string, unknown> = {};
+  const after: Record<string, unknown> = {};
+  for (const key of Object.keys(updates)) {
+    if (JSON.stringify(current[key]) !== JSON.stringify(updates[key])) {
+      before[key] = current[key] ?? null;
+      after[key] = updates[key] ?? null;
+    }
+  }
+  return { before, after };
+}
+
+const CSV_COLUMNS = [
+  "id", "createdAt", "action",
+  "actorId", "actorUsername", "targetUserId", "targetUsername", "targetId",
+  "before", "after", "details", "ip", "userAgent",
+] as const;
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = value instanceof Date ? value.toISOString() : typeof value === "object" ? JSON.stringify(value) : String(value);
+  // Spreadsheets run cells starting with these as formulas
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toExportRow(event: AuditEventWithUsers): Record<typeof CSV_COLUMNS[number], unknown> {
+  return {
+    id: event.id,
+    createdAt: event.createdAt,
+    action: event.action,
+    actorId: event.actorId,
+    actorUsername: event.actor?.username ?? null,
+    targetUserId: event.targetUserId,
+    targetUsername: event.targetUser?.username ?? null,
+    targetId: event.targetId,
+    before: event.before,
+    after: event.after,
+    details: event.details,
+    ip: event.ip,
+    userAgent: event.userAgent,
+  };
+}
+
+export function toCsv(events: AuditEventWithUsers[]): string {
+  const rows = events.map(event => {
+    const row = toExportRow(event);
+    return CSV_COLUMNS.map(column => csvCell(row[column])).join(",");
+  });
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+export function toNdjson(events: AuditEventWithUsers[]): string {
+  return events.map(event => JSON.stringify(toExportRow(event)) + "\n").join("");
+}
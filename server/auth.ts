@@ -5,7 +5,8 @@ import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { recordAuditEvent } from "./audit";
+import { User as SelectUser, InsertUser, FieldError, SuspensionNotice, insertUserSchema, isSuspended, toFieldErrors, toSuspensionNotice } from "@shared/schema";
 
 // Helper to convert user to safe public profile (same as in routes.ts)
 function toPublicUser(user: SelectUser) {
@@ -22,6 +23,13 @@ function toPublicUser(user: SelectUser) {
     profilePhoto: user.profilePhoto,
     photos: user.photos,
     isOnline: user.isOnline,
+    presence: user.presence,
+    presenceStatus: user.presenceStatus,
+    hideOnlineStatus: user.hideOnlineStatus,
+    hideLastSeen: user.hideLastSeen,
+    incognito: user.incognito,
+    messagePolicy: user.messagePolicy,
+    role: user.role,
     lastSeen: user.lastSeen,
     createdAt: user.createdAt
   };
@@ -35,6 +43,18 @@ declare global {
 
 const scryptAsync = promisify(scrypt);
 
+// Username and email each belong to one account
+async function findAccountConflicts({ username, email }: Pick<InsertUser, "username" | "email">): Promise<FieldError[]> {
+  const [byUsername, byEmail] = await Promise.all([
+    storage.getUserByUsername(username),
+    storage.getUserByEmail(email),
+  ]);
+  const conflicts: FieldError[] = [];
+  if (byUsername) conflicts.push({ field: "username", message: "Username already exists" });
+  if (byEmail) conflicts.push({ field: "email", message: "An account with this email already exists" });
+  return conflicts;
+}
+
 async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
@@ -66,37 +86,80 @@ export function setupAuth(app: Express) {
       const user = await storage.getUserByUsername(username);
       if (!user || !(await comparePasswords(password, user.password))) {
         return done(null, false);
-      } else {
-        return done(null, user);
       }
+      // Only reported once the password checks out, so it can't be used to probe accounts
+      if (isSuspended(user)) {
+        const suspension = toSuspensionNotice(user);
+        const info = { message: suspension.message, suspension };
+        return done(null, false, info);
+      }
+      return done(null, user);
     }),
   );
 
   passport.serializeUser((user, done) => done(null, user.id));
   passport.deserializeUser(async (id: string, done) => {
     const user = await storage.getUser(id);
-    done(null, user);
+    // A suspension ends the sessions the user already has
+    done(null, user && !isSuspended(user) ? user : false);
   });
 
+  // Errors come as { message, errors: FieldError[] } so the form can mark each field
   app.post("/api/register", async (req, res, next) => {
-    const existingUser = await storage.getUserByUsername(req.body.username);
-    if (existingUser) {
-      return res.status(400).send("Username already exists");
+    const parsed = insertUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const errors = toFieldErrors(parsed.error);
+      return res.status(400).json({ message: errors[0].message, errors });
     }
 
-    const user = await storage.createUser({
-      ...req.body,
-      password: await hashPassword(req.body.password),
-    });
+    try {
+      const conflicts = await findAccountConflicts(parsed.data);
+      if (conflicts.length > 0) {
+        return res.status(409).json({ message: conflicts[0].message, errors: conflicts });
+      }
 
-    req.login(user, (err) => {
-      if (err) return next(err);
-      res.status(201).json(toPublicUser(user));
-    });
+      const user = await storage.createUser({
+        ...parsed.data,
+        password: await hashPassword(parsed.data.password),
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      // Another sign-up may have taken the username or email since the check
+      const conflicts = await findAccountConflicts(parsed.data).catch(() => []);
+      if (conflicts.length > 0) {
+        return res.status(409).json({ message: conflicts[0].message, errors: conflicts });
+      }
+      next(error);
+    }
   });
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    res.status(200).json(toPublicUser(req.user!));
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: any, user: SelectUser | false, info?: { suspension?: SuspensionNotice }) => {
+      if (err) return next(err);
+      if (!user) {
+        // Attributed to the account when the username exists, so its owner's
+        // history shows attempts on it
+        const username = typeof req.body.username === "string" ? req.body.username : "";
+        storage.getUserByUsername(username)
+          .then(account => recordAuditEvent(req, "login_failed", {
+            actorId: null,
+            targetUserId: account?.id ?? null,
+            details: { username, reason: info?.suspension ? "suspended" : "invalid_credentials" },
+          }))
+          .catch(error => console.error('Failed to record failed login:', error));
+        return info?.suspension ? res.status(403).json(info.suspension) : res.sendStatus(401);
+      }
+      
+      req.login(user, async (err) => {
+        if (err) return next(err);
+        await recordAuditEvent(req, "login", { targetUserId: user.id });
+        res.status(200).json(toPublicUser(user));
+      });
+    })(req, res, next);
   });
 
 
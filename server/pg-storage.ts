@@ -1,28 +1,57 @@
-import { eq, and, or, desc } from "drizzle-orm";
+import { eq, and, or, asc, desc, gt, gte, lte, ne, isNull, inArray, notInArray, ilike, sql, count } from "drizzle-orm";
 import { 
   users, 
   conversations, 
+  conversationParticipants,
   messages,
+  messageReactions,
   notifications,
+  blocks,
+  profileLikes,
+  reports,
+  auditEvents,
   type User, 
+  type Presence,
   type InsertUser, 
   type Conversation, 
   type InsertConversation, 
+  type ConversationParticipant,
+  type ConversationSummary,
+  type CreateGroup,
+  type GroupMember,
+  type GroupRole,
   type Message, 
   type InsertMessage,
+  type MessageReaction,
+  type InsertMessageReaction,
+  type MessageSearchMatch,
   type Notification,
-  type InsertNotification
+  type InsertNotification,
+  type Block,
+  type BlockedUser,
+  type ProfileLike,
+  type Report,
+  type InsertReport,
+  type ReportStatus,
+  type ReportWithUsers,
+  type AuditEvent,
+  type InsertAuditEvent,
+  type AuditEventWithUsers,
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END
 } from "@shared/schema";
-import type { IStorage } from "./storage";
+import type { IStorage, MessagePageOptions, MessageReplayOptions, AuditEventFilter, AccountActivityCounts } from "./storage";
 import session from "express-session";
 import ConnectPgSimple from "connect-pg-simple";
 import { db, pool } from "./db";
+import { PgPubSub, type PubSub } from "./pubsub";
 
 const PgSession = ConnectPgSimple(session);
 
 export class PgStorage implements IStorage {
   private db;
   public sessionStore: any;
+  public pubsub: PubSub;
 
   constructor() {
     this.db = db;
@@ -33,6 +62,9 @@ export class PgStorage implements IStorage {
       tableName: 'session',
       createTableIfMissing: true,
     });
+    
+    // Realtime events between server nodes ride LISTEN/NOTIFY on the same database
+    this.pubsub = new PgPubSub(pool);
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -74,34 +106,74 @@ export class PgStorage implements IStorage {
     return result[0];
   }
 
+  async getConversationById(id: string): Promise<Conversation | undefined> {
+    const result = await this.db.select().from(conversations).where(eq(conversations.id, id)).limit(1);
+    return result[0];
+  }
+
   async createConversation(conversation: InsertConversation): Promise<Conversation> {
     const result = await this.db.insert(conversations).values(conversation).returning();
     return result[0];
   }
 
-  async getUserConversations(userId: string): Promise<Array<Conversation & { otherUser: User; lastMessage?: Message }>> {
+  async updateConversation(id: string, updates: Partial<Conversation>): Promise<Conversation | undefined> {
+    const result = await this.db.update(conversations).set(updates).where(eq(conversations.id, id)).returning();
+    return result[0];
+  }
+
+  // Conversations the user takes part in: either side of a direct chat, or a group member
+  private memberOf(userId: string) {
+    return or(
+      eq(conversations.participant1Id, userId),
+      eq(conversations.participant2Id, userId),
+      sql`exists (
+        select 1 from ${conversationParticipants} p
+        where p.conversation_id = ${conversations.id} and p.user_id = ${userId}
+      )`
+    );
+  }
+
+  // Groups, and direct chats between users who haven't blocked one another
+  private notBlockedChat() {
+    return sql`not exists (
+      select 1 from ${blocks} b
+      where not ${conversations.isGroup} and (
+        (b.blocker_id = ${conversations.participant1Id} and b.blocked_id = ${conversations.participant2Id}) or
+        (b.blocker_id = ${conversations.participant2Id} and b.blocked_id = ${conversations.participant1Id})
+      )
+    )`;
+  }
+
+  async getUserConversations(userId: string): Promise<ConversationSummary[]> {
+    // Previews skip group messages from blocked users, as their history does
+    const blockedUserIds = await this.getBlockedUserIds(userId);
     const userConversations = await this.db
       .select()
       .from(conversations)
-      .where(
-        or(
-          eq(conversations.participant1Id, userId),
-          eq(conversations.participant2Id, userId)
-        )
-      )
+      .where(and(
+        this.memberOf(userId),
+        // Direct chats between users who blocked one another are hidden; groups stay
+        this.notBlockedChat(),
+      ))
       .orderBy(desc(conversations.lastMessageAt));
 
     const enrichedConversations = await Promise.all(
       userConversations.map(async (conv) => {
-        const otherUserId = conv.participant1Id === userId ? conv.participant2Id : conv.participant1Id;
-        const otherUser = await this.getUser(otherUserId);
-        const conversationMessages = await this.getMessages(conv.id);
-        const lastMessage = conversationMessages[conversationMessages.length - 1];
+        const [lastMessage] = await this.getMessages(conv.id, { limit: 1, excludeSenderIds: blockedUserIds });
+        const unreadCount = await this.getUnreadMessageCount(userId, conv.id);
         
+        if (conv.isGroup) {
+          const members = await this.getGroupMembers(conv.id);
+          return { ...conv, members, lastMessage, unreadCount };
+        }
+        
+        const otherUserId = conv.participant1Id === userId ? conv.participant2Id : conv.participant1Id;
+        const otherUser = await this.getUser(otherUserId!);
         return {
           ...conv,
           otherUser: otherUser!,
           lastMessage,
+          unreadCount,
         };
       })
     );
@@ -109,13 +181,133 @@ export class PgStorage implements IStorage {
     return enrichedConversations;
   }
 
-  async getMessages(conversationId: string): Promise<Message[]> {
+  async createGroupConversation(group: Omit<CreateGroup, "memberIds">, ownerId: string, memberIds: string[]): Promise<Conversation> {
+    return await this.db.transaction(async (tx) => {
+      const [conversation] = await tx
+        .insert(conversations)
+        .values({ isGroup: true, name: group.name, avatarUrl: group.avatarUrl })
+        .returning();
+
+      // History from before joining doesn't count as unread
+      const joinedAt = new Date();
+      await tx.insert(conversationParticipants).values([
+        { conversationId: conversation.id, userId: ownerId, role: "owner", lastReadAt: joinedAt },
+        ...memberIds.map((userId) => ({ conversationId: conversation.id, userId, role: "member", lastReadAt: joinedAt })),
+      ]);
+
+      return conversation;
+    });
+  }
+
+  async getGroupMembers(conversationId: string): Promise<GroupMember[]> {
+    const rows = await this.db
+      .select({
+        participant: conversationParticipants,
+        user: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          profilePhoto: users.profilePhoto,
+          isOnline: users.isOnline,
+          hideOnlineStatus: users.hideOnlineStatus,
+        },
+      })
+      .from(conversationParticipants)
+      .innerJoin(users, eq(conversationParticipants.userId, users.id))
+      .where(eq(conversationParticipants.conversationId, conversationId))
+      .orderBy(conversationParticipants.joinedAt);
+
+    return rows.map(({ participant, user }) => ({ ...participant, user }));
+  }
+
+  async addGroupMember(conversationId: string, userId: string, role: GroupRole = "member"): Promise<ConversationParticipant> {
     const result = await this.db
+      .insert(conversationParticipants)
+      .values({ conversationId, userId, role, lastReadAt: new Date() })
+      .returning();
+    return result[0];
+  }
+
+  async updateGroupMember(conversationId: string, userId: string, updates: Partial<ConversationParticipant>): Promise<ConversationParticipant | undefined> {
+    const result = await this.db
+      .update(conversationParticipants)
+      .set(updates)
+      .where(and(eq(conversationParticipants.conversationId, conversationId), eq(conversationParticipants.userId, userId)))
+      .returning();
+    return result[0];
+  }
+
+  async removeGroupMember(conversationId: string, userId: string): Promise<void> {
+    await this.db
+      .delete(conversationParticipants)
+      .where(and(eq(conversationParticipants.conversationId, conversationId), eq(conversationParticipants.userId, userId)));
+  }
+
+  async getMessages(conversationId: string, options: MessagePageOptions = {}): Promise<Message[]> {
+    let cursorCondition;
+    if (options.before) {
+      const cursor = await this.getMessage(options.before);
+      if (!cursor || cursor.conversationId !== conversationId) return [];
+
+      // Compare (timestamp, id) in SQL: keeps microsecond precision and never
+      // skips messages that share a timestamp with the cursor
+      cursorCondition = sql`(${messages.timestamp}, ${messages.id}) < (
+        select c.timestamp, c.id from ${messages} c where c.id = ${cursor.id}
+      )`;
+    }
+
+    const query = this.db
       .select()
       .from(messages)
-      .where(eq(messages.conversationId, conversationId))
-      .orderBy(messages.timestamp);
-    return result;
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        cursorCondition,
+        options.excludeSenderIds?.length ? notInArray(messages.senderId, options.excludeSenderIds) : undefined,
+      ))
+      .orderBy(desc(messages.timestamp), desc(messages.id));
+
+    const result = options.limit ? await query.limit(options.limit) : await query;
+    return result.reverse();
+  }
+
+  async getMessage(id: string): Promise<Message | undefined> {
+    const result = await this.db.select().from(messages).where(eq(messages.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getMessagesSince(userId: string, options: MessageReplayOptions): Promise<Message[]> {
+    const userConversations = this.db
+      .select({ id: conversations.id })
+      .from(conversations)
+      .where(this.memberOf(userId));
+
+    // Same row comparison as getMessages, in the other direction
+    const sinceCondition = options.after
+      ? sql`(${messages.timestamp}, ${messages.id}) > (
+          select c.timestamp, c.id from ${messages} c where c.id = ${options.after}
+        )`
+      : options.since ? gt(messages.timestamp, options.since) : undefined;
+
+    return await this.db
+      .select()
+      .from(messages)
+      .where(and(inArray(messages.conversationId, userConversations), sinceCondition))
+      .orderBy(asc(messages.timestamp), asc(messages.id))
+      .limit(options.limit);
+  }
+
+  async getMessageByClientId(senderId: string, clientMessageId: string): Promise<Message | undefined> {
+    const result = await this.db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.senderId, senderId), eq(messages.clientMessageId, clientMessageId)))
+      .limit(1);
+    return result[0];
+  }
+
+  async getMessagesByIds(ids: string[]): Promise<Message[]> {
+    if (ids.length === 0) return [];
+    return await this.db.select().from(messages).where(inArray(messages.id, ids));
   }
 
   async createMessage(message: InsertMessage): Promise<Message> {
@@ -130,6 +322,178 @@ export class PgStorage implements IStorage {
     return result[0];
   }
 
+  async updateMessage(id: string, updates: Partial<Message>): Promise<Message | undefined> {
+    const result = await this.db.update(messages).set(updates).where(eq(messages.id, id)).returning();
+    return result[0];
+  }
+
+  async markMessagesDelivered(recipientId: string, conversationId?: string): Promise<Message[]> {
+    // Conversations the recipient takes part in (optionally narrowed to one)
+    const recipientConversations = this.db
+      .select({ id: conversations.id })
+      .from(conversations)
+      .where(
+        and(
+          this.memberOf(recipientId),
+          conversationId ? eq(conversations.id, conversationId) : undefined
+        )
+      );
+
+    return await this.db
+      .update(messages)
+      .set({ deliveredAt: new Date() })
+      .where(
+        and(
+          inArray(messages.conversationId, recipientConversations),
+          ne(messages.senderId, recipientId),
+          isNull(messages.deliveredAt)
+        )
+      )
+      .returning();
+  }
+
+  async markMessagesRead(conversationId: string, readerId: string, upToMessageId?: string): Promise<Message[]> {
+    const readAt = new Date();
+    const upToCondition = upToMessageId
+      ? sql`(${messages.timestamp}, ${messages.id}) <= (
+          select c.timestamp, c.id from ${messages} c where c.id = ${upToMessageId}
+        )`
+      : undefined;
+
+    const result = await this.db
+      .update(messages)
+      .set({
+        readAt,
+        deliveredAt: sql`coalesce(${messages.deliveredAt}, ${readAt})`,
+      })
+      .where(
+        and(
+          eq(messages.conversationId, conversationId),
+          ne(messages.senderId, readerId),
+          isNull(messages.readAt),
+          upToCondition
+        )
+      )
+      .returning();
+
+    // Advance the reader's marker to the newest message covered by this receipt
+    // (never backwards; greatest() ignores a null marker)
+    const newestRead = sql`(
+      select max(c.timestamp) from ${messages} c
+      where c.conversation_id = ${conversationId}
+      ${upToMessageId ? sql`and c.timestamp <= (select u.timestamp from ${messages} u where u.id = ${upToMessageId})` : sql``}
+    )`;
+    await this.db
+      .update(conversations)
+      .set({
+        participant1LastReadAt: sql`case when ${conversations.participant1Id} = ${readerId}
+          then greatest(${conversations.participant1LastReadAt}, ${newestRead})
+          else ${conversations.participant1LastReadAt} end`,
+        participant2LastReadAt: sql`case when ${conversations.participant2Id} = ${readerId}
+          then greatest(${conversations.participant2LastReadAt}, ${newestRead})
+          else ${conversations.participant2LastReadAt} end`,
+      })
+      .where(eq(conversations.id, conversationId));
+    // Group members keep their marker on the membership row instead
+    await this.db
+      .update(conversationParticipants)
+      .set({ lastReadAt: sql`greatest(${conversationParticipants.lastReadAt}, ${newestRead})` })
+      .where(and(eq(conversationParticipants.conversationId, conversationId), eq(conversationParticipants.userId, readerId)));
+
+    return result;
+  }
+
+  async getUnreadMessageCount(userId: string, conversationId?: string): Promise<number> {
+    const [result] = await this.db
+      .select({ count: count() })
+      .from(messages)
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .where(
+        and(
+          this.memberOf(userId),
+          // Nothing from blocked users is shown (their direct chats are hidden,
+          // their group messages left out), so it mustn't add to the badge either
+          sql`not exists (
+            select 1 from ${blocks} b
+            where (b.blocker_id = ${userId} and b.blocked_id = ${messages.senderId}) or
+              (b.blocker_id = ${messages.senderId} and b.blocked_id = ${userId})
+          )`,
+          // Nor do requests the user declined, which their inbox leaves out
+          sql`not (${conversations.requestStatus} = 'declined' and ${conversations.participant2Id} = ${userId})`,
+          conversationId ? eq(conversations.id, conversationId) : undefined,
+          ne(messages.senderId, userId),
+          sql`${messages.timestamp} > coalesce(
+            case
+              when ${conversations.isGroup} then (
+                select p.last_read_at from ${conversationParticipants} p
+                where p.conversation_id = ${conversations.id} and p.user_id = ${userId}
+              )
+              when ${conversations.participant1Id} = ${userId} then ${conversations.participant1LastReadAt}
+              else ${conversations.participant2LastReadAt} end,
+            '-infinity'::timestamp
+          )`
+        )
+      );
+    return result.count;
+  }
+
+  async searchMessages(userId: string, query: string, limit: number): Promise<MessageSearchMatch[]> {
+    // Must match the expression of messages_content_search_idx for the index to be used
+    const document = sql`to_tsvector('english', ${messages.content})`;
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    const headlineOptions = `StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, MinWords=5, MaxWords=20, MaxFragments=2`;
+
+    const rows = await this.db
+      .select({
+        message: messages,
+        snippet: sql<string>`ts_headline('english', ${messages.content}, ${tsQuery}, ${headlineOptions})`,
+        otherUserId: sql<string | null>`case
+          when ${conversations.isGroup} then null
+          when ${conversations.participant1Id} = ${userId} then ${conversations.participant2Id}
+          else ${conversations.participant1Id} end`,
+      })
+      .from(messages)
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .where(
+        and(
+          this.memberOf(userId),
+          isNull(messages.deletedAt),
+          sql`${document} @@ ${tsQuery}`
+        )
+      )
+      .orderBy(desc(sql`ts_rank(${document}, ${tsQuery})`), desc(messages.timestamp))
+      .limit(limit);
+
+    return rows.map(({ message, snippet, otherUserId }) => ({ ...message, snippet, otherUserId }));
+  }
+
+  async getMessageReactions(messageIds: string[]): Promise<MessageReaction[]> {
+    if (messageIds.length === 0) return [];
+    return await this.db
+      .select()
+      .from(messageReactions)
+      .where(inArray(messageReactions.messageId, messageIds))
+      .orderBy(messageReactions.createdAt);
+  }
+
+  async setMessageReaction(reaction: InsertMessageReaction): Promise<MessageReaction> {
+    const result = await this.db
+      .insert(messageReactions)
+      .values(reaction)
+      .onConflictDoUpdate({
+        target: [messageReactions.messageId, messageReactions.userId],
+        set: { emoji: reaction.emoji, createdAt: new Date() },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async removeMessageReaction(messageId: string, userId: string): Promise<void> {
+    await this.db
+      .delete(messageReactions)
+      .where(and(eq(messageReactions.messageId, messageId), eq(messageReactions.userId, userId)));
+  }
+
   async getAllUsers(): Promise<User[]> {
     const result = await this.db.select().from(users);
     return result;
@@ -140,14 +504,252 @@ export class PgStorage implements IStorage {
     return result;
   }
 
-  async setUserOnlineStatus(userId: string, isOnline: boolean): Promise<void> {
-    await this.db
+  async setUserPresence(userId: string, presence: Presence): Promise<User | undefined> {
+    const result = await this.db
       .update(users)
       .set({ 
-        isOnline, 
+        presence,
+        isOnline: presence !== "offline", 
         lastSeen: new Date() 
       })
-      .where(eq(users.id, userId));
+      .where(eq(users.id, userId))
+      .returning();
+    return result[0];
+  }
+
+  async blockUser(blockerId: string, blockedId: string): Promise<Block> {
+    const [inserted] = await this.db
+      .insert(blocks)
+      .values({ blockerId, blockedId })
+      .onConflictDoNothing()
+      .returning();
+    if (inserted) return inserted;
+    
+    const [existing] = await this.db
+      .select()
+      .from(blocks)
+      .where(and(eq(blocks.blockerId, blockerId), eq(blocks.blockedId, blockedId)));
+    return existing;
+  }
+
+  async unblockUser(blockerId: string, blockedId: string): Promise<void> {
+    await this.db
+      .delete(blocks)
+      .where(and(eq(blocks.blockerId, blockerId), eq(blocks.blockedId, blockedId)));
+  }
+
+  async getBlockedUsers(blockerId: string): Promise<BlockedUser[]> {
+    return await this.db
+      .select({
+        id: users.id,
+        username: users.username,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        profilePhoto: users.profilePhoto,
+        blockedAt: blocks.createdAt,
+      })
+      .from(blocks)
+      .innerJoin(users, eq(blocks.blockedId, users.id))
+      .where(eq(blocks.blockerId, blockerId))
+      .orderBy(desc(blocks.createdAt));
+  }
+
+  async isBlocked(blockerId: string, blockedId: string): Promise<boolean> {
+    const result = await this.db
+      .select({ id: blocks.id })
+      .from(blocks)
+      .where(and(eq(blocks.blockerId, blockerId), eq(blocks.blockedId, blockedId)))
+      .limit(1);
+    return result.length > 0;
+  }
+
+  async getBlockedUserIds(userId: string): Promise<string[]> {
+    const result = await this.db
+      .select({ blockerId: blocks.blockerId, blockedId: blocks.blockedId })
+      .from(blocks)
+      .where(or(eq(blocks.blockerId, userId), eq(blocks.blockedId, userId)));
+    return Array.from(new Set(result.map(block => block.blockerId === userId ? block.blockedId : block.blockerId)));
+  }
+
+  async likeProfile(likerId: string, likedId: string): Promise<ProfileLike> {
+    const [inserted] = await this.db
+      .insert(profileLikes)
+      .values({ likerId, likedId })
+      .onConflictDoNothing()
+      .returning();
+    if (inserted) return inserted;
+    
+    const [existing] = await this.db
+      .select()
+      .from(profileLikes)
+      .where(and(eq(profileLikes.likerId, likerId), eq(profileLikes.likedId, likedId)));
+    return existing;
+  }
+
+  async unlikeProfile(likerId: string, likedId: string): Promise<void> {
+    await this.db
+      .delete(profileLikes)
+      .where(and(eq(profileLikes.likerId, likerId), eq(profileLikes.likedId, likedId)));
+  }
+
+  async hasLiked(likerId: string, likedId: string): Promise<boolean> {
+    const result = await this.db
+      .select({ id: profileLikes.id })
+      .from(profileLikes)
+      .where(and(eq(profileLikes.likerId, likerId), eq(profileLikes.likedId, likedId)))
+      .limit(1);
+    return result.length > 0;
+  }
+
+  async getLikedUserIds(likerId: string): Promise<string[]> {
+    const result = await this.db
+      .select({ likedId: profileLikes.likedId })
+      .from(profileLikes)
+      .where(eq(profileLikes.likerId, likerId));
+    return result.map(like => like.likedId);
+  }
+
+  async createReport(report: InsertReport): Promise<Report> {
+    const result = await this.db.insert(reports).values(report).returning();
+    return result[0];
+  }
+
+  async getReport(id: string): Promise<Report | undefined> {
+    const result = await this.db.select().from(reports).where(eq(reports.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getReports(status: ReportStatus): Promise<ReportWithUsers[]> {
+    const queue = await this.db
+      .select()
+      .from(reports)
+      .where(eq(reports.status, status))
+      .orderBy(asc(reports.createdAt));
+    if (queue.length === 0) return [];
+
+    const userIds = Array.from(new Set(queue.flatMap(report => [report.reporterId, report.targetUserId])));
+    const involvedUsers = await this.db
+      .select({
+        id: users.id,
+        username: users.username,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        profilePhoto: users.profilePhoto,
+        suspendedAt: users.suspendedAt,
+        suspendedUntil: users.suspendedUntil,
+      })
+      .from(users)
+      .where(inArray(users.id, userIds));
+    const usersById = new Map(involvedUsers.map(user => [user.id, user]));
+
+    return queue.flatMap((report) => {
+      const reporter = usersById.get(report.reporterId);
+      const targetUser = usersById.get(report.targetUserId);
+      if (!reporter || !targetUser) return [];
+      return [{
+        ...report,
+        reporter: {
+          id: reporter.id,
+          username: reporter.username,
+          firstName: reporter.firstName,
+          lastName: reporter.lastName,
+        },
+        targetUser,
+      }];
+    });
+  }
+
+  async updateReport(id: string, updates: Partial<Report>): Promise<Report | undefined> {
+    const result = await this.db
+      .update(reports)
+      .set(updates)
+      .where(eq(reports.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async searchUsers(query: string, limit: number): Promise<User[]> {
+    // The query is matched literally, so LIKE wildcards in it are escaped
+    const pattern = `%${query.replace(/[\\%_]/g, "\\$&")}%`;
+    return this.db
+      .select()
+      .from(users)
+      .where(or(
+        ilike(users.username, pattern),
+        ilike(users.email, pattern),
+        ilike(sql`${users.firstName} || ' ' || ${users.lastName}`, pattern),
+      ))
+      .orderBy(desc(users.createdAt))
+      .limit(limit);
+  }
+
+  async getAccountActivityCounts(userId: string): Promise<AccountActivityCounts> {
+    const [[sent], [against], [filed]] = await Promise.all([
+      this.db.select({ count: count() }).from(messages).where(eq(messages.senderId, userId)),
+      this.db.select({ count: count() }).from(reports).where(eq(reports.targetUserId, userId)),
+      this.db.select({ count: count() }).from(reports).where(eq(reports.reporterId, userId)),
+    ]);
+    return {
+      messagesSent: sent.count,
+      reportsAgainst: against.count,
+      reportsFiled: filed.count,
+    };
+  }
+
+  // The session table belongs to connect-pg-simple, so it's queried by hand;
+  // passport keeps the user id at sess.passport.user
+  async countUserSessions(userId: string): Promise<number> {
+    const result = await this.db.execute<{ count: number }>(sql`
+      select count(*)::int as count from "session"
+      where sess->'passport'->>'user' = ${userId} and expire > now()
+    `);
+    return result.rows[0]?.count ?? 0;
+  }
+
+  async deleteUserSessions(userId: string): Promise<number> {
+    const result = await this.db.execute(sql`
+      delete from "session" where sess->'passport'->>'user' = ${userId}
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  async createAuditEvent(entry: InsertAuditEvent): Promise<AuditEvent> {
+    const result = await this.db.insert(auditEvents).values(entry).returning();
+    return result[0];
+  }
+
+  async getAuditEvents(filter: AuditEventFilter): Promise<AuditEventWithUsers[]> {
+    const entries = await this.db
+      .select()
+      .from(auditEvents)
+      .where(and(
+        filter.actorId ? eq(auditEvents.actorId, filter.actorId) : undefined,
+        filter.targetUserId ? eq(auditEvents.targetUserId, filter.targetUserId) : undefined,
+        filter.action ? eq(auditEvents.action, filter.action) : undefined,
+        filter.from ? gte(auditEvents.createdAt, filter.from) : undefined,
+        filter.to ? lte(auditEvents.createdAt, filter.to) : undefined,
+      ))
+      .orderBy(desc(auditEvents.createdAt))
+      .limit(filter.limit);
+    if (entries.length === 0) return [];
+
+    const userIds = Array.from(new Set(entries.flatMap(entry => [entry.actorId, entry.targetUserId].filter((id): id is string => !!id))));
+    const involvedUsers = await this.db
+      .select({
+        id: users.id,
+        username: users.username,
+        firstName: users.firstName,
+        lastName: users.lastName,
+      })
+      .from(users)
+      .where(inArray(users.id, userIds));
+    const usersById = new Map(involvedUsers.map(user => [user.id, user]));
+
+    return entries.map((entry) => ({
+      ...entry,
+      actor: entry.actorId ? usersById.get(entry.actorId) ?? null : null,
+      targetUser: entry.targetUserId ? usersById.get(entry.targetUserId) ?? null : null,
+    }));
   }
 
   // Notification methods
@@ -0,0 +1,172 @@
+import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
+import type { Pool, PoolClient } from "pg";
+
+// Fan-out between server nodes. Every subscriber - including the publishing
+// node itself - receives each payload, so callers filter out their own.
+export interface PubSub {
+  publish(channel: string, payload: unknown): Promise<void>;
+  subscribe(channel: string, handler: (payload: unknown) => void): Promise<void>;
+}
+
+// Single process (MemStorage): there are no other nodes to reach
+export class InProcessPubSub implements PubSub {
+  private emitter = new EventEmitter();
+
+  async publish(channel: string, payload: unknown): Promise<void> {
+    this.emitter.emit(channel, payload);
+  }
+
+  async subscribe(channel: string, handler: (payload: unknown) => void): Promise<void> {
+    this.emitter.on(channel, handler);
+  }
+}
+
+// Postgres rejects NOTIFY payloads of 8000 bytes or more; leave room for the envelope
+const NOTIFY_PAYLOAD_LIMIT = 7500;
+const LISTENER_RECONNECT_MS = 3000;
+
+type Notification =
+  | { body: unknown }
+  | { chunk: { id: string; part: number; total: number }; data: string };
+
+// LISTEN/NOTIFY over the shared pool. Listening holds one dedicated connection,
+// re-established (and re-subscribed) if it drops.
+export class PgPubSub implements PubSub {
+  private listener: Promise<PoolClient> | null = null;
+  private handlers = new Map<string, Set<(payload: unknown) => void>>();
+  // Chunks of oversized payloads received so far, by payload id
+  private partials = new Map<string, string[]>();
+
+  constructor(private pool: Pool) {}
+
+  async publish(channel: string, payload: unknown): Promise<void> {
+    const encoded = Buffer.from(JSON.stringify({ body: payload }));
+    if (encoded.length <= NOTIFY_PAYLOAD_LIMIT) {
+      await this.pool.query("SELECT pg_notify($1, $2)", [channel, encoded.toString()]);
+      return;
+    }
+
+    // Too big for one NOTIFY: send base64 parts in one transaction, which
+    // Postgres delivers to listeners together and in order
+    const id = randomUUID();
+    const partSize = Math.floor(NOTIFY_PAYLOAD_LIMIT * 3 / 4) - 200;
+    const total = Math.ceil(encoded.length / partSize);
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+      for (let part = 0; part < total; part++) {
+        const data = encoded.subarray(part * partSize, (part + 1) * partSize).toString("base64");
+        const notification: Notification = { chunk: { id, part, total }, data };
+        await client.query("SELECT pg_notify($1, $2)", [channel, JSON.stringify(notification)]);
+      }
+      await client.query("COMMIT");
+    } catch (error) {
+      // A failed rollback mustn't hide why the publish failed
+      await client.query("ROLLBACK").catch((rollbackError) => {
+        console.error("Failed to roll back pub/sub publish:", rollbackError);
+      });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async subscribe(channel: string, handler: (payload: unknown) => void): Promise<void> {
+    const isNewChannel = !this.handlers.has(channel);
+    if (isNewChannel) {
+      this.handlers.set(channel, new Set());
+    }
+    this.handlers.get(channel)!.add(handler);
+
+    const listener = await this.getListener();
+    if (isNewChannel) {
+      await listener.query(`LISTEN ${listener.escapeIdentifier(channel)}`);
+    }
+  }
+
+  private getListener(): Promise<PoolClient> {
+    if (!this.listener) {
+      this.listener = this.connectListener();
+      // Let the next caller retry rather than reuse a failed connection attempt
+      this.listener.catch(() => {
+        this.listener = null;
+      });
+    }
+    return this.listener;
+  }
+
+  private async connectListener(): Promise<PoolClient> {
+    const client = await this.pool.connect();
+
+    client.on("notification", ({ channel, payload }) => {
+      if (payload) this.receive(channel, payload);
+    });
+
+    client.on("error", (error) => {
+      console.error("Pub/sub listener connection lost:", error);
+      client.release(error);
+      this.listener = null;
+      this.partials.clear();
+      setTimeout(() => this.resubscribe(), LISTENER_RECONNECT_MS);
+    });
+
+    return client;
+  }
+
+  private async resubscribe() {
+    try {
+      const listener = await this.getListener();
+      for (const channel of Array.from(this.handlers.keys())) {
+        await listener.query(`LISTEN ${listener.escapeIdentifier(channel)}`);
+      }
+    } catch (error) {
+      console.error("Failed to re-establish pub/sub listener:", error);
+      setTimeout(() => this.resubscribe(), LISTENER_RECONNECT_MS);
+    }
+  }
+
+  private receive(channel: string, raw: string) {
+    let notification: Notification;
+    try {
+      notification = JSON.parse(raw);
+    } catch (error) {
+      console.error("Ignoring malformed pub/sub notification:", error);
+      return;
+    }
+
+    if ("chunk" in notification) {
+      const { id, part, total } = notification.chunk;
+      const parts = this.partials.get(id) ?? [];
+      parts[part] = notification.data;
+      if (parts.filter(Boolean).length < total) {
+        this.partials.set(id, parts);
+        return;
+      }
+
+      this.partials.delete(id);
+      const joined = Buffer.concat(parts.map(data => Buffer.from(data, "base64"))).toString();
+      let reassembled: { body: unknown };
+      try {
+        reassembled = JSON.parse(joined);
+      } catch (error) {
+        console.error("Ignoring malformed multi-part pub/sub notification:", error);
+        return;
+      }
+      this.dispatch(channel, reassembled.body);
+      return;
+    }
+
+    this.dispatch(channel, notification.body);
+  }
+
+  private dispatch(channel: string, payload: unknown) {
+    this.handlers.get(channel)?.forEach((handler) => {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error("Pub/sub handler error:", error);
+      }
+    });
+  }
+}
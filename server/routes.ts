@@ -4,14 +4,26 @@ import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import multer from "multer";
 import path from "path";
+import { randomUUID } from "crypto";
 import { storage } from "./storage";
 import { setupAuth } from "./auth";
-import { insertMessageSchema, insertConversationSchema, insertNotificationSchema, type User } from "@shared/schema";
+import { recordAuditEvent, snapshotChanges, toCsv, toNdjson } from "./audit";
+import { insertMessageSchema, insertConversationSchema, insertNotificationSchema, editMessageSchema, insertMessageReactionSchema, messageSearchSchema, createGroupSchema, updateGroupSchema, presenceStatusSchema, privacySettingsSchema, messagePolicySchema, createReportSchema, moderateReportSchema, updateProfileSchema, toFieldErrors, adminUserSearchSchema, suspendUserSchema, updateUserRoleSchema, removeProfileContentSchema, auditEventQuerySchema, auditExportQuerySchema, isSuspended, toSuspensionNotice, hasRole, REPORT_CONTEXT_MESSAGES, REPORT_STATUSES, USER_ROLES, MESSAGE_EDIT_WINDOW_MINUTES, MAX_GROUP_MEMBERS, type User, type PublicUser, type Presence, type PrivacySettings, type Conversation, type GroupDetails, type GroupMember, type Message, type MessagePage, type MessageWithReactions, type MessageReplyPreview, type MessageSearchResult, type ReportedMessage, type UserRole, type AdminUser, type AdminUserDetails, type RefusedGroupMember } from "@shared/schema";
+import { clientEventSchema, WS_CLOSE_ACCOUNT_SUSPENDED, type ServerEvent, type ServerEventOf } from "@shared/ws-protocol";
 import { parse } from "url";
 import { parse as parseCookie } from "cookie";
 
-// Helper to convert user to safe public profile
-function toPublicUser(user: User) {
+// Whether the viewer may see the user's online status or last seen. Both
+// sides' settings count, so hiding your own hides everyone else's from you.
+function isVisibleTo(user: Partial<PrivacySettings>, viewer: Partial<PrivacySettings>, setting: "hideOnlineStatus" | "hideLastSeen") {
+  return !user[setting] && !viewer[setting];
+}
+
+// Helper to convert user to safe public profile. Pass the viewer whenever the
+// profile is shown to someone else, so privacy settings apply.
+function toPublicUser(user: User, viewer?: PrivacySettings): PublicUser {
+  const showPresence = !viewer || isVisibleTo(user, viewer, "hideOnlineStatus");
+  const showLastSeen = !viewer || isVisibleTo(user, viewer, "hideLastSeen");
   return {
     id: user.id,
     username: user.username,
@@ -23,11 +35,145 @@ function toPublicUser(user: User) {
     bio: user.bio,
     profilePhoto: user.profilePhoto,
     photos: user.photos,
-    isOnline: user.isOnline,
-    lastSeen: user.lastSeen
+    isOnline: showPresence ? user.isOnline : false,
+    presence: showPresence ? user.presence : "offline",
+    lastSeen: showLastSeen ? user.lastSeen : null
+  };
+}
+
+// Whether the recipient's messaging setting lets sender start a conversation.
+// Unset discovery filters match everyone
+async function acceptsMessagesFrom(recipient: User, sender: User): Promise<boolean> {
+  switch (recipient.messagePolicy) {
+    case "nobody":
+      return false;
+    case "mutual_likes":
+      return (await storage.hasLiked(recipient.id, sender.id)) && (await storage.hasLiked(sender.id, recipient.id));
+    case "filters":
+      return (!recipient.filterGender || sender.gender === recipient.filterGender) &&
+        (!recipient.filterAgeMin || sender.age >= recipient.filterAgeMin) &&
+        (!recipient.filterAgeMax || sender.age <= recipient.filterAgeMax) &&
+        (!recipient.filterLocation || !!sender.location?.toLowerCase().includes(recipient.filterLocation.toLowerCase()));
+    default:
+      return true;
+  }
+}
+
+// Just the settings, for passing around without the rest of the user
+function privacyOf(user: PrivacySettings): PrivacySettings {
+  return { hideOnlineStatus: user.hideOnlineStatus, hideLastSeen: user.hideLastSeen, incognito: user.incognito };
+}
+
+// Group members' online flags, as the viewer may see them
+function toPublicMembers(members: GroupMember[], viewer: PrivacySettings): GroupMember[] {
+  return members.map(member => ({
+    ...member,
+    user: { ...member.user, isOnline: !!member.user.isOnline && isVisibleTo(member.user, viewer, "hideOnlineStatus") },
+  }));
+}
+
+function toPublicGroup(group: GroupDetails | null, viewer: PrivacySettings): GroupDetails | null {
+  return group && { ...group, members: toPublicMembers(group.members, viewer) };
+}
+
+// What a report keeps of a message, in case it's edited or unsent later
+function toReportedMessage(message: Message): ReportedMessage {
+  return {
+    id: message.id,
+    senderId: message.senderId,
+    content: message.content,
+    imageUrl: message.imageUrl,
+    timestamp: message.timestamp,
+    editedAt: message.editedAt,
+    deletedAt: message.deletedAt,
+  };
+}
+
+// Snapshot of the original message shown above a quoted reply
+function toReplyPreview(message: Message): MessageReplyPreview {
+  return {
+    id: message.id,
+    senderId: message.senderId,
+    content: message.content,
+    imageUrl: message.imageUrl,
+    deletedAt: message.deletedAt,
+  };
+}
+
+const DEFAULT_MESSAGE_PAGE_SIZE = 30;
+const MAX_MESSAGE_PAGE_SIZE = 100;
+const MAX_SEARCH_RESULTS = 50;
+// Messages replayed to a reconnecting client; if more were missed it refetches instead
+const MAX_REPLAY_MESSAGES = 200;
+// Connections that don't answer a ping within one interval are dropped
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+// Realtime traffic between server nodes goes over this pub/sub channel
+const REALTIME_CHANNEL = "realtime";
+// A node that hasn't reported its connections for this long is assumed gone
+const NODE_TIMEOUT_MS = HEARTBEAT_INTERVAL_MS * 3;
+// How long a starting node waits for the other nodes' state before correcting online flags
+const CLUSTER_SYNC_GRACE_MS = 5000;
+
+// A user's connections on one node: the chats they have open there, and
+// whether all of those connections are idle
+type ConnectionState = { chatKeys: string[]; idle: boolean };
+
+type ClusterMessage =
+  | { kind: "deliver"; userId: string; event: ServerEvent }
+  | { kind: "broadcast"; event: ServerEvent }
+  // Everyone connected to the sending node
+  | { kind: "nodeState"; users: Record<string, ConnectionState> }
+  // One user's entry of the above changed; null once they have no connection there
+  | { kind: "userState"; userId: string; state: ConnectionState | null }
+  // A node just started and wants everyone's nodeState
+  | { kind: "hello" }
+  | { kind: "disconnectUser"; userId: string; close?: SocketClose }
+  | { kind: "presence"; privacy: PrivacySettings; event: ServerEventOf<"presenceChanged"> }
+  | { kind: "privacyChanged"; userId: string; privacy: PrivacySettings };
+
+// Code and reason to close a socket with, when a plain close won't do
+type SocketClose = { code: number; reason: string };
+
+const SUSPENDED_CLOSE: SocketClose = { code: WS_CLOSE_ACCOUNT_SUSPENDED, reason: "Account suspended" };
+
+// Cursor pagination shared by direct and group history: ?before=<messageId>&limit=<n>, newest page first
+async function getMessagePage(conversationId: string, query: Request["query"], hiddenSenderIds: string[] = []): Promise<MessagePage> {
+  const before = typeof query.before === 'string' ? query.before : undefined;
+  const requestedLimit = parseInt(query.limit as string);
+  const limit = !isNaN(requestedLimit) && requestedLimit > 0
+    ? Math.min(requestedLimit, MAX_MESSAGE_PAGE_SIZE)
+    : DEFAULT_MESSAGE_PAGE_SIZE;
+  
+  // Fetch one extra message to find out whether there is an older page
+  const page = await storage.getMessages(conversationId, { before, limit: limit + 1, excludeSenderIds: hiddenSenderIds });
+  const hasMore = page.length > limit;
+  const messages = hasMore ? page.slice(1) : page;
+  
+  return {
+    messages: await withReactionsAndReplies(messages),
+    nextCursor: hasMore ? messages[0].id : null,
   };
 }
 
+// Attach reactions and quoted-reply previews, as clients render them
+async function withReactionsAndReplies(messages: Message[]): Promise<MessageWithReactions[]> {
+  const replyToIds = Array.from(new Set(messages.map(m => m.replyToMessageId).filter((id): id is string => !!id)));
+  const [reactions, repliedTo] = await Promise.all([
+    storage.getMessageReactions(messages.map(m => m.id)),
+    storage.getMessagesByIds(replyToIds),
+  ]);
+  
+  return messages.map(message => {
+    const original = repliedTo.find(m => m.id === message.replyToMessageId);
+    return {
+      ...message,
+      reactions: reactions.filter(r => r.messageId === message.id),
+      replyTo: original ? toReplyPreview(original) : null,
+    };
+  });
+}
+
 interface AuthenticatedRequest extends Request {
   user?: User;
   file?: Express.Multer.File;
@@ -35,6 +181,37 @@ interface AuthenticatedRequest extends Request {
   logout: any; // Passport.js method - using any to avoid complex typing issues
 }
 
+// Admin console page sizes
+const ADMIN_USER_SEARCH_LIMIT = 50;
+const ADMIN_RECENT_ACTIVITY_LIMIT = 20;
+const AUDIT_EVENTS_PAGE_LIMIT = 200;
+// Exports are built in memory, so they stop at this many events
+const AUDIT_EXPORT_LIMIT = 10000;
+
+// Signed-in users with at least the given role (see USER_ROLES)
+function requireRole(role: UserRole) {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (!hasRole(req.user!, role)) return res.sendStatus(403);
+    next();
+  };
+}
+
+// Staff may only act on accounts below their own role - never on themselves or their peers
+function outranks(actor: User, target: User) {
+  return USER_ROLES.indexOf(actor.role as UserRole) > USER_ROLES.indexOf(target.role as UserRole);
+}
+
+function toAdminUser(user: User): AdminUser {
+  const { password, ...adminUser } = user;
+  return adminUser;
+}
+
+// What the audit log keeps of an account's suspension state
+function suspensionOf(user: User) {
+  return { suspendedAt: user.suspendedAt, suspendedUntil: user.suspendedUntil, suspensionReason: user.suspensionReason };
+}
+
 // Configure multer for file uploads
 const upload = multer({
   dest: 'uploads/',
@@ -66,9 +243,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { gender, location, ageMin, ageMax } = req.query;
       
       let users = await storage.getAllUsers();
+      const blockedUserIds = await storage.getBlockedUserIds(req.user!.id);
       
-      // Filter out current user
-      users = users.filter(user => user.id !== req.user!.id);
+      // Filter out current user, anyone blocked either way, and suspended accounts
+      users = users.filter(user => user.id !== req.user!.id && !blockedUserIds.includes(user.id) && !isSuspended(user));
       
       // Apply filters with validation
       if (gender && gender !== '') {
@@ -96,7 +274,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Return safe public profile data
-      res.json(users.map(toPublicUser));
+      res.json(users.map(user => toPublicUser(user, req.user!)));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch users" });
     }
@@ -110,9 +288,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { gender, location, ageMin, ageMax } = req.query;
       
       let users = await storage.getOnlineUsers();
+      const blockedUserIds = await storage.getBlockedUserIds(req.user!.id);
       
-      // Filter out current user
-      users = users.filter(user => user.id !== req.user!.id);
+      // Filter out current user, anyone blocked either way, suspended accounts,
+      // and anyone whose online status the viewer may not see
+      users = users.filter(user =>
+        user.id !== req.user!.id &&
+        !blockedUserIds.includes(user.id) &&
+        !isSuspended(user) &&
+        isVisibleTo(user, req.user!, "hideOnlineStatus")
+      );
       
       // Apply filters with validation
       if (gender && gender !== '') {
@@ -139,7 +324,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      res.json(users.map(toPublicUser));
+      res.json(users.map(user => toPublicUser(user, req.user!)));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch online users" });
     }
@@ -157,412 +342,1820 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Use /api/user for your own profile" });
       }
       
+      // To someone they blocked, a user appears not to exist - as do suspended
+      // accounts, except to staff
       const user = await storage.getUser(userId);
-      if (!user) {
+      if (!user || await storage.isBlocked(userId, req.user!.id)) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (isSuspended(user) && !hasRole(req.user!, "moderator")) {
         return res.status(404).json({ message: "User not found" });
       }
       
-      // Create profile view notification for the viewed user
-      try {
-        const notification = await storage.createNotification({
-          userId: userId,
-          type: "profile_view",
-          fromUserId: req.user!.id,
-        });
-        
-        // Send real-time notification to viewed user if they're online
-        const fromUser = await storage.getUser(req.user!.id);
-        if (fromUser) {
-          const sent = sendToUser(userId, {
-            type: 'newNotification',
-            notification: {
-              id: notification.id,
-              type: 'profile_view',
-              fromUserId: req.user!.id,
-              fromUserName: fromUser.firstName,
-              fromUserPhoto: fromUser.profilePhoto,
-              message: `${fromUser.firstName} viewed your profile.`,
-              createdAt: notification.createdAt
-            }
+      // Create profile view notification for the viewed user, unless either
+      // side is incognito (incognito users don't learn who viewed them either)
+      // or the viewer blocked them
+      if (!req.user!.incognito && !user.incognito && !(await storage.isBlocked(req.user!.id, userId))) {
+        try {
+          const notification = await storage.createNotification({
+            userId: userId,
+            type: "profile_view",
+            fromUserId: req.user!.id,
           });
+        
+          // Send real-time notification to viewed user if they're online
+          const fromUser = await storage.getUser(req.user!.id);
+          if (fromUser) {
+            sendToUser(userId, {
+              type: 'newNotification',
+              notification: {
+                id: notification.id,
+                type: 'profile_view',
+                fromUserId: req.user!.id,
+                fromUserName: fromUser.firstName,
+                fromUserPhoto: fromUser.profilePhoto,
+                message: `${fromUser.firstName} viewed your profile.`,
+                createdAt: notification.createdAt
+              }
+            });
           
-          if (sent) {
-            console.log(`Profile view notification sent to user ${userId} from ${fromUser.firstName}`);
+            if (isUserConnected(userId)) {
+              console.log(`Profile view notification sent to user ${userId} from ${fromUser.firstName}`);
+            }
           }
+        } catch (notificationError) {
+          // Don't fail the request if notification creation fails
+          console.error('Failed to create profile view notification:', notificationError);
         }
-      } catch (notificationError) {
-        // Don't fail the request if notification creation fails
-        console.error('Failed to create profile view notification:', notificationError);
       }
       
-      res.json(toPublicUser(user));
+      res.json(toPublicUser(user, req.user!));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch user profile" });
     }
   });
 
-  // Get user conversations
-  app.get("/api/conversations", async (req: AuthenticatedRequest, res: Response) => {
+  // Users the current user blocked, most recent first
+  app.get("/api/user/blocks", async (req: AuthenticatedRequest, res: Response) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const conversations = await storage.getUserConversations(req.user!.id);
-      // Sanitize user data in conversations
-      const safeConversations = conversations.map(conv => ({
-        ...conv,
-        otherUser: toPublicUser(conv.otherUser)
-      }));
-      res.json(safeConversations);
+      res.json(await storage.getBlockedUsers(req.user!.id));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch conversations" });
+      res.status(500).json({ message: "Failed to fetch blocked users" });
     }
   });
 
-  // Get messages for a conversation
-  app.get("/api/conversations/:userId/messages", async (req: AuthenticatedRequest, res: Response) => {
+  app.post("/api/users/:userId/block", async (req: AuthenticatedRequest, res: Response) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
       const { userId } = req.params;
-      let conversation = await storage.getConversation(req.user!.id, userId);
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "You can't block yourself" });
+      }
       
-      if (!conversation) {
-        // Create conversation if it doesn't exist
-        conversation = await storage.createConversation({
-          participant1Id: req.user!.id,
-          participant2Id: userId,
-        });
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
       
-      const messages = await storage.getMessages(conversation.id);
-      res.json(messages);
+      const block = await storage.blockUser(req.user!.id, userId);
+      await recordAuditEvent(req, "user_blocked", { targetUserId: userId });
+      res.status(201).json(block);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch messages" });
+      res.status(500).json({ message: "Failed to block user" });
     }
   });
 
-  // Update user profile
-  app.patch("/api/profile", async (req: AuthenticatedRequest, res: Response) => {
+  app.delete("/api/users/:userId/block", async (req: AuthenticatedRequest, res: Response) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const updates = req.body;
-      delete updates.id; // Prevent ID modification
-      delete updates.password; // Prevent password change through this route
-      
-      const updatedUser = await storage.updateUser(req.user!.id, updates);
-      if (!updatedUser) {
-        return res.status(404).json({ message: "User not found" });
-      }
-      
-      res.json(toPublicUser(updatedUser));
+      await storage.unblockUser(req.user!.id, req.params.userId);
+      await recordAuditEvent(req, "user_unblocked", { targetUserId: req.params.userId });
+      res.sendStatus(200);
     } catch (error) {
-      res.status(500).json({ message: "Failed to update profile" });
+      res.status(500).json({ message: "Failed to unblock user" });
     }
   });
 
-  // Get user's saved filter preferences
-  app.get("/api/user/filters", async (req: AuthenticatedRequest, res: Response) => {
+  // Ids of the users the current user liked, for marking their profiles
+  app.get("/api/user/likes", async (req: AuthenticatedRequest, res: Response) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const user = await storage.getUser(req.user!.id);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
-      
-      res.json({
-        gender: user.filterGender || "",
-        location: user.filterLocation || "",
-        ageMin: user.filterAgeMin || 20,
-        ageMax: user.filterAgeMax || 40,
-      });
+      res.json(await storage.getLikedUserIds(req.user!.id));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch filters" });
+      res.status(500).json({ message: "Failed to fetch likes" });
     }
   });
 
-  // Save/update user's filter preferences
-  app.patch("/api/user/filters", async (req: AuthenticatedRequest, res: Response) => {
+  app.post("/api/users/:userId/like", async (req: AuthenticatedRequest, res: Response) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const { gender, location, ageMin, ageMax } = req.body;
-      
-      const updatedUser = await storage.updateUser(req.user!.id, {
-        filterGender: gender || null,
-        filterLocation: location || null,
-        filterAgeMin: ageMin || null,
-        filterAgeMax: ageMax || null,
-      });
+      const { userId } = req.params;
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "You can't like your own profile" });
+      }
       
-      if (!updatedUser) {
+      const user = await storage.getUser(userId);
+      if (!user || (await storage.getBlockedUserIds(req.user!.id)).includes(userId)) {
         return res.status(404).json({ message: "User not found" });
       }
       
-      res.json({
-        gender: updatedUser.filterGender || "",
-        location: updatedUser.filterLocation || "",
-        ageMin: updatedUser.filterAgeMin || 20,
-        ageMax: updatedUser.filterAgeMax || 40,
-      });
+      const alreadyLiked = await storage.hasLiked(req.user!.id, userId);
+      const like = await storage.likeProfile(req.user!.id, userId);
+      
+      // Only the first like notifies, and incognito users like without being named
+      if (!alreadyLiked && !req.user!.incognito) {
+        try {
+          const notification = await storage.createNotification({
+            userId,
+            type: "profile_like",
+            fromUserId: req.user!.id,
+          });
+          sendToUser(userId, {
+            type: 'newNotification',
+            notification: {
+              id: notification.id,
+              type: 'profile_like',
+              fromUserId: req.user!.id,
+              fromUserName: req.user!.firstName,
+              fromUserPhoto: req.user!.profilePhoto,
+              message: `${req.user!.firstName} liked your profile.`,
+              createdAt: notification.createdAt
+            }
+          });
+        } catch (notificationError) {
+          console.error('Failed to create profile like notification:', notificationError);
+        }
+      }
+      
+      res.status(201).json(like);
     } catch (error) {
-      res.status(500).json({ message: "Failed to save filters" });
+      res.status(500).json({ message: "Failed to like profile" });
     }
   });
 
-  // Reset user's filter preferences to default
-  app.delete("/api/user/filters", async (req: AuthenticatedRequest, res: Response) => {
+  app.delete("/api/users/:userId/like", async (req: AuthenticatedRequest, res: Response) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const updatedUser = await storage.updateUser(req.user!.id, {
-        filterGender: null,
-        filterLocation: null,
-        filterAgeMin: null,
-        filterAgeMax: null,
-      });
+      await storage.unlikeProfile(req.user!.id, req.params.userId);
+      res.sendStatus(200);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to unlike profile" });
+    }
+  });
+
+  // Report a profile, or one of the user's messages
+  app.post("/api/reports", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    const parsed = createReportSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    
+    try {
+      const { targetUserId, messageId, reason, details } = parsed.data;
+      if (targetUserId === req.user!.id) {
+        return res.status(400).json({ message: "You can't report yourself" });
+      }
       
-      if (!updatedUser) {
+      const targetUser = await storage.getUser(targetUserId);
+      if (!targetUser) {
         return res.status(404).json({ message: "User not found" });
       }
       
-      res.json({
-        gender: "",
-        location: "",
-        ageMin: 20,
-        ageMax: 40,
+      // Only the reported user's messages, from a conversation the reporter is in,
+      // kept together with the messages leading up to it
+      let messageSnapshot: ReportedMessage[] | null = null;
+      if (messageId) {
+        const message = await storage.getMessage(messageId);
+        const conversation = message && await storage.getConversationById(message.conversationId);
+        if (!message || !conversation || message.senderId !== targetUserId ||
+            !(await getMemberIds(conversation)).includes(req.user!.id)) {
+          return res.status(404).json({ message: "Message not found" });
+        }
+        
+        const earlier = await storage.getMessages(conversation.id, { before: message.id, limit: REPORT_CONTEXT_MESSAGES });
+        messageSnapshot = [...earlier, message].map(toReportedMessage);
+      }
+      
+      const report = await storage.createReport({
+        reporterId: req.user!.id,
+        targetUserId,
+        messageId: messageId ?? null,
+        messageSnapshot,
+        reason,
+        details: details || null,
+      });
+      await recordAuditEvent(req, "report_created", {
+        targetUserId,
+        targetId: report.id,
+        after: { reason, messageId: report.messageId },
       });
+      res.status(201).json({ id: report.id, status: report.status });
     } catch (error) {
-      res.status(500).json({ message: "Failed to reset filters" });
+      res.status(500).json({ message: "Failed to submit report" });
     }
   });
 
-  // Upload profile picture
-  app.post("/api/upload/profile", upload.single('profilePicture'), async (req: AuthenticatedRequest, res: Response) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  // Admin console and moderation queue. Moderators can work reports, look up
+  // accounts, suspend them and remove content; roles, sessions and the full
+  // audit log are admin-only. Everything that changes something is audited.
+  const adminRouter = express.Router();
+  adminRouter.use(requireRole("moderator"));
+  app.use("/api/admin", adminRouter);
+
+  // Moderation queue: reports with the given status (open by default), oldest first
+  adminRouter.get("/reports", async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const status = REPORT_STATUSES.find(reportStatus => reportStatus === req.query.status) ?? "open";
+      res.json(await storage.getReports(status));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch reports" });
+    }
+  });
+
+  // Close an open report, optionally warning or suspending the reported user
+  adminRouter.patch("/reports/:reportId", async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = moderateReportSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
     
     try {
-      if (!req.file) {
-        return res.status(400).json({ message: "No file uploaded" });
+      const report = await storage.getReport(req.params.reportId);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      if (report.status !== "open") {
+        return res.status(400).json({ message: "This report has already been reviewed" });
       }
       
-      const profilePhotoUrl = `/uploads/${req.file.filename}`;
-      const updatedUser = await storage.updateUser(req.user!.id, { profilePhoto: profilePhotoUrl });
+      const { action, note, suspendDays } = parsed.data;
+      if (action === "warn") {
+        await warnUser(report.targetUserId, req.user!.id, report.reason, note);
+      } else if (action === "suspend") {
+        const targetUser = await storage.getUser(report.targetUserId);
+        if (!targetUser) {
+          return res.status(404).json({ message: "User not found" });
+        }
+        if (!outranks(req.user!, targetUser)) {
+          return res.status(403).json({ message: "You can't suspend this account" });
+        }
+        await suspendUser(targetUser.id, note || `Reported for ${report.reason.replace(/_/g, " ")}`, suspendDays);
+      }
       
-      res.json({ 
-        profilePhoto: profilePhotoUrl, 
-        user: updatedUser ? toPublicUser(updatedUser) : null 
+      const updatedReport = await storage.updateReport(report.id, {
+        status: action === "dismiss" ? "dismissed" : "resolved",
+        action: action === "warn" || action === "suspend" ? action : null,
+        moderatorNote: note || null,
+        reviewedBy: req.user!.id,
+        reviewedAt: new Date(),
       });
+      await recordAuditEvent(req, "report_reviewed", {
+        targetUserId: report.targetUserId,
+        targetId: report.id,
+        before: { status: report.status },
+        after: { status: updatedReport?.status, action: updatedReport?.action },
+        details: { note, suspendDays },
+      });
+      res.json(updatedReport);
     } catch (error) {
-      res.status(500).json({ message: "Failed to upload profile picture" });
+      res.status(500).json({ message: "Failed to update report" });
     }
   });
 
-  // Upload message image
-  app.post("/api/upload/message", upload.single('messageImage'), async (req: AuthenticatedRequest, res: Response) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  // Accounts whose username, email or name contains ?q= (all accounts without one), newest first
+  adminRouter.get("/users", async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = adminUserSearchSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
     
     try {
-      if (!req.file) {
-        return res.status(400).json({ message: "No file uploaded" });
+      const matches = await storage.searchUsers(parsed.data.q ?? "", ADMIN_USER_SEARCH_LIMIT);
+      res.json(matches.map(toAdminUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to search users" });
+    }
+  });
+
+  adminRouter.get("/users/:userId", async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = await storage.getUser(req.params.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
       
-      const imageUrl = `/uploads/${req.file.filename}`;
-      res.json({ imageUrl });
+      const [counts, activeSessions, recentActivity] = await Promise.all([
+        storage.getAccountActivityCounts(user.id),
+        storage.countUserSessions(user.id),
+        storage.getAuditEvents({ targetUserId: user.id, limit: ADMIN_RECENT_ACTIVITY_LIMIT }),
+      ]);
+      const details: AdminUserDetails = { ...toAdminUser(user), ...counts, activeSessions, recentActivity };
+      res.json(details);
     } catch (error) {
-      res.status(500).json({ message: "Failed to upload image" });
+      res.status(500).json({ message: "Failed to fetch user" });
     }
   });
 
-  // Multiple photos upload for profile gallery (max 5 photos)
-  app.post("/api/upload/photos", upload.array('photos', 5), async (req: AuthenticatedRequest, res: Response) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  adminRouter.post("/users/:userId/suspend", async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = suspendUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
     
     try {
-      if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
-        return res.status(400).json({ message: "No files uploaded" });
+      const user = await storage.getUser(req.params.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!outranks(req.user!, user)) {
+        return res.status(403).json({ message: "You can't suspend this account" });
       }
       
-      // Get current user to check existing photos
-      const currentUser = await storage.getUser(req.user!.id);
-      if (!currentUser) {
+      const { days, reason, note } = parsed.data;
+      const updated = await suspendUser(user.id, reason, days);
+      await recordAuditEvent(req, "user_suspended", {
+        targetUserId: user.id,
+        before: suspensionOf(user),
+        after: updated ? suspensionOf(updated) : null,
+        details: { days, reason, note },
+      });
+      res.json(updated ? toAdminUser(updated) : null);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to suspend user" });
+    }
+  });
+
+  adminRouter.delete("/users/:userId/suspend", async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = await storage.getUser(req.params.userId);
+      if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
-      
-      // Get existing photos count
-      const existingPhotos = currentUser.photos && Array.isArray(currentUser.photos) ? currentUser.photos : [];
-      const newPhotoUrls = req.files.map(file => `/uploads/${file.filename}`);
-      
-      // Ensure total photos don't exceed 5 (including existing ones)
-      const allPhotos = [...existingPhotos, ...newPhotoUrls];
-      if (allPhotos.length > 5) {
-        return res.status(400).json({ 
-          message: `Maximum 5 photos allowed. You currently have ${existingPhotos.length} photos.`,
-          maxPhotos: 5,
-          currentCount: existingPhotos.length,
-          attemptedUpload: newPhotoUrls.length
-        });
+      if (!outranks(req.user!, user)) {
+        return res.status(403).json({ message: "You can't unsuspend this account" });
+      }
+      if (!isSuspended(user)) {
+        return res.status(400).json({ message: "This account isn't suspended" });
       }
       
-      // Update user with new photos array
-      const updatedUser = await storage.updateUser(req.user!.id, { photos: allPhotos });
-      
-      res.json({ 
-        photos: allPhotos,
-        newPhotos: newPhotoUrls,
-        user: updatedUser ? toPublicUser(updatedUser) : null 
+      const updated = await storage.updateUser(user.id, { suspendedAt: null, suspendedUntil: null, suspensionReason: null });
+      await recordAuditEvent(req, "user_unsuspended", {
+        targetUserId: user.id,
+        before: suspensionOf(user),
+        after: updated ? suspensionOf(updated) : null,
       });
+      res.json(updated ? toAdminUser(updated) : null);
     } catch (error) {
-      console.error('Photo upload error:', error);
-      res.status(500).json({ message: "Failed to upload photos" });
+      res.status(500).json({ message: "Failed to unsuspend user" });
     }
   });
 
-  // Delete a photo from user's gallery
-  app.delete("/api/photos", async (req: AuthenticatedRequest, res: Response) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  adminRouter.patch("/users/:userId/role", requireRole("admin"), async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = updateUserRoleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
     
     try {
-      const { photoUrl } = req.body;
+      const user = await storage.getUser(req.params.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!outranks(req.user!, user)) {
+        return res.status(403).json({ message: "You can't change this account's role" });
+      }
+      
+      const updated = await storage.updateUser(user.id, { role: parsed.data.role });
+      await recordAuditEvent(req, "role_changed", {
+        targetUserId: user.id,
+        before: { role: user.role },
+        after: { role: parsed.data.role },
+      });
+      res.json(updated ? toAdminUser(updated) : null);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to change role" });
+    }
+  });
+
+  // Sign the user out on every device: drop their stored sessions and live sockets
+  adminRouter.delete("/users/:userId/sessions", requireRole("admin"), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = await storage.getUser(req.params.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!outranks(req.user!, user)) {
+        return res.status(403).json({ message: "You can't sign out this account" });
+      }
+      
+      const sessions = await storage.deleteUserSessions(user.id);
+      await disconnectUser(user.id);
+      await recordAuditEvent(req, "sessions_revoked", { targetUserId: user.id, details: { sessions } });
+      res.json({ sessions });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to sign out user" });
+    }
+  });
+
+  // Wipe rule-breaking profile fields (photo, gallery, bio)
+  adminRouter.post("/users/:userId/remove-content", async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = removeProfileContentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    
+    try {
+      const user = await storage.getUser(req.params.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!outranks(req.user!, user)) {
+        return res.status(403).json({ message: "You can't edit this account" });
+      }
+      
+      const { fields, note } = parsed.data;
+      const updates: Partial<User> = Object.fromEntries(fields.map(field => [field, null]));
+      const updated = await storage.updateUser(user.id, updates);
+      await recordAuditEvent(req, "profile_content_removed", {
+        targetUserId: user.id,
+        ...snapshotChanges(user, updates),
+        details: { fields, note },
+      });
+      res.json(updated ? toAdminUser(updated) : null);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove content" });
+    }
+  });
+
+  // Unsend someone's message the same way its sender could
+  adminRouter.delete("/messages/:messageId", async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const message = await storage.getMessage(req.params.messageId);
+      const conversation = message && await storage.getConversationById(message.conversationId);
+      if (!message || !conversation) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      if (message.deletedAt) {
+        return res.status(400).json({ message: "Message has already been deleted" });
+      }
+      
+      const sender = await storage.getUser(message.senderId);
+      if (sender && !outranks(req.user!, sender)) {
+        return res.status(403).json({ message: "You can't delete this message" });
+      }
+      
+      const updated = await unsendMessage(message, conversation);
+      await recordAuditEvent(req, "message_deleted", {
+        targetUserId: message.senderId,
+        targetId: message.id,
+        before: { content: message.content, imageUrl: message.imageUrl },
+        after: { deletedAt: updated?.deletedAt },
+      });
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete message" });
+    }
+  });
+
+  // Newest first, filtered by ?actorId=&targetUserId=&action=&from=&to=
+  adminRouter.get("/audit-events", requireRole("admin"), async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = auditEventQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    
+    try {
+      res.json(await storage.getAuditEvents({ ...parsed.data, limit: AUDIT_EVENTS_PAGE_LIMIT }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch audit events" });
+    }
+  });
+
+  // Same filters as above, downloaded as ?format=csv (default) or ndjson
+  adminRouter.get("/audit-events/export", requireRole("admin"), async (req: AuthenticatedRequest, res: Response) => {
+    const parsed = auditExportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    
+    try {
+      const { format, ...filter } = parsed.data;
+      const events = await storage.getAuditEvents({ ...filter, limit: AUDIT_EXPORT_LIMIT });
+      const filename = `audit-events-${new Date().toISOString().slice(0, 10)}.${format}`;
+      
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      if (format === "ndjson") {
+        res.type("application/x-ndjson").send(toNdjson(events));
+      } else {
+        res.type("text/csv").send(toCsv(events));
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export audit events" });
+    }
+  });
+
+  // Get user conversations
+  app.get("/api/conversations", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const conversations = await storage.getUserConversations(req.user!.id);
+      // Sanitize user data in conversations (groups only carry public member info).
+      // Declined requests leave the recipient's inbox, while the sender keeps
+      // seeing theirs as pending
+      const safeConversations = conversations
+        .filter(conv => !(conv.requestStatus === "declined" && conv.participant2Id === req.user!.id))
+        .map(conv => ({
+          ...conv,
+          requestStatus: conv.requestStatus === "declined" ? "pending" : conv.requestStatus,
+          otherUser: conv.otherUser ? toPublicUser(conv.otherUser, req.user!) : undefined,
+          members: conv.members && toPublicMembers(conv.members, req.user!),
+        }));
+      res.json(safeConversations);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch conversations" });
+    }
+  });
+
+  // Total unread messages across all conversations (for the Messages tab badge)
+  app.get("/api/conversations/unread-count", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const count = await storage.getUnreadMessageCount(req.user!.id);
+      res.json({ count });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch unread count" });
+    }
+  });
+
+  // Get messages for a conversation
+  app.get("/api/conversations/:userId/messages", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { userId } = req.params;
+      // The conversation only starts with the first message (see sendMessage)
+      const conversation = await storage.getConversation(req.user!.id, userId);
+      if (!conversation) {
+        const empty: MessagePage = { messages: [], nextCursor: null };
+        return res.json(empty);
+      }
+      
+      res.json(await getMessagePage(conversation.id, req.query));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  // Answer a message request from userId
+  app.post("/api/conversations/:userId/accept", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const conversation = await answerMessageRequest(req.user!.id, req.params.userId, "accepted");
+      if (!conversation) {
+        return res.status(404).json({ message: "Message request not found" });
+      }
+      res.json(conversation);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to accept message request" });
+    }
+  });
+
+  app.post("/api/conversations/:userId/decline", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const conversation = await answerMessageRequest(req.user!.id, req.params.userId, "declined");
+      if (!conversation) {
+        return res.status(404).json({ message: "Message request not found" });
+      }
+      res.sendStatus(200);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to decline message request" });
+    }
+  });
+
+  // Search the text of messages in the user's conversations: ?q=<terms>
+  app.get("/api/messages/search", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    const parsed = messageSearchSchema.safeParse({ q: req.query.q });
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    
+    try {
+      const [found, blockedIds] = await Promise.all([
+        storage.searchMessages(req.user!.id, parsed.data.q, MAX_SEARCH_RESULTS),
+        storage.getBlockedUserIds(req.user!.id),
+      ]);
+      // Group messages from blocked users are hidden from history, so from search too
+      const matches = found.filter(match => !blockedIds.includes(match.senderId));
+      
+      // Direct matches are labelled with the other user, group matches with the group
+      const otherUserIds = Array.from(new Set(matches.map(m => m.otherUserId).filter((id): id is string => !!id)));
+      const groupIds = Array.from(new Set(matches.filter(m => !m.otherUserId).map(m => m.conversationId)));
+      const [otherUsers, groups] = await Promise.all([
+        Promise.all(otherUserIds.map(id => storage.getUser(id))),
+        Promise.all(groupIds.map(id => storage.getConversationById(id))),
+      ]);
+      
+      const results = matches.flatMap(({ snippet, otherUserId, ...message }): MessageSearchResult[] => {
+        if (!otherUserId) {
+          const group = groups.find(g => g?.id === message.conversationId);
+          if (!group) return [];
+          return [{ message, snippet, group: { id: group.id, name: group.name, avatarUrl: group.avatarUrl } }];
+        }
+        
+        const otherUser = otherUsers.find(user => user?.id === otherUserId);
+        if (!otherUser) return [];
+        return [{
+          message,
+          snippet,
+          otherUser: {
+            id: otherUser.id,
+            firstName: otherUser.firstName,
+            lastName: otherUser.lastName,
+            profilePhoto: otherUser.profilePhoto,
+          },
+        }];
+      });
+      
+      res.json(results);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to search messages" });
+    }
+  });
+
+  // Edit own message (REST fallback for the editMessage WebSocket event)
+  app.patch("/api/messages/:messageId", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const result = await editOwnMessage(req.user!.id, req.params.messageId, req.body.content);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      res.json(result.message);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to edit message" });
+    }
+  });
+
+  // Unsend own message (REST fallback for the deleteMessage WebSocket event)
+  app.delete("/api/messages/:messageId", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const result = await deleteOwnMessage(req.user!.id, req.params.messageId);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      res.json(result.message);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete message" });
+    }
+  });
+
+  // Create a group chat; the creator becomes its owner
+  app.post("/api/groups", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    const parsed = createGroupSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    
+    try {
+      const ownerId = req.user!.id;
+      const memberIds = Array.from(new Set(parsed.data.memberIds)).filter(id => id !== ownerId);
+      const members = await Promise.all(memberIds.map(id => storage.getUser(id)));
+      if (memberIds.length === 0 || members.some(member => !member)) {
+        return res.status(400).json({ message: "Add at least one other existing user" });
+      }
+      const refused = await refuseGroupMembers(req.user!, members as User[]);
+      if (refused.length > 0) {
+        return res.status(403).json({ message: refused[0].message, members: refused });
+      }
+      
+      const { name, avatarUrl } = parsed.data;
+      const group = await storage.createGroupConversation({ name, avatarUrl }, ownerId, memberIds);
+      const details = await getMemberGroup(ownerId, group.id);
+      
+      notifyGroupUpdated(group.id, [ownerId, ...memberIds]);
+      res.status(201).json(toPublicGroup(details, req.user!));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create group" });
+    }
+  });
+
+  app.get("/api/groups/:groupId", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const group = await getMemberGroup(req.user!.id, req.params.groupId);
+      if (!group) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      res.json(toPublicGroup(group, req.user!));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch group" });
+    }
+  });
+
+  // Rename the group or change its avatar (owner only)
+  app.patch("/api/groups/:groupId", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    const parsed = updateGroupSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    
+    try {
+      const group = await getMemberGroup(req.user!.id, req.params.groupId);
+      if (!group) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      if (!isGroupOwner(group, req.user!.id)) {
+        return res.status(403).json({ message: "Only the group owner can do that" });
+      }
+      
+      await storage.updateConversation(group.id, parsed.data);
+      
+      notifyGroupUpdated(group.id, group.members.map(m => m.userId));
+      res.json(toPublicGroup(await getMemberGroup(req.user!.id, group.id), req.user!));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update group" });
+    }
+  });
+
+  // Add a member (owner only)
+  app.post("/api/groups/:groupId/members", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const group = await getMemberGroup(req.user!.id, req.params.groupId);
+      if (!group) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      if (!isGroupOwner(group, req.user!.id)) {
+        return res.status(403).json({ message: "Only the group owner can do that" });
+      }
+      
+      const { userId } = req.body;
+      const user = typeof userId === 'string' ? await storage.getUser(userId) : undefined;
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (group.members.some(m => m.userId === user.id)) {
+        return res.status(400).json({ message: "User is already in the group" });
+      }
+      if (group.members.length >= MAX_GROUP_MEMBERS) {
+        return res.status(400).json({ message: `Groups can have at most ${MAX_GROUP_MEMBERS} members` });
+      }
+      const refused = await refuseGroupMembers(req.user!, [user]);
+      if (refused.length > 0) {
+        return res.status(403).json({ message: refused[0].message, members: refused });
+      }
+      
+      await storage.addGroupMember(group.id, user.id);
+      
+      notifyGroupUpdated(group.id, [...group.members.map(m => m.userId), user.id]);
+      res.status(201).json(toPublicGroup(await getMemberGroup(req.user!.id, group.id), req.user!));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to add member" });
+    }
+  });
+
+  // Remove a member (owner only) or leave the group (any member removing themselves)
+  app.delete("/api/groups/:groupId/members/:userId", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const currentUserId = req.user!.id;
+      const { userId } = req.params;
+      const group = await getMemberGroup(currentUserId, req.params.groupId);
+      if (!group) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      if (userId !== currentUserId && !isGroupOwner(group, currentUserId)) {
+        return res.status(403).json({ message: "Only the group owner can do that" });
+      }
+      
+      const member = group.members.find(m => m.userId === userId);
+      if (!member) {
+        return res.status(404).json({ message: "User is not in the group" });
+      }
+      
+      await storage.removeGroupMember(group.id, userId);
+      
+      // An owner who leaves hands the group to the longest-standing member
+      const remaining = group.members.filter(m => m.userId !== userId);
+      if (member.role === "owner" && remaining.length > 0) {
+        await storage.updateGroupMember(group.id, remaining[0].userId, { role: "owner" });
+      }
+      
+      notifyGroupUpdated(group.id, group.members.map(m => m.userId));
+      res.sendStatus(200);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove member" });
+    }
+  });
+
+  // Get messages for a group
+  app.get("/api/groups/:groupId/messages", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const group = await getMemberGroup(req.user!.id, req.params.groupId);
+      if (!group) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      // Members on either side of a block don't see each other's messages
+      res.json(await getMessagePage(group.id, req.query, await storage.getBlockedUserIds(req.user!.id)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  // Update user profile; errors come as { message, errors: FieldError[] }
+  app.patch("/api/profile", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    const parsed = updateProfileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const errors = toFieldErrors(parsed.error);
+      return res.status(400).json({ message: errors[0].message, errors });
+    }
+    
+    try {
+      const updates = parsed.data;
+      const changes = snapshotChanges(req.user!, updates);
+      const updatedUser = await storage.updateUser(req.user!.id, updates);
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      if (Object.keys(changes.after).length > 0) {
+        await recordAuditEvent(req, "profile_updated", { targetUserId: updatedUser.id, ...changes });
+      }
+      res.json(toPublicUser(updatedUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update profile" });
+    }
+  });
+
+  // Get user's saved filter preferences
+  app.get("/api/user/filters", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      res.json({
+        gender: user.filterGender || "",
+        location: user.filterLocation || "",
+        ageMin: user.filterAgeMin || 20,
+        ageMax: user.filterAgeMax || 40,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch filters" });
+    }
+  });
+
+  // Choose available, busy or invisible; presence follows immediately
+  app.patch("/api/user/presence", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    const parsed = presenceStatusSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    
+    try {
+      const updatedUser = await storage.updateUser(req.user!.id, { presenceStatus: parsed.data.status });
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      await refreshPresence(updatedUser.id, updatedUser);
+      res.json({ presenceStatus: updatedUser.presenceStatus, presence: effectivePresence(updatedUser) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update status" });
+    }
+  });
+
+  // Hide online status / last seen, or browse incognito
+  app.patch("/api/user/privacy", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    const parsed = privacySettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    
+    try {
+      const updatedUser = await storage.updateUser(req.user!.id, parsed.data);
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      updateViewerPrivacy(updatedUser.id, privacyOf(updatedUser));
+      
+      // Others see the user go offline when they hide their status, and come back when they show it again
+      if (updatedUser.hideOnlineStatus !== req.user!.hideOnlineStatus) {
+        broadcastPresence({ ...privacyOf(updatedUser), hideOnlineStatus: false }, {
+          type: 'presenceChanged',
+          userId: updatedUser.id,
+          presence: updatedUser.hideOnlineStatus ? "offline" : effectivePresence(updatedUser),
+          lastSeen: updatedUser.lastSeen,
+        });
+      }
+      
+      res.json(privacyOf(updatedUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update privacy settings" });
+    }
+  });
+
+  // Who may start a conversation with the user (existing conversations carry on)
+  app.patch("/api/user/message-policy", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    const parsed = messagePolicySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    
+    try {
+      const updatedUser = await storage.updateUser(req.user!.id, { messagePolicy: parsed.data.messagePolicy });
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      res.json({ messagePolicy: updatedUser.messagePolicy });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update messaging setting" });
+    }
+  });
+
+  // Save/update user's filter preferences
+  app.patch("/api/user/filters", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { gender, location, ageMin, ageMax } = req.body;
+      
+      const updatedUser = await storage.updateUser(req.user!.id, {
+        filterGender: gender || null,
+        filterLocation: location || null,
+        filterAgeMin: ageMin || null,
+        filterAgeMax: ageMax || null,
+      });
+      
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      res.json({
+        gender: updatedUser.filterGender || "",
+        location: updatedUser.filterLocation || "",
+        ageMin: updatedUser.filterAgeMin || 20,
+        ageMax: updatedUser.filterAgeMax || 40,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to save filters" });
+    }
+  });
+
+  // Reset user's filter preferences to default
+  app.delete("/api/user/filters", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const updatedUser = await storage.updateUser(req.user!.id, {
+        filterGender: null,
+        filterLocation: null,
+        filterAgeMin: null,
+        filterAgeMax: null,
+      });
+      
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      res.json({
+        gender: "",
+        location: "",
+        ageMin: 20,
+        ageMax: 40,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset filters" });
+    }
+  });
+
+  // Upload profile picture
+  app.post("/api/upload/profile", upload.single('profilePicture'), async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      
+      const profilePhotoUrl = `/uploads/${req.file.filename}`;
+      const updatedUser = await storage.updateUser(req.user!.id, { profilePhoto: profilePhotoUrl });
+      
+      res.json({ 
+        profilePhoto: profilePhotoUrl, 
+        user: updatedUser ? toPublicUser(updatedUser) : null 
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to upload profile picture" });
+    }
+  });
+
+  // Upload message image
+  app.post("/api/upload/message", upload.single('messageImage'), async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      
+      const imageUrl = `/uploads/${req.file.filename}`;
+      res.json({ imageUrl });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to upload image" });
+    }
+  });
+
+  // Multiple photos upload for profile gallery (max 5 photos)
+  app.post("/api/upload/photos", upload.array('photos', 5), async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
+        return res.status(400).json({ message: "No files uploaded" });
+      }
+      
+      // Get current user to check existing photos
+      const currentUser = await storage.getUser(req.user!.id);
+      if (!currentUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      // Get existing photos count
+      const existingPhotos = currentUser.photos && Array.isArray(currentUser.photos) ? currentUser.photos : [];
+      const newPhotoUrls = req.files.map(file => `/uploads/${file.filename}`);
+      
+      // Ensure total photos don't exceed 5 (including existing ones)
+      const allPhotos = [...existingPhotos, ...newPhotoUrls];
+      if (allPhotos.length > 5) {
+        return res.status(400).json({ 
+          message: `Maximum 5 photos allowed. You currently have ${existingPhotos.length} photos.`,
+          maxPhotos: 5,
+          currentCount: existingPhotos.length,
+          attemptedUpload: newPhotoUrls.length
+        });
+      }
+      
+      // Update user with new photos array
+      const updatedUser = await storage.updateUser(req.user!.id, { photos: allPhotos });
+      
+      res.json({ 
+        photos: allPhotos,
+        newPhotos: newPhotoUrls,
+        user: updatedUser ? toPublicUser(updatedUser) : null 
+      });
+    } catch (error) {
+      console.error('Photo upload error:', error);
+      res.status(500).json({ message: "Failed to upload photos" });
+    }
+  });
+
+  // Delete a photo from user's gallery
+  app.delete("/api/photos", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { photoUrl } = req.body;
       
       if (!photoUrl) {
         return res.status(400).json({ message: "Photo URL is required" });
       }
-      
-      const currentUser = await storage.getUser(req.user!.id);
-      if (!currentUser) {
-        return res.status(404).json({ message: "User not found" });
+      
+      const currentUser = await storage.getUser(req.user!.id);
+      if (!currentUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const existingPhotos = currentUser.photos && Array.isArray(currentUser.photos) ? currentUser.photos : [];
+      const updatedPhotos = existingPhotos.filter(photo => photo !== photoUrl);
+      
+      if (existingPhotos.length === updatedPhotos.length) {
+        return res.status(404).json({ message: "Photo not found in gallery" });
+      }
+      
+      const updatedUser = await storage.updateUser(req.user!.id, { photos: updatedPhotos });
+      await recordAuditEvent(req, "photo_deleted", {
+        targetUserId: req.user!.id,
+        before: { photos: existingPhotos },
+        after: { photos: updatedPhotos },
+        details: { photoUrl },
+      });
+      
+      res.json({ 
+        photos: updatedPhotos,
+        user: updatedUser ? toPublicUser(updatedUser) : null 
+      });
+    } catch (error) {
+      console.error('Photo delete error:', error);
+      res.status(500).json({ message: "Failed to delete photo" });
+    }
+  });
+
+  // Notification routes
+  app.get("/api/notifications", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const notifications = await storage.getUserNotifications(req.user!.id);
+      res.json(notifications.map(notification => ({
+        ...notification,
+        fromUser: toPublicUser(notification.fromUser, req.user!),
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.get("/api/notifications/unread-count", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const count = await storage.getUnreadNotificationCount(req.user!.id);
+      res.json({ count });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch unread count" });
+    }
+  });
+
+  app.post("/api/notifications/mark-read/:id", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { id } = req.params;
+      await storage.markNotificationAsRead(id);
+      res.sendStatus(200);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to mark notification as read" });
+    }
+  });
+
+  app.post("/api/notifications/mark-all-read", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      await storage.markAllNotificationsAsRead(req.user!.id);
+      res.sendStatus(200);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to mark all notifications as read" });
+    }
+  });
+
+  app.delete("/api/notifications/:id", async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { id } = req.params;
+      await storage.deleteNotification(id);
+      res.sendStatus(200);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete notification" });
+    }
+  });
+
+  const httpServer = createServer(app);
+
+  // Setup WebSocket server
+  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+  
+  // Connections held by this node; other nodes report theirs over storage.pubsub
+  const connectedUsers = new Map<string, Set<WebSocket>>(); // userId -> one socket per open tab/device
+  const activeChatWindows = new Map<WebSocket, Set<string>>(); // socket -> Set of chat keys (see chatKey) it has chat windows open with
+  const aliveSockets = new WeakSet<WebSocket>(); // sockets that answered the last heartbeat ping
+  const idleSockets = new WeakSet<WebSocket>(); // sockets whose client reported no recent user activity
+  const viewerPrivacy = new Map<string, PrivacySettings>(); // userId -> settings deciding which presence they're sent
+  
+  const nodeId = randomUUID();
+  const remoteNodes = new Map<string, { users: Map<string, ConnectionState>; lastHeardAt: number }>(); // nodeId -> userId -> their connections there
+  
+  // A connection that dropped without a TCP close never emits 'close' on its own;
+  // terminating it does, which runs the usual offline cleanup
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!aliveSockets.has(ws)) {
+        console.log('Terminating WebSocket connection that missed a heartbeat');
+        ws.terminate();
+        return;
+      }
+      
+      aliveSockets.delete(ws);
+      ws.ping();
+    });
+    
+    // Doubles as this node's liveness signal to the rest of the cluster
+    publishNodeState();
+    expireRemoteNodes();
+    reconcileOnlineStatuses().catch(error => console.error('Failed to reconcile online statuses:', error));
+  }, HEARTBEAT_INTERVAL_MS);
+  
+  wss.on('close', () => clearInterval(heartbeat));
+  
+  function sendEvent(ws: WebSocket, event: ServerEvent) {
+    ws.send(JSON.stringify(event));
+  }
+  
+  function sendToSockets(sockets: Set<WebSocket> | undefined, event: ServerEvent) {
+    sockets?.forEach((ws) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        sendEvent(ws, event);
+      }
+    });
+  }
+  
+  function publishToCluster(message: ClusterMessage) {
+    storage.pubsub.publish(REALTIME_CHANNEL, { origin: nodeId, ...message })
+      .catch(error => console.error('Failed to publish realtime event:', error));
+  }
+  
+  function broadcastToAll(message: ServerEvent) {
+    connectedUsers.forEach(sockets => sendToSockets(sockets, message));
+    publishToCluster({ kind: 'broadcast', event: message });
+  }
+
+  // Send to every open connection of the user, whichever node holds it
+  function sendToUser(userId: string, message: ServerEvent) {
+    sendToSockets(connectedUsers.get(userId), message);
+    if (isConnectedElsewhere(userId)) {
+      publishToCluster({ kind: 'deliver', userId, event: message });
+    }
+  }
+
+  function isConnectedElsewhere(userId: string) {
+    return Array.from(remoteNodes.values()).some(node => node.users.has(userId));
+  }
+
+  function isUserConnected(userId: string) {
+    return Array.from(connectedUsers.get(userId) ?? []).some(ws => ws.readyState === WebSocket.OPEN)
+      || isConnectedElsewhere(userId);
+  }
+
+  // Whether any of the user's tabs/devices, on any node, is showing the chat
+  function hasChatWindowOpen(userId: string, key: string) {
+    return Array.from(connectedUsers.get(userId) ?? []).some(ws => activeChatWindows.get(ws)?.has(key))
+      || Array.from(remoteNodes.values()).some(node => node.users.get(userId)?.chatKeys.includes(key));
+  }
+
+  // Away once every connection of the user, on every node, is idle
+  function isUserIdle(userId: string) {
+    const local = localConnectionState(userId);
+    const remote = Array.from(remoteNodes.values()).flatMap(node => node.users.get(userId) ?? []);
+    return (local?.idle ?? true) && remote.every(state => state.idle);
+  }
+
+  // This node's connections of the user; null if it has none
+  function localConnectionState(userId: string): ConnectionState | null {
+    const sockets = connectedUsers.get(userId);
+    if (!sockets?.size) return null;
+    
+    const keys = new Set<string>();
+    sockets.forEach(ws => activeChatWindows.get(ws)?.forEach(key => keys.add(key)));
+    return {
+      chatKeys: Array.from(keys),
+      idle: Array.from(sockets).every(ws => idleSockets.has(ws)),
+    };
+  }
+
+  function publishUserState(userId: string) {
+    publishToCluster({ kind: 'userState', userId, state: localConnectionState(userId) });
+  }
+
+  function publishNodeState() {
+    const users: Record<string, ConnectionState> = {};
+    connectedUsers.forEach((_, userId) => {
+      const state = localConnectionState(userId);
+      if (state) users[userId] = state;
+    });
+    publishToCluster({ kind: 'nodeState', users });
+  }
+
+  function getRemoteNode(id: string) {
+    const node = remoteNodes.get(id) ?? { users: new Map<string, ConnectionState>(), lastHeardAt: 0 };
+    node.lastHeardAt = Date.now();
+    remoteNodes.set(id, node);
+    return node;
+  }
+
+  // Forget nodes that stopped reporting (crashed or cut off); their users go
+  // offline on the next reconcile unless they're connected somewhere else
+  function expireRemoteNodes() {
+    const cutoff = Date.now() - NODE_TIMEOUT_MS;
+    remoteNodes.forEach((node, id) => {
+      if (node.lastHeardAt < cutoff) {
+        console.log(`Realtime node ${id} stopped reporting; dropping its connections`);
+        remoteNodes.delete(id);
+      }
+    });
+  }
+
+  // What others see, from the user's chosen status and their connections anywhere in the cluster
+  function effectivePresence(user: User): Presence {
+    if (!isUserConnected(user.id) || user.presenceStatus === "invisible") return "offline";
+    if (user.presenceStatus === "busy") return "busy";
+    return isUserIdle(user.id) ? "away" : "online";
+  }
+
+  // Store and announce the user's presence if it changed
+  async function refreshPresence(userId: string, knownUser?: User) {
+    const user = knownUser ?? await storage.getUser(userId);
+    if (!user) return;
+    
+    const presence = effectivePresence(user);
+    if (presence === user.presence) return;
+    
+    const updated = await storage.setUserPresence(userId, presence);
+    broadcastPresence(user, { type: 'presenceChanged', userId, presence, lastSeen: updated?.lastSeen ?? null });
+  }
+
+  // Presence changes only reach users allowed to see them (see isVisibleTo);
+  // the user's own tabs always get theirs
+  function deliverPresence(subject: PrivacySettings, event: ServerEventOf<"presenceChanged">) {
+    connectedUsers.forEach((sockets, viewerId) => {
+      if (viewerId === event.userId) {
+        sendToSockets(sockets, event);
+        return;
+      }
+      
+      const viewer = viewerPrivacy.get(viewerId);
+      if (!viewer || !isVisibleTo(subject, viewer, "hideOnlineStatus")) return;
+      sendToSockets(sockets, isVisibleTo(subject, viewer, "hideLastSeen") ? event : { ...event, lastSeen: null });
+    });
+  }
+
+  function broadcastPresence(subject: PrivacySettings, event: ServerEventOf<"presenceChanged">) {
+    deliverPresence(subject, event);
+    publishToCluster({ kind: 'presence', privacy: privacyOf(subject), event });
+  }
+
+  // Keep the node holding the user's connections up to date, wherever the change was made
+  function updateViewerPrivacy(userId: string, privacy: PrivacySettings) {
+    if (connectedUsers.has(userId)) {
+      viewerPrivacy.set(userId, privacy);
+    }
+    publishToCluster({ kind: 'privacyChanged', userId, privacy });
+  }
+
+  // Correct presence that doesn't match who is connected: left over from a
+  // previous run or a crashed node, or from two nodes racing on the same user
+  async function reconcileOnlineStatuses() {
+    const onlineUsers = await storage.getOnlineUsers();
+    for (const user of onlineUsers) {
+      await refreshPresence(user.id, user);
+    }
+    for (const userId of Array.from(connectedUsers.keys())) {
+      if (!onlineUsers.some(user => user.id === userId)) {
+        await refreshPresence(userId);
+      }
+    }
+  }
+
+  storage.pubsub.subscribe(REALTIME_CHANNEL, (payload) => {
+    const message = payload as ClusterMessage & { origin: string };
+    if (message.origin === nodeId) return;
+    
+    switch (message.kind) {
+      case 'deliver':
+        sendToSockets(connectedUsers.get(message.userId), message.event);
+        break;
+        
+      case 'broadcast':
+        connectedUsers.forEach(sockets => sendToSockets(sockets, message.event));
+        break;
+        
+      case 'nodeState':
+        getRemoteNode(message.origin).users = new Map(Object.entries(message.users));
+        break;
+        
+      case 'userState':
+        const remoteUsers = getRemoteNode(message.origin).users;
+        if (message.state) {
+          remoteUsers.set(message.userId, message.state);
+        } else {
+          remoteUsers.delete(message.userId);
+        }
+        break;
+        
+      case 'hello':
+        publishNodeState();
+        break;
+        
+      case 'presence':
+        deliverPresence(message.privacy, message.event);
+        break;
+        
+      case 'privacyChanged':
+        if (connectedUsers.has(message.userId)) {
+          viewerPrivacy.set(message.userId, message.privacy);
+        }
+        break;
+        
+      case 'disconnectUser':
+        // Logged out or suspended through another node; the close handlers do the cleanup
+        connectedUsers.get(message.userId)?.forEach(ws => ws.close(message.close?.code, message.close?.reason));
+        break;
+    }
+  })
+    .then(() => publishToCluster({ kind: 'hello' }))
+    .catch(error => console.error('Failed to subscribe to realtime events:', error));
+  
+  // Once the other nodes have answered, drop online flags nobody is connected for
+  setTimeout(() => {
+    reconcileOnlineStatuses().catch(error => console.error('Failed to reconcile online statuses:', error));
+  }, CLUSTER_SYNC_GRACE_MS);
+
+  // How a user's client identifies a conversation: the other participant for
+  // direct chats, the conversation itself for groups
+  function chatKey(conversation: Conversation, userId: string): string {
+    if (conversation.isGroup) return conversation.id;
+    return conversation.participant1Id === userId ? conversation.participant2Id! : conversation.participant1Id!;
+  }
+
+  // Same, as the field clients look for on events
+  function chatRef(conversation: Conversation, userId: string) {
+    const key = chatKey(conversation, userId);
+    return conversation.isGroup ? { groupId: key } : { otherUserId: key };
+  }
+
+  async function getMemberIds(conversation: Conversation): Promise<string[]> {
+    if (!conversation.isGroup) return [conversation.participant1Id!, conversation.participant2Id!];
+    return (await storage.getGroupMembers(conversation.id)).map(m => m.userId);
+  }
+
+  // Send an event to every member of a conversation, tagged with their chatRef
+  async function sendToConversation(
+    conversation: Conversation,
+    event: ServerEventOf<"messagesRead" | "messageUpdated" | "messageReactionsUpdated">,
+    exceptUserId?: string,
+  ) {
+    const memberIds = await getMemberIds(conversation);
+    memberIds
+      .filter(memberId => memberId !== exceptUserId)
+      .forEach(memberId => sendToUser(memberId, { ...event, ...chatRef(conversation, memberId) }));
+  }
+
+  // Group with its members, if the user belongs to it
+  async function getMemberGroup(userId: string, groupId: string): Promise<GroupDetails | null> {
+    const conversation = await storage.getConversationById(groupId);
+    if (!conversation?.isGroup) return null;
+    
+    const members = await storage.getGroupMembers(groupId);
+    if (!members.some(m => m.userId === userId)) return null;
+    return { ...conversation, members };
+  }
+
+  function isGroupOwner(group: GroupDetails, userId: string) {
+    return group.members.some(m => m.userId === userId && m.role === "owner");
+  }
+
+  // Members `adder` may not put in a group. Group messages reach every member,
+  // so this follows the rules for starting a direct chat: no blocks either way,
+  // and the member's "who can message me" setting has to allow the adder
+  async function refuseGroupMembers(adder: User, members: User[]): Promise<RefusedGroupMember[]> {
+    const blockedIds = await storage.getBlockedUserIds(adder.id);
+    const refusals = await Promise.all(members.map(async (member): Promise<RefusedGroupMember | null> => {
+      if (blockedIds.includes(member.id)) {
+        return { userId: member.id, message: `You can't add ${member.firstName} to a group` };
+      }
+      if (!(await acceptsMessagesFrom(member, adder))) {
+        return { userId: member.id, message: `${member.firstName} isn't accepting messages from you` };
       }
-      
-      const existingPhotos = currentUser.photos && Array.isArray(currentUser.photos) ? currentUser.photos : [];
-      const updatedPhotos = existingPhotos.filter(photo => photo !== photoUrl);
-      
-      if (existingPhotos.length === updatedPhotos.length) {
-        return res.status(404).json({ message: "Photo not found in gallery" });
+      return null;
+    }));
+    return refusals.filter((refusal): refusal is RefusedGroupMember => refusal !== null);
+  }
+
+  // Membership, name or avatar changed - clients refetch the group and their inbox
+  function notifyGroupUpdated(groupId: string, userIds: string[]) {
+    userIds.forEach(userId => sendToUser(userId, { type: 'groupUpdated', groupId }));
+  }
+
+  // Tell each sender which of their messages just reached the recipient
+  function notifyMessagesDelivered(recipientId: string, deliveredMessages: Message[]) {
+    const byChat = new Map<string, Message[]>();
+    deliveredMessages.forEach((msg) => {
+      const key = `${msg.senderId}:${msg.conversationId}`;
+      if (!byChat.has(key)) {
+        byChat.set(key, []);
       }
-      
-      const updatedUser = await storage.updateUser(req.user!.id, { photos: updatedPhotos });
-      
-      res.json({ 
-        photos: updatedPhotos,
-        user: updatedUser ? toPublicUser(updatedUser) : null 
+      byChat.get(key)!.push(msg);
+    });
+    
+    byChat.forEach((chatMessages) => {
+      const { senderId, conversationId } = chatMessages[0];
+      sendToUser(senderId, {
+        type: 'messagesDelivered',
+        recipientId,
+        conversationId,
+        messageIds: chatMessages.map(m => m.id),
+        deliveredAt: chatMessages[0].deliveredAt,
       });
-    } catch (error) {
-      console.error('Photo delete error:', error);
-      res.status(500).json({ message: "Failed to delete photo" });
-    }
-  });
+    });
+  }
 
-  // Notification routes
-  app.get("/api/notifications", async (req: AuthenticatedRequest, res: Response) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  type MessageActionResult =
+    | { ok: true; message: Message }
+    | { ok: false; status: number; error: string };
+
+  // Load a message from one of the user's conversations, along with that conversation
+  async function getParticipantMessage(userId: string, messageId: string) {
+    const message = await storage.getMessage(messageId);
+    if (!message) return null;
     
-    try {
-      const notifications = await storage.getUserNotifications(req.user!.id);
-      res.json(notifications.map(notification => ({
-        ...notification,
-        fromUser: toPublicUser(notification.fromUser),
-      })));
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch notifications" });
-    }
-  });
+    const conversation = await storage.getConversationById(message.conversationId);
+    if (!conversation) return null;
+    if (!(await getMemberIds(conversation)).includes(userId)) return null;
+    
+    return { message, conversation };
+  }
 
-  app.get("/api/notifications/unread-count", async (req: AuthenticatedRequest, res: Response) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  // Same as above, restricted to messages the user sent
+  async function getOwnMessage(userId: string, messageId: string) {
+    const participantMessage = await getParticipantMessage(userId, messageId);
+    if (!participantMessage || participantMessage.message.senderId !== userId) return null;
+    return participantMessage;
+  }
+
+  // Propagate an edit/unsend to every member (the sender may have other views open)
+  async function notifyMessageUpdated(message: Message, conversation: Conversation) {
+    await sendToConversation(conversation, { type: 'messageUpdated', message });
+  }
+
+  async function editOwnMessage(userId: string, messageId: string, content: unknown): Promise<MessageActionResult> {
+    const parsed = editMessageSchema.safeParse({ content });
+    if (!parsed.success) {
+      return { ok: false, status: 400, error: parsed.error.errors[0].message };
+    }
     
-    try {
-      const count = await storage.getUnreadNotificationCount(req.user!.id);
-      res.json({ count });
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch unread count" });
+    const own = await getOwnMessage(userId, messageId);
+    if (!own) return { ok: false, status: 404, error: "Message not found" };
+    if (own.message.deletedAt) return { ok: false, status: 400, error: "Message has been deleted" };
+    if (!own.message.content) return { ok: false, status: 400, error: "Only text messages can be edited" };
+    
+    const sentAt = new Date(own.message.timestamp!).getTime();
+    if (Date.now() - sentAt > MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000) {
+      return { ok: false, status: 403, error: `Messages can only be edited within ${MESSAGE_EDIT_WINDOW_MINUTES} minutes of sending` };
     }
-  });
+    
+    const updated = await storage.updateMessage(messageId, {
+      content: parsed.data.content,
+      editedAt: new Date(),
+    });
+    if (!updated) return { ok: false, status: 404, error: "Message not found" };
+    
+    await notifyMessageUpdated(updated, own.conversation);
+    return { ok: true, message: updated };
+  }
 
-  app.post("/api/notifications/mark-read/:id", async (req: AuthenticatedRequest, res: Response) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  // Keep the row as a "message deleted" placeholder but drop what was said
+  async function unsendMessage(message: Message, conversation: Conversation) {
+    const updated = await storage.updateMessage(message.id, {
+      content: null,
+      imageUrl: null,
+      deletedAt: new Date(),
+    });
+    if (updated) await notifyMessageUpdated(updated, conversation);
+    return updated;
+  }
+
+  async function deleteOwnMessage(userId: string, messageId: string): Promise<MessageActionResult> {
+    const own = await getOwnMessage(userId, messageId);
+    if (!own) return { ok: false, status: 404, error: "Message not found" };
+    if (own.message.deletedAt) return { ok: true, message: own.message };
     
-    try {
-      const { id } = req.params;
-      await storage.markNotificationAsRead(id);
-      res.sendStatus(200);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to mark notification as read" });
+    const updated = await unsendMessage(own.message, own.conversation);
+    if (!updated) return { ok: false, status: 404, error: "Message not found" };
+    return { ok: true, message: updated };
+  }
+
+  // Toggle the user's reaction: same emoji removes it, a different one replaces it
+  async function reactToMessage(userId: string, messageId: string, emoji: unknown): Promise<MessageActionResult> {
+    const parsed = insertMessageReactionSchema.safeParse({ messageId, userId, emoji });
+    if (!parsed.success) {
+      return { ok: false, status: 400, error: parsed.error.errors[0].message };
     }
-  });
+    
+    const target = await getParticipantMessage(userId, messageId);
+    if (!target) return { ok: false, status: 404, error: "Message not found" };
+    if (target.message.deletedAt) return { ok: false, status: 400, error: "Message has been deleted" };
+    
+    const existing = (await storage.getMessageReactions([messageId])).find(r => r.userId === userId);
+    if (existing && existing.emoji === parsed.data.emoji) {
+      await storage.removeMessageReaction(messageId, userId);
+    } else {
+      await storage.setMessageReaction(parsed.data);
+    }
+    
+    const reactions = await storage.getMessageReactions([messageId]);
+    await sendToConversation(target.conversation, { type: 'messageReactionsUpdated', messageId, reactions });
+    
+    return { ok: true, message: target.message };
+  }
 
-  app.post("/api/notifications/mark-all-read", async (req: AuthenticatedRequest, res: Response) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  // Push a fresh unread count for one conversation plus the overall total
+  async function sendUnreadCount(userId: string, conversation: Conversation) {
+    const [unreadCount, totalUnreadCount] = await Promise.all([
+      storage.getUnreadMessageCount(userId, conversation.id),
+      storage.getUnreadMessageCount(userId),
+    ]);
+    
+    sendToUser(userId, {
+      type: 'unreadCountUpdated',
+      conversationId: conversation.id,
+      ...chatRef(conversation, userId),
+      unreadCount,
+      totalUnreadCount,
+    });
+  }
+
+  // In-app notification for a new message, unless sender and recipient are both looking at the chat
+  async function notifyMessageReceived(recipientId: string, conversation: Conversation, sender: User) {
+    // Group messages still reach members who blocked the sender, but don't notify them
+    if (await storage.isBlocked(recipientId, sender.id)) return;
     
+    const senderHasChatOpen = hasChatWindowOpen(sender.id, chatKey(conversation, sender.id));
+    const recipientHasChatOpen = hasChatWindowOpen(recipientId, chatKey(conversation, recipientId));
+    if (senderHasChatOpen && recipientHasChatOpen) return;
+    
+    const isRequest = conversation.requestStatus === "pending";
     try {
-      await storage.markAllNotificationsAsRead(req.user!.id);
-      res.sendStatus(200);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to mark all notifications as read" });
+      const notification = await storage.createNotification({
+        userId: recipientId,
+        type: isRequest ? "message_request" : "message_received",
+        fromUserId: sender.id,
+        conversationId: conversation.id,
+      });
+      
+      // Send real-time notification to the recipient if they're online
+      sendToUser(recipientId, {
+        type: 'newNotification',
+        notification: {
+          id: notification.id,
+          type: isRequest ? 'message_request' : 'message_received',
+          fromUserId: sender.id,
+          fromUserName: sender.firstName,
+          fromUserPhoto: sender.profilePhoto,
+          message: conversation.isGroup
+            ? `${sender.firstName} sent a message in ${conversation.name}.`
+            : isRequest
+              ? `${sender.firstName} sent you a message request.`
+              : `${sender.firstName} sent you a message.`,
+          createdAt: notification.createdAt
+        }
+      });
+    } catch (notificationError) {
+      console.error('Failed to create message notification:', notificationError);
     }
-  });
+  }
 
-  app.delete("/api/notifications/:id", async (req: AuthenticatedRequest, res: Response) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  // The recipient of a message request accepts or declines it (a declined one
+  // can still be accepted later). Only acceptance reaches the sender, with a
+  // notification unless it came as a reply, which notifies by itself
+  async function answerMessageRequest(recipientId: string, requesterId: string, requestStatus: "accepted" | "declined", notifySender = true) {
+    const conversation = await storage.getConversation(recipientId, requesterId);
+    if (!conversation || conversation.participant2Id !== recipientId || conversation.requestStatus === "accepted") {
+      return undefined;
+    }
     
-    try {
-      const { id } = req.params;
-      await storage.deleteNotification(id);
-      res.sendStatus(200);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to delete notification" });
+    const updated = await storage.updateConversation(conversation.id, { requestStatus });
+    if (!updated) return undefined;
+    
+    sendToUser(recipientId, { type: 'messageRequestUpdated', conversationId: updated.id, otherUserId: requesterId, requestStatus });
+    if (requestStatus !== "accepted") return updated;
+    
+    sendToUser(requesterId, { type: 'messageRequestUpdated', conversationId: updated.id, otherUserId: recipientId, requestStatus });
+    const recipient = notifySender ? await storage.getUser(recipientId) : undefined;
+    if (recipient) {
+      try {
+        const notification = await storage.createNotification({
+          userId: requesterId,
+          type: "message_request_accepted",
+          fromUserId: recipientId,
+          conversationId: updated.id,
+        });
+        
+        sendToUser(requesterId, {
+          type: 'newNotification',
+          notification: {
+            id: notification.id,
+            type: 'message_request_accepted',
+            fromUserId: recipientId,
+            fromUserName: recipient.firstName,
+            fromUserPhoto: recipient.profilePhoto,
+            message: `${recipient.firstName} accepted your message request.`,
+            createdAt: notification.createdAt
+          }
+        });
+      } catch (notificationError) {
+        console.error('Failed to create message request notification:', notificationError);
+      }
     }
-  });
+    return updated;
+  }
 
-  const httpServer = createServer(app);
+  // Close every WebSocket connection of the user (all tabs/devices share the session)
+  async function disconnectUser(userId: string, close?: SocketClose) {
+    const userSockets = connectedUsers.get(userId);
+    if (userSockets) {
+      connectedUsers.delete(userId);
+      viewerPrivacy.delete(userId);
+      userSockets.forEach((ws) => {
+        // Clear all active chat windows for this user during logout
+        activeChatWindows.delete(ws);
+        ws.close(close?.code, close?.reason);
+      });
+      publishUserState(userId);
+      
+      // Goes offline now unless other nodes still hold connections, which close below
+      await refreshPresence(userId);
+    }
+    
+    // Sessions are shared by every node, so drop the user's connections there too
+    publishToCluster({ kind: 'disconnectUser', userId, close });
+  }
 
-  // Setup WebSocket server
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-  
-  const connectedUsers = new Map<string, { ws: WebSocket; userId: string }>();
-  const activeChatWindows = new Map<string, Set<string>>(); // userId -> Set of otherUserIds they have chat windows open with
-  
-  function broadcastToAll(message: any) {
-    connectedUsers.forEach(({ ws }) => {
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.send(JSON.stringify(message));
-      }
+  // Suspended users are signed out at their next request (see deserializeUser);
+  // their open connections are closed right away, telling the client why
+  async function suspendUser(userId: string, reason: string, days?: number) {
+    const suspendedAt = new Date();
+    const updated = await storage.updateUser(userId, {
+      suspendedAt,
+      suspendedUntil: days ? new Date(suspendedAt.getTime() + days * 24 * 60 * 60 * 1000) : null,
+      suspensionReason: reason,
     });
+    if (updated) {
+      sendToUser(userId, { type: 'accountSuspended', notice: toSuspensionNotice(updated) });
+    }
+    await disconnectUser(userId, SUSPENDED_CLOSE);
+    return updated;
   }
 
-  function sendToUser(userId: string, message: any) {
-    const userConnection = connectedUsers.get(userId);
-    if (userConnection && userConnection.ws.readyState === WebSocket.OPEN) {
-      userConnection.ws.send(JSON.stringify(message));
-      return true;
-    }
-    return false;
+  // Moderation warnings arrive as a notification, shown as from the moderation team
+  async function warnUser(userId: string, moderatorId: string, reason: string, note?: string) {
+    const notification = await storage.createNotification({
+      userId,
+      type: "moderation_warning",
+      fromUserId: moderatorId,
+      data: { reason, note },
+    });
+    
+    sendToUser(userId, {
+      type: 'newNotification',
+      notification: {
+        id: notification.id,
+        type: 'moderation_warning',
+        fromUserId: moderatorId,
+        fromUserName: "Moderation team",
+        fromUserPhoto: null,
+        message: note || "Your account was reported and a moderator issued a warning.",
+        createdAt: notification.createdAt
+      }
+    });
   }
 
   // Logout route - placed here to access connectedUsers
   app.post("/api/logout", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
-    const userId = req.user!.id.toString();
-    
-    // Close WebSocket connection if exists
-    const userConnection = connectedUsers.get(userId);
-    if (userConnection) {
-      userConnection.ws.close();
-      connectedUsers.delete(userId);
-      
-      // Clear all active chat windows for this user during logout
-      activeChatWindows.delete(userId);
-      
-      await storage.setUserOnlineStatus(userId, false);
-      
-      // Broadcast user offline status
-      broadcastToAll({
-        type: 'userOffline',
-        userId,
-      });
-    }
+    await disconnectUser(req.user!.id.toString());
     
     // Logout from session
     req.logout((err: any) => {
@@ -574,6 +2167,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
   wss.on('connection', async (ws: WebSocket, req: Request) => {
     let userId: string | null = null;
     
+    aliveSockets.add(ws);
+    ws.on('pong', () => aliveSockets.add(ws));
+    
+    // Attached before any await so a socket that closes during setup is still
+    // removed from connectedUsers
+    ws.on('close', async () => {
+      // Clear the chat windows this connection had open
+      activeChatWindows.delete(ws);
+      
+      // Already dropped when the connection was closed by logout
+      const userSockets = userId ? connectedUsers.get(userId) : undefined;
+      if (userId && userSockets?.delete(ws)) {
+        console.log(`User ${userId} disconnected from WebSocket (${userSockets.size} connection(s) left on this node)`);
+        
+        if (userSockets.size === 0) {
+          connectedUsers.delete(userId);
+          viewerPrivacy.delete(userId);
+        }
+        publishUserState(userId);
+        
+        // Stays online while another tab/device is connected, here or on another node
+        await refreshPresence(userId);
+      }
+    });
+    
     // Secure WebSocket authentication: verify session instead of trusting client
     try {
       const cookies = parseCookie(req.headers.cookie || '');
@@ -613,17 +2231,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
       
-      // Successfully authenticated - set up connection
-      connectedUsers.set(authenticatedUserId, { ws, userId: authenticatedUserId });
-      await storage.setUserOnlineStatus(authenticatedUserId, true);
+      if (isSuspended(user)) {
+        console.log(`WebSocket connection rejected: user ${user.username} is suspended`);
+        sendEvent(ws, { type: 'accountSuspended', notice: toSuspensionNotice(user) });
+        ws.close(SUSPENDED_CLOSE.code, SUSPENDED_CLOSE.reason);
+        return;
+      }
+      
+      // Closed while the session was being checked - its close handler found
+      // nothing to clean up, so registering it now would leave a dead entry
+      if (ws.readyState !== WebSocket.OPEN) return;
       
-      console.log(`User ${user.username} (${userId}) connected via WebSocket`);
+      // Successfully authenticated - set up connection alongside any other tabs/devices
+      const userSockets = connectedUsers.get(authenticatedUserId) ?? new Set<WebSocket>();
+      userSockets.add(ws);
+      connectedUsers.set(authenticatedUserId, userSockets);
+      viewerPrivacy.set(authenticatedUserId, privacyOf(user));
+      publishUserState(authenticatedUserId);
       
-      // Broadcast user online status
-      broadcastToAll({
-        type: 'userOnline',
-        userId,
-      });
+      console.log(`User ${user.username} (${userId}) connected via WebSocket (${userSockets.size} connection(s) on this node)`);
+      
+      // Goes online with the first connection anywhere in the cluster
+      await refreshPresence(authenticatedUserId, user);
+      
+      // Anything sent while this user was offline is now delivered
+      const deliveredMessages = await storage.markMessagesDelivered(authenticatedUserId);
+      notifyMessagesDelivered(authenticatedUserId, deliveredMessages);
+      
+      // Ready for messages; a reconnecting client answers with 'resume'
+      sendEvent(ws, { type: 'connected', serverTime: new Date() });
       
     } catch (error) {
       console.error('WebSocket authentication error:', error);
@@ -633,148 +2269,324 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     ws.on('message', async (data: Buffer) => {
       try {
-        const message = JSON.parse(data.toString());
+        let frame: unknown;
+        try {
+          frame = JSON.parse(data.toString());
+        } catch {
+          sendEvent(ws, { type: 'error', message: "Malformed message" });
+          return;
+        }
+        
+        // Reject anything that isn't a well-formed client event before acting on it
+        const parsed = clientEventSchema.safeParse(frame);
+        if (!parsed.success) {
+          sendEvent(ws, { type: 'error', message: parsed.error.errors[0].message });
+          return;
+        }
+        const message = parsed.data;
         
         switch (message.type) {
-          // Remove the vulnerable 'auth' case - authentication now happens on connection
-            
           case 'openChatWindow':
             if (!userId) return;
             
-            const { otherUserId: openUserId } = message;
-            if (!activeChatWindows.has(userId)) {
-              activeChatWindows.set(userId, new Set());
+            // Groups are keyed by groupId, direct chats by the other user
+            const { otherUserId: openUserId, groupId: openGroupId } = message;
+            const openChatKey = openGroupId ?? openUserId;
+            if (!openChatKey) break;
+            if (!activeChatWindows.has(ws)) {
+              activeChatWindows.set(ws, new Set());
             }
-            activeChatWindows.get(userId)!.add(openUserId);
-            console.log(`User ${userId} opened chat window with ${openUserId}`);
+            activeChatWindows.get(ws)!.add(openChatKey);
+            publishUserState(userId);
+            console.log(`User ${userId} opened chat window with ${openChatKey}`);
             break;
             
           case 'closeChatWindow':
             if (!userId) return;
             
-            const { otherUserId: closeUserId } = message;
-            if (activeChatWindows.has(userId)) {
-              activeChatWindows.get(userId)!.delete(closeUserId);
-              if (activeChatWindows.get(userId)!.size === 0) {
-                activeChatWindows.delete(userId);
+            const { otherUserId: closeUserId, groupId: closeGroupId } = message;
+            const closeChatKey = closeGroupId ?? closeUserId;
+            if (closeChatKey && activeChatWindows.has(ws)) {
+              activeChatWindows.get(ws)!.delete(closeChatKey);
+              if (activeChatWindows.get(ws)!.size === 0) {
+                activeChatWindows.delete(ws);
               }
+              publishUserState(userId);
             }
-            console.log(`User ${userId} closed chat window with ${closeUserId}`);
+            console.log(`User ${userId} closed chat window with ${closeChatKey}`);
+            break;
+            
+          case 'resume':
+            if (!userId) return;
+            
+            // Client reconnected: replay what it missed after the last message
+            // (or server time) it saw on its previous connection
+            const { lastMessageId, since } = message;
+            const sinceDate = since ? new Date(since) : undefined;
+            if (!lastMessageId && !sinceDate) break;
+            
+            const [replayable, resumeBlockedIds] = await Promise.all([
+              storage.getMessagesSince(userId, {
+                after: lastMessageId,
+                since: sinceDate,
+                limit: MAX_REPLAY_MESSAGES,
+              }),
+              storage.getBlockedUserIds(userId),
+            ]);
+            const missedMessages = replayable.filter(m => !resumeBlockedIds.includes(m.senderId));
+            const missedConversationIds = Array.from(new Set(missedMessages.map(m => m.conversationId)));
+            const [replayedMessages, missedConversations, userNotifications, resumingUser] = await Promise.all([
+              withReactionsAndReplies(missedMessages),
+              Promise.all(missedConversationIds.map(id => storage.getConversationById(id))),
+              sinceDate ? storage.getUserNotifications(userId) : Promise.resolve([]),
+              storage.getUser(userId),
+            ]);
+            if (!resumingUser) break;
+            
+            sendEvent(ws, {
+              type: 'missedEvents',
+              messages: replayedMessages.flatMap(replayed => {
+                const replayedConversation = missedConversations.find(c => c?.id === replayed.conversationId);
+                return replayedConversation ? [{ message: replayed, ...chatRef(replayedConversation, userId) }] : [];
+              }),
+              notifications: userNotifications
+                .filter(notification => notification.createdAt && notification.createdAt > sinceDate!)
+                .map(notification => ({ ...notification, fromUser: toPublicUser(notification.fromUser, resumingUser) })),
+              hasMore: replayable.length === MAX_REPLAY_MESSAGES,
+            });
             break;
             
           case 'sendMessage':
             if (!userId) return;
             
-            const { receiverId, content, imageUrl } = message;
+            const { receiverId, groupId, content, imageUrl, replyToMessageId, clientMessageId } = message;
+            if (!receiverId && !groupId) {
+              sendEvent(ws, { type: 'error', message: "Recipient is required", clientMessageId });
+              break;
+            }
+            
+            // A resend of a message that was already stored (its ack got lost,
+            // e.g. on reconnect) is only acknowledged again
+            const alreadySent = clientMessageId ? await storage.getMessageByClientId(userId, clientMessageId) : undefined;
+            const alreadySentConversation = alreadySent && await storage.getConversationById(alreadySent.conversationId);
+            if (alreadySent && alreadySentConversation) {
+              const [acknowledged] = await withReactionsAndReplies([alreadySent]);
+              sendEvent(ws, {
+                type: 'messageConfirmed',
+                message: acknowledged,
+                clientMessageId,
+                ...chatRef(alreadySentConversation, userId),
+              });
+              break;
+            }
             
-            // Get or create conversation
-            let conversation = await storage.getConversation(userId, receiverId);
-            if (!conversation) {
+            // Neither side of a block can message the other; in groups they
+            // just don't receive each other's messages
+            const senderBlockedIds = await storage.getBlockedUserIds(userId);
+            if (!groupId && senderBlockedIds.includes(receiverId!)) {
+              sendEvent(ws, { type: 'error', message: "You can't message this user", clientMessageId });
+              break;
+            }
+            
+            // Group messages need an existing group the sender belongs to;
+            // direct messages get or create the conversation
+            let conversation = groupId
+              ? await storage.getConversationById(groupId)
+              : await storage.getConversation(userId, receiverId!);
+            if (groupId) {
+              if (!conversation?.isGroup || !(await getMemberIds(conversation)).includes(userId)) {
+                sendEvent(ws, { type: 'error', message: "Group not found", clientMessageId });
+                break;
+              }
+            } else if (!conversation) {
+              // Whether anyone may start a conversation is up to the recipient
+              const [receiver, sender] = await Promise.all([storage.getUser(receiverId!), storage.getUser(userId)]);
+              if (!receiver || !sender) {
+                sendEvent(ws, { type: 'error', message: "User not found", clientMessageId });
+                break;
+              }
+              if (!(await acceptsMessagesFrom(receiver, sender))) {
+                sendEvent(ws, {
+                  type: 'error',
+                  code: 'messaging_restricted',
+                  message: `${receiver.firstName} isn't accepting messages from you`,
+                  clientMessageId,
+                  otherUserId: receiver.id,
+                });
+                break;
+              }
+              
+              // A first message is a request the recipient has to accept
               conversation = await storage.createConversation({
                 participant1Id: userId,
-                participant2Id: receiverId,
+                participant2Id: receiverId!,
+                requestStatus: "pending",
               });
+            } else if (conversation.requestStatus !== "accepted") {
+              // The sender of a request gets one message until it's accepted
+              // (a declined request looks the same to them); a reply accepts it
+              if (conversation.participant1Id === userId) {
+                sendEvent(ws, { type: 'error', message: "You can send more messages once your request is accepted", clientMessageId });
+                break;
+              }
+              conversation = await answerMessageRequest(userId, receiverId!, "accepted", false) ?? conversation;
+            }
+            
+            // A quoted reply must point at a live message of the same conversation
+            const repliedTo = replyToMessageId ? await storage.getMessage(replyToMessageId) : undefined;
+            if (replyToMessageId && (!repliedTo || repliedTo.conversationId !== conversation.id)) {
+              sendEvent(ws, { type: 'error', message: "The message you replied to no longer exists", clientMessageId });
+              break;
+            }
+            if (repliedTo?.deletedAt) {
+              sendEvent(ws, { type: 'error', message: "Cannot reply to a deleted message", clientMessageId });
+              break;
             }
             
             // Create message
-            const newMessage = await storage.createMessage({
+            let newMessage = await storage.createMessage({
               conversationId: conversation.id,
               senderId: userId,
               content,
               imageUrl,
+              replyToMessageId: repliedTo?.id,
+              clientMessageId,
             });
+            const replyTo = repliedTo ? toReplyPreview(repliedTo) : null;
             
-            // Send to receiver if online
-            const receiverConnection = connectedUsers.get(receiverId);
-            if (receiverConnection && receiverConnection.ws.readyState === WebSocket.OPEN) {
-              const senderUser = await storage.getUser(userId);
-              receiverConnection.ws.send(JSON.stringify({
-                type: 'newMessage',
-                message: newMessage,
-                sender: senderUser ? toPublicUser(senderUser) : null,
-              }));
-            }
+            const senderUser = await storage.getUser(userId);
+            const recipientIds = (await getMemberIds(conversation)).filter(id => id !== userId && !senderBlockedIds.includes(id));
             
-            // Check if both users have the chat window open (actively chatting)
-            const senderHasChatOpen = activeChatWindows.has(userId) && activeChatWindows.get(userId)!.has(receiverId);
-            const receiverHasChatOpen = activeChatWindows.has(receiverId) && activeChatWindows.get(receiverId)!.has(userId);
-            const bothActivelyChatting = senderHasChatOpen && receiverHasChatOpen;
-            
-            // Only create notification if they're NOT both actively chatting
-            if (!bothActivelyChatting) {
-              try {
-                const notification = await storage.createNotification({
-                  userId: receiverId,
-                  type: "message_received",
-                  fromUserId: userId,
-                  conversationId: conversation.id,
-                });
+            for (const recipientId of recipientIds) {
+              // Send to every connection of the recipient if online
+              if (isUserConnected(recipientId)) {
+                // Recipient has a live connection, so the message counts as delivered
+                const delivered = await storage.markMessagesDelivered(recipientId, conversation.id);
+                newMessage = delivered.find(m => m.id === newMessage.id) || newMessage;
+                const recipient = await storage.getUser(recipientId);
                 
-                // Send real-time notification to receiver if they're online
-                const senderUser = await storage.getUser(userId);
-                if (senderUser && receiverConnection && receiverConnection.ws.readyState === WebSocket.OPEN) {
-                  receiverConnection.ws.send(JSON.stringify({
-                    type: 'newNotification',
-                    notification: {
-                      id: notification.id,
-                      type: 'message_received',
-                      fromUserId: userId,
-                      fromUserName: senderUser.firstName,
-                      fromUserPhoto: senderUser.profilePhoto,
-                      message: `${senderUser.firstName} sent you a message.`,
-                      createdAt: notification.createdAt
-                    }
-                  }));
-                }
-              } catch (notificationError) {
-                console.error('Failed to create message notification:', notificationError);
+                sendToUser(recipientId, {
+                  type: 'newMessage',
+                  message: { ...newMessage, replyTo },
+                  sender: senderUser && recipient ? toPublicUser(senderUser, recipient) : null,
+                  ...chatRef(conversation, recipientId),
+                });
+              }
+              
+              await sendUnreadCount(recipientId, conversation);
+              
+              if (senderUser) {
+                await notifyMessageReceived(recipientId, conversation, senderUser);
               }
             }
             
-            // Confirm to sender
-            ws.send(JSON.stringify({
+            // Confirm to sender, including their other tabs/devices; the client id
+            // lets the sending tab swap its pending bubble for the real message
+            sendToUser(userId, {
               type: 'messageConfirmed',
-              message: newMessage,
-            }));
+              message: { ...newMessage, replyTo },
+              clientMessageId,
+              ...chatRef(conversation, userId),
+            });
+            break;
+            
+          case 'markRead':
+            if (!userId) return;
+            
+            // Recipient is viewing the conversation with otherUserId, or the group groupId
+            const { otherUserId: readOtherUserId, groupId: readGroupId, upToMessageId } = message;
+            if (!readGroupId && !readOtherUserId) break;
+            const readConversation = readGroupId
+              ? await storage.getConversationById(readGroupId)
+              : await storage.getConversation(userId, readOtherUserId!);
+            if (!readConversation || !(await getMemberIds(readConversation)).includes(userId)) break;
+            
+            // Mark everything up to the given message (or everything so far) as read
+            const readMessages = await storage.markMessagesRead(readConversation.id, userId, upToMessageId);
+            if (readMessages.length > 0) {
+              await sendToConversation(readConversation, {
+                type: 'messagesRead',
+                conversationId: readConversation.id,
+                readerId: userId,
+                messageIds: readMessages.map(m => m.id),
+                readAt: readMessages[0].readAt,
+              }, userId);
+            }
+            
+            await sendUnreadCount(userId, readConversation);
+            break;
+            
+          case 'editMessage':
+            if (!userId) return;
+            
+            const editResult = await editOwnMessage(userId, message.messageId, message.content);
+            if (!editResult.ok) {
+              sendEvent(ws, { type: 'error', message: editResult.error });
+            }
+            break;
+            
+          case 'deleteMessage':
+            if (!userId) return;
+            
+            const deleteResult = await deleteOwnMessage(userId, message.messageId);
+            if (!deleteResult.ok) {
+              sendEvent(ws, { type: 'error', message: deleteResult.error });
+            }
+            break;
+            
+          case 'reactToMessage':
+            if (!userId) return;
+            
+            const reactionResult = await reactToMessage(userId, message.messageId, message.emoji);
+            if (!reactionResult.ok) {
+              sendEvent(ws, { type: 'error', message: reactionResult.error });
+            }
+            break;
+            
+          case 'setIdle':
+            if (!userId) return;
+            
+            // Idle is per connection - activity in any tab/device keeps the user online
+            if (message.idle) {
+              idleSockets.add(ws);
+            } else {
+              idleSockets.delete(ws);
+            }
+            publishUserState(userId);
+            await refreshPresence(userId);
             break;
             
           case 'typing':
             if (!userId) return;
             
-            const { receiverId: typingReceiverId, isTyping } = message;
-            const typingReceiverConnection = connectedUsers.get(typingReceiverId);
+            const { receiverId: typingReceiverId, groupId: typingGroupId, isTyping } = message;
+            const typingBlockedIds = await storage.getBlockedUserIds(userId);
             
-            if (typingReceiverConnection && typingReceiverConnection.ws.readyState === WebSocket.OPEN) {
-              typingReceiverConnection.ws.send(JSON.stringify({
-                type: 'userTyping',
-                userId,
-                isTyping,
-              }));
+            if (typingGroupId) {
+              const typingGroup = await storage.getConversationById(typingGroupId);
+              if (!typingGroup?.isGroup) break;
+              
+              const typingMemberIds = await getMemberIds(typingGroup);
+              if (!typingMemberIds.includes(userId)) break;
+              
+              typingMemberIds
+                .filter(memberId => memberId !== userId && !typingBlockedIds.includes(memberId))
+                .forEach(memberId => sendToUser(memberId, { type: 'userTyping', userId, groupId: typingGroupId, isTyping }));
+              break;
             }
+            
+            if (!typingReceiverId || typingBlockedIds.includes(typingReceiverId)) break;
+            sendToUser(typingReceiverId, {
+              type: 'userTyping',
+              userId,
+              isTyping,
+            });
             break;
         }
       } catch (error) {
         console.error('WebSocket message error:', error);
       }
     });
-
-    ws.on('close', async () => {
-      if (userId) {
-        connectedUsers.delete(userId);
-        await storage.setUserOnlineStatus(userId, false);
-        
-        // Clear all active chat windows for this user
-        activeChatWindows.delete(userId);
-        
-        console.log(`User ${userId} disconnected from WebSocket`);
-        
-        // Broadcast user offline status
-        broadcastToAll({
-          type: 'userOffline',
-          userId,
-        });
-      }
-    });
   });
 
   return httpServer;
@@ -1,10 +1,27 @@
-import { type User, type InsertUser, type Conversation, type InsertConversation, type Message, type InsertMessage, type Notification, type InsertNotification } from "@shared/schema";
+import { type User, type InsertUser, type Conversation, type InsertConversation, type ConversationParticipant, type ConversationSummary, type CreateGroup, type GroupMember, type GroupRole, type Message, type InsertMessage, type MessageReaction, type InsertMessageReaction, type MessageSearchMatch, type Notification, type Presence, type Block, type BlockedUser, type ProfileLike, type Report, type InsertReport, type ReportStatus, type ReportWithUsers, type AuditEvent, type InsertAuditEvent, type AuditEventQuery, type AuditEventWithUsers, type AdminUserDetails, type InsertNotification, SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END } from "@shared/schema";
 import { randomUUID } from "crypto";
 import session from "express-session";
 import createMemoryStore from "memorystore";
+import { InProcessPubSub, type PubSub } from "./pubsub";
 
 const MemoryStore = createMemoryStore(session);
 
+export interface MessagePageOptions {
+  before?: string; // message id - only return messages older than this one
+  limit?: number;
+  excludeSenderIds?: string[]; // e.g. users the viewer blocked, in a group they share
+}
+
+export interface MessageReplayOptions {
+  after?: string; // message id - only return messages newer than this one
+  since?: Date; // used when there is no `after` message
+  limit: number;
+}
+
+export type AuditEventFilter = AuditEventQuery & { limit: number };
+
+export type AccountActivityCounts = Pick<AdminUserDetails, "messagesSent" | "reportsAgainst" | "reportsFiled">;
+
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
@@ -12,16 +29,78 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: string, updates: Partial<User>): Promise<User | undefined>;
   
+  // Direct chat between two users (never matches a group)
   getConversation(user1Id: string, user2Id: string): Promise<Conversation | undefined>;
+  getConversationById(id: string): Promise<Conversation | undefined>;
   createConversation(conversation: InsertConversation): Promise<Conversation>;
-  getUserConversations(userId: string): Promise<Array<Conversation & { otherUser: User; lastMessage?: Message }>>;
+  updateConversation(id: string, updates: Partial<Conversation>): Promise<Conversation | undefined>;
+  getUserConversations(userId: string): Promise<ConversationSummary[]>;
   
-  getMessages(conversationId: string): Promise<Message[]>;
+  // Groups - the creator becomes the owner, everyone else joins as a member
+  createGroupConversation(group: Omit<CreateGroup, "memberIds">, ownerId: string, memberIds: string[]): Promise<Conversation>;
+  getGroupMembers(conversationId: string): Promise<GroupMember[]>;
+  addGroupMember(conversationId: string, userId: string, role?: GroupRole): Promise<ConversationParticipant>;
+  updateGroupMember(conversationId: string, userId: string, updates: Partial<ConversationParticipant>): Promise<ConversationParticipant | undefined>;
+  removeGroupMember(conversationId: string, userId: string): Promise<void>;
+  
+  // Newest `limit` messages (older than `before` if given), returned oldest first
+  getMessages(conversationId: string, options?: MessagePageOptions): Promise<Message[]>;
+  getMessage(id: string): Promise<Message | undefined>;
+  getMessagesByIds(ids: string[]): Promise<Message[]>;
+  getMessageByClientId(senderId: string, clientMessageId: string): Promise<Message | undefined>;
+  // Messages across all of the user's conversations sent after a point in time,
+  // oldest first - used to replay what a reconnecting client missed
+  getMessagesSince(userId: string, options: MessageReplayOptions): Promise<Message[]>;
   createMessage(message: InsertMessage): Promise<Message>;
+  updateMessage(id: string, updates: Partial<Message>): Promise<Message | undefined>;
+  // Delivery/read receipts - both return only the messages that changed.
+  // markMessagesRead also advances the reader's last-read marker.
+  markMessagesDelivered(recipientId: string, conversationId?: string): Promise<Message[]>;
+  markMessagesRead(conversationId: string, readerId: string, upToMessageId?: string): Promise<Message[]>;
+  // Messages newer than the user's last-read marker, in one or all conversations
+  getUnreadMessageCount(userId: string, conversationId?: string): Promise<number>;
+  // Best matches first, only from conversations the user participates in
+  searchMessages(userId: string, query: string, limit: number): Promise<MessageSearchMatch[]>;
+  
+  // Reactions - at most one per user per message
+  getMessageReactions(messageIds: string[]): Promise<MessageReaction[]>;
+  setMessageReaction(reaction: InsertMessageReaction): Promise<MessageReaction>;
+  removeMessageReaction(messageId: string, userId: string): Promise<void>;
   
   getAllUsers(): Promise<User[]>;
   getOnlineUsers(): Promise<User[]>;
-  setUserOnlineStatus(userId: string, isOnline: boolean): Promise<void>;
+  // Also keeps isOnline in step and stamps lastSeen
+  setUserPresence(userId: string, presence: Presence): Promise<User | undefined>;
+  
+  // Blocks - blocking again is a no-op
+  blockUser(blockerId: string, blockedId: string): Promise<Block>;
+  unblockUser(blockerId: string, blockedId: string): Promise<void>;
+  getBlockedUsers(blockerId: string): Promise<BlockedUser[]>;
+  isBlocked(blockerId: string, blockedId: string): Promise<boolean>;
+  // Both ways: everyone the user blocked or was blocked by
+  getBlockedUserIds(userId: string): Promise<string[]>;
+  
+  // Profile likes - liking again is a no-op
+  likeProfile(likerId: string, likedId: string): Promise<ProfileLike>;
+  unlikeProfile(likerId: string, likedId: string): Promise<void>;
+  hasLiked(likerId: string, likedId: string): Promise<boolean>;
+  getLikedUserIds(likerId: string): Promise<string[]>;
+  
+  // Reports - the moderation queue lists those with one status, oldest first
+  createReport(report: InsertReport): Promise<Report>;
+  getReport(id: string): Promise<Report | undefined>;
+  getReports(status: ReportStatus): Promise<ReportWithUsers[]>;
+  updateReport(id: string, updates: Partial<Report>): Promise<Report | undefined>;
+  
+  // Admin console - user search matches username, email or name, newest accounts first
+  searchUsers(query: string, limit: number): Promise<User[]>;
+  getAccountActivityCounts(userId: string): Promise<AccountActivityCounts>;
+  // Login sessions held in sessionStore; deleting them signs the user out everywhere
+  countUserSessions(userId: string): Promise<number>;
+  deleteUserSessions(userId: string): Promise<number>;
+  createAuditEvent(entry: InsertAuditEvent): Promise<AuditEvent>;
+  // Newest first
+  getAuditEvents(filter: AuditEventFilter): Promise<AuditEventWithUsers[]>;
   
   // Notification methods
   getUserNotifications(userId: string): Promise<Array<Notification & { fromUser: User }>>;
@@ -32,23 +111,54 @@ export interface IStorage {
   getUnreadNotificationCount(userId: string): Promise<number>;
   
   sessionStore: any;
+  // Realtime fan-out to the other server nodes sharing this storage
+  pubsub: PubSub;
+}
+
+const SNIPPET_CONTEXT_CHARS = 40;
+
+// Excerpt of `content` around the first match of `needle`, with the match wrapped in highlight markers
+function highlightSnippet(content: string, needle: string): string {
+  const index = content.toLowerCase().indexOf(needle);
+  const start = Math.max(0, index - SNIPPET_CONTEXT_CHARS);
+  const end = Math.min(content.length, index + needle.length + SNIPPET_CONTEXT_CHARS);
+  
+  return (start > 0 ? "…" : "") +
+    content.slice(start, index) +
+    SEARCH_HIGHLIGHT_START + content.slice(index, index + needle.length) + SEARCH_HIGHLIGHT_END +
+    content.slice(index + needle.length, end) +
+    (end < content.length ? "…" : "");
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private conversations: Map<string, Conversation>;
+  private conversationParticipants: Map<string, ConversationParticipant>;
   private messages: Map<string, Message>;
+  private messageReactions: Map<string, MessageReaction>;
   private notifications: Map<string, Notification>;
+  private blocks: Map<string, Block>;
+  private profileLikes: Map<string, ProfileLike>;
+  private reports: Map<string, Report>;
+  private auditEvents: Map<string, AuditEvent>;
   public sessionStore: any;
+  public pubsub: PubSub;
 
   constructor() {
     this.users = new Map();
     this.conversations = new Map();
+    this.conversationParticipants = new Map();
     this.messages = new Map();
+    this.messageReactions = new Map();
     this.notifications = new Map();
+    this.blocks = new Map();
+    this.profileLikes = new Map();
+    this.reports = new Map();
+    this.auditEvents = new Map();
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000,
     });
+    this.pubsub = new InProcessPubSub();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -73,6 +183,16 @@ export class MemStorage implements IStorage {
       ...insertUser, 
       id,
       isOnline: false,
+      presence: "offline",
+      presenceStatus: "available",
+      hideOnlineStatus: false,
+      hideLastSeen: false,
+      incognito: false,
+      messagePolicy: "everyone",
+      role: "user",
+      suspendedAt: null,
+      suspendedUntil: null,
+      suspensionReason: null,
       lastSeen: new Date(),
       createdAt: new Date(),
       profilePhoto: insertUser.profilePhoto || null,
@@ -101,11 +221,22 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getConversationById(id: string): Promise<Conversation | undefined> {
+    return this.conversations.get(id);
+  }
+
   async createConversation(insertConversation: InsertConversation): Promise<Conversation> {
     const id = randomUUID();
     const conversation: Conversation = {
-      ...insertConversation,
       id,
+      participant1Id: insertConversation.participant1Id || null,
+      participant2Id: insertConversation.participant2Id || null,
+      isGroup: insertConversation.isGroup || false,
+      name: insertConversation.name || null,
+      avatarUrl: insertConversation.avatarUrl || null,
+      requestStatus: insertConversation.requestStatus || "accepted",
+      participant1LastReadAt: null,
+      participant2LastReadAt: null,
       lastMessageAt: new Date(),
       createdAt: new Date(),
     };
@@ -113,22 +244,40 @@ export class MemStorage implements IStorage {
     return conversation;
   }
 
-  async getUserConversations(userId: string): Promise<Array<Conversation & { otherUser: User; lastMessage?: Message }>> {
+  async updateConversation(id: string, updates: Partial<Conversation>): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(id);
+    if (!conversation) return undefined;
+    
+    const updatedConversation = { ...conversation, ...updates };
+    this.conversations.set(id, updatedConversation);
+    return updatedConversation;
+  }
+
+  async getUserConversations(userId: string): Promise<ConversationSummary[]> {
+    // Direct chats with blocked users are hidden; groups stay
+    const blockedUserIds = await this.getBlockedUserIds(userId);
     const userConversations = Array.from(this.conversations.values()).filter(
-      (conv) => conv.participant1Id === userId || conv.participant2Id === userId
+      (conv) => this.isMember(conv, userId) &&
+        (conv.isGroup || !blockedUserIds.includes(conv.participant1Id === userId ? conv.participant2Id! : conv.participant1Id!))
     );
 
     const enrichedConversations = await Promise.all(
       userConversations.map(async (conv) => {
-        const otherUserId = conv.participant1Id === userId ? conv.participant2Id : conv.participant1Id;
-        const otherUser = await this.getUser(otherUserId);
-        const messages = await this.getMessages(conv.id);
-        const lastMessage = messages[messages.length - 1];
+        const [lastMessage] = await this.getMessages(conv.id, { limit: 1, excludeSenderIds: blockedUserIds });
+        const unreadCount = await this.getUnreadMessageCount(userId, conv.id);
         
+        if (conv.isGroup) {
+          const members = await this.getGroupMembers(conv.id);
+          return { ...conv, members, lastMessage, unreadCount };
+        }
+        
+        const otherUserId = conv.participant1Id === userId ? conv.participant2Id : conv.participant1Id;
+        const otherUser = await this.getUser(otherUserId!);
         return {
           ...conv,
           otherUser: otherUser!,
           lastMessage,
+          unreadCount,
         };
       })
     );
@@ -138,10 +287,142 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async getMessages(conversationId: string): Promise<Message[]> {
-    return Array.from(this.messages.values())
+  async createGroupConversation(group: Omit<CreateGroup, "memberIds">, ownerId: string, memberIds: string[]): Promise<Conversation> {
+    const conversation = await this.createConversation({
+      isGroup: true,
+      name: group.name,
+      avatarUrl: group.avatarUrl,
+    });
+    
+    await this.addGroupMember(conversation.id, ownerId, "owner");
+    for (const memberId of memberIds) {
+      await this.addGroupMember(conversation.id, memberId);
+    }
+    return conversation;
+  }
+
+  async getGroupMembers(conversationId: string): Promise<GroupMember[]> {
+    return Array.from(this.conversationParticipants.values())
+      .filter((participant) => participant.conversationId === conversationId)
+      .sort((a, b) => new Date(a.joinedAt!).getTime() - new Date(b.joinedAt!).getTime())
+      .flatMap((participant) => {
+        const user = this.users.get(participant.userId);
+        if (!user) return [];
+        return [{
+          ...participant,
+          user: {
+            id: user.id,
+            firstName: user.firstName,
+            lastName: user.lastName,
+            profilePhoto: user.profilePhoto,
+            isOnline: user.isOnline,
+            hideOnlineStatus: user.hideOnlineStatus,
+          },
+        }];
+      });
+  }
+
+  async addGroupMember(conversationId: string, userId: string, role: GroupRole = "member"): Promise<ConversationParticipant> {
+    const participant: ConversationParticipant = {
+      id: randomUUID(),
+      conversationId,
+      userId,
+      role,
+      // History from before joining doesn't count as unread
+      lastReadAt: new Date(),
+      joinedAt: new Date(),
+    };
+    this.conversationParticipants.set(participant.id, participant);
+    return participant;
+  }
+
+  async updateGroupMember(conversationId: string, userId: string, updates: Partial<ConversationParticipant>): Promise<ConversationParticipant | undefined> {
+    const participant = this.findParticipant(conversationId, userId);
+    if (!participant) return undefined;
+    
+    const updatedParticipant = { ...participant, ...updates };
+    this.conversationParticipants.set(participant.id, updatedParticipant);
+    return updatedParticipant;
+  }
+
+  async removeGroupMember(conversationId: string, userId: string): Promise<void> {
+    const participant = this.findParticipant(conversationId, userId);
+    if (participant) {
+      this.conversationParticipants.delete(participant.id);
+    }
+  }
+
+  private findParticipant(conversationId: string, userId: string): ConversationParticipant | undefined {
+    return Array.from(this.conversationParticipants.values()).find(
+      (participant) => participant.conversationId === conversationId && participant.userId === userId
+    );
+  }
+
+  // Either side of a direct chat, or a member of a group
+  private isMember(conversation: Conversation, userId: string): boolean {
+    if (conversation.isGroup) return !!this.findParticipant(conversation.id, userId);
+    return conversation.participant1Id === userId || conversation.participant2Id === userId;
+  }
+
+  async getMessages(conversationId: string, options: MessagePageOptions = {}): Promise<Message[]> {
+    let conversationMessages = Array.from(this.messages.values())
       .filter((msg) => msg.conversationId === conversationId)
-      .sort((a, b) => new Date(a.timestamp!).getTime() - new Date(b.timestamp!).getTime());
+      .sort((a, b) =>
+        new Date(a.timestamp!).getTime() - new Date(b.timestamp!).getTime() || a.id.localeCompare(b.id)
+      );
+
+    if (options.before) {
+      const cursorIndex = conversationMessages.findIndex((msg) => msg.id === options.before);
+      if (cursorIndex === -1) return [];
+      conversationMessages = conversationMessages.slice(0, cursorIndex);
+    }
+
+    if (options.excludeSenderIds?.length) {
+      conversationMessages = conversationMessages.filter((msg) => !options.excludeSenderIds!.includes(msg.senderId));
+    }
+
+    if (options.limit) {
+      conversationMessages = conversationMessages.slice(-options.limit);
+    }
+
+    return conversationMessages;
+  }
+
+  async getMessage(id: string): Promise<Message | undefined> {
+    return this.messages.get(id);
+  }
+
+  async getMessagesSince(userId: string, options: MessageReplayOptions): Promise<Message[]> {
+    const sorted = Array.from(this.messages.values())
+      .filter((msg) => {
+        const conversation = this.conversations.get(msg.conversationId);
+        return !!conversation && this.isMember(conversation, userId);
+      })
+      .sort((a, b) =>
+        new Date(a.timestamp!).getTime() - new Date(b.timestamp!).getTime() || a.id.localeCompare(b.id)
+      );
+
+    let missed: Message[];
+    if (options.after) {
+      const cursorIndex = sorted.findIndex((msg) => msg.id === options.after);
+      missed = cursorIndex === -1 ? [] : sorted.slice(cursorIndex + 1);
+    } else {
+      missed = sorted.filter((msg) => !options.since || new Date(msg.timestamp!) > options.since);
+    }
+
+    return missed.slice(0, options.limit);
+  }
+
+  async getMessageByClientId(senderId: string, clientMessageId: string): Promise<Message | undefined> {
+    return Array.from(this.messages.values()).find(
+      (msg) => msg.senderId === senderId && msg.clientMessageId === clientMessageId
+    );
+  }
+
+  async getMessagesByIds(ids: string[]): Promise<Message[]> {
+    return ids
+      .map((id) => this.messages.get(id))
+      .filter((msg): msg is Message => !!msg);
   }
 
   async createMessage(insertMessage: InsertMessage): Promise<Message> {
@@ -152,6 +433,12 @@ export class MemStorage implements IStorage {
       timestamp: new Date(),
       content: insertMessage.content || null,
       imageUrl: insertMessage.imageUrl || null,
+      replyToMessageId: insertMessage.replyToMessageId || null,
+      clientMessageId: insertMessage.clientMessageId || null,
+      deliveredAt: null,
+      readAt: null,
+      editedAt: null,
+      deletedAt: null,
     };
     this.messages.set(id, message);
     
@@ -167,6 +454,146 @@ export class MemStorage implements IStorage {
     return message;
   }
 
+  async updateMessage(id: string, updates: Partial<Message>): Promise<Message | undefined> {
+    const message = this.messages.get(id);
+    if (!message) return undefined;
+
+    const updatedMessage = { ...message, ...updates };
+    this.messages.set(id, updatedMessage);
+    return updatedMessage;
+  }
+
+  async markMessagesDelivered(recipientId: string, conversationId?: string): Promise<Message[]> {
+    const deliveredAt = new Date();
+    const updated: Message[] = [];
+
+    Array.from(this.messages.values())
+      .filter((msg) => {
+        if (msg.deliveredAt || msg.senderId === recipientId) return false;
+        if (conversationId && msg.conversationId !== conversationId) return false;
+        const conv = this.conversations.get(msg.conversationId);
+        return !!conv && this.isMember(conv, recipientId);
+      })
+      .forEach((msg) => {
+        const updatedMessage = { ...msg, deliveredAt };
+        this.messages.set(msg.id, updatedMessage);
+        updated.push(updatedMessage);
+      });
+
+    return updated;
+  }
+
+  async markMessagesRead(conversationId: string, readerId: string, upToMessageId?: string): Promise<Message[]> {
+    const readAt = new Date();
+    const updated: Message[] = [];
+
+    let conversationMessages = await this.getMessages(conversationId);
+    if (upToMessageId) {
+      const cursorIndex = conversationMessages.findIndex((msg) => msg.id === upToMessageId);
+      if (cursorIndex === -1) return [];
+      conversationMessages = conversationMessages.slice(0, cursorIndex + 1);
+    }
+
+    conversationMessages
+      .filter((msg) => msg.senderId !== readerId && !msg.readAt)
+      .forEach((msg) => {
+        const updatedMessage = { ...msg, deliveredAt: msg.deliveredAt || readAt, readAt };
+        this.messages.set(msg.id, updatedMessage);
+        updated.push(updatedMessage);
+      });
+
+    // Advance the reader's marker to the newest message covered by this receipt
+    const conversation = this.conversations.get(conversationId);
+    const newestRead = conversationMessages[conversationMessages.length - 1];
+    if (conversation?.isGroup && newestRead) {
+      const participant = this.findParticipant(conversationId, readerId);
+      if (participant && (!participant.lastReadAt || new Date(participant.lastReadAt).getTime() < new Date(newestRead.timestamp!).getTime())) {
+        this.conversationParticipants.set(participant.id, { ...participant, lastReadAt: newestRead.timestamp });
+      }
+    } else if (conversation && newestRead) {
+      const markerKey = conversation.participant1Id === readerId ? "participant1LastReadAt" : "participant2LastReadAt";
+      const currentMarker = conversation[markerKey];
+      if (!currentMarker || new Date(currentMarker).getTime() < new Date(newestRead.timestamp!).getTime()) {
+        this.conversations.set(conversationId, { ...conversation, [markerKey]: newestRead.timestamp });
+      }
+    }
+
+    return updated;
+  }
+
+  async getUnreadMessageCount(userId: string, conversationId?: string): Promise<number> {
+    // Nothing from blocked users is shown - direct chats are hidden and group
+    // messages left out - so none of it counts either
+    const blockedUserIds = await this.getBlockedUserIds(userId);
+    return Array.from(this.messages.values()).filter((msg) => {
+      if (msg.senderId === userId) return false;
+      if (conversationId && msg.conversationId !== conversationId) return false;
+      const conv = this.conversations.get(msg.conversationId);
+      if (!conv) return false;
+      if (blockedUserIds.includes(msg.senderId)) return false;
+      // Requests the user declined are left out of their inbox as well
+      if (conv.requestStatus === "declined" && conv.participant2Id === userId) return false;
+
+      let lastReadAt: Date | null;
+      if (conv.isGroup) {
+        const participant = this.findParticipant(conv.id, userId);
+        if (!participant) return false;
+        lastReadAt = participant.lastReadAt;
+      } else if (conv.participant1Id === userId) lastReadAt = conv.participant1LastReadAt;
+      else if (conv.participant2Id === userId) lastReadAt = conv.participant2LastReadAt;
+      else return false;
+
+      return !lastReadAt || new Date(msg.timestamp!).getTime() > new Date(lastReadAt).getTime();
+    }).length;
+  }
+
+  // Plain case-insensitive substring match - PgStorage uses the full-text index instead
+  async searchMessages(userId: string, query: string, limit: number): Promise<MessageSearchMatch[]> {
+    const needle = query.toLowerCase();
+    
+    return Array.from(this.messages.values())
+      .filter((msg) => {
+        if (msg.deletedAt || !msg.content?.toLowerCase().includes(needle)) return false;
+        const conv = this.conversations.get(msg.conversationId);
+        return !!conv && this.isMember(conv, userId);
+      })
+      .sort((a, b) => new Date(b.timestamp!).getTime() - new Date(a.timestamp!).getTime())
+      .slice(0, limit)
+      .map((msg) => {
+        const conv = this.conversations.get(msg.conversationId)!;
+        return {
+          ...msg,
+          snippet: highlightSnippet(msg.content!, needle),
+          otherUserId: conv.isGroup ? null : conv.participant1Id === userId ? conv.participant2Id : conv.participant1Id,
+        };
+      });
+  }
+
+  async getMessageReactions(messageIds: string[]): Promise<MessageReaction[]> {
+    return Array.from(this.messageReactions.values())
+      .filter((reaction) => messageIds.includes(reaction.messageId))
+      .sort((a, b) => new Date(a.createdAt!).getTime() - new Date(b.createdAt!).getTime());
+  }
+
+  async setMessageReaction(insertReaction: InsertMessageReaction): Promise<MessageReaction> {
+    const existing = Array.from(this.messageReactions.values()).find(
+      (reaction) => reaction.messageId === insertReaction.messageId && reaction.userId === insertReaction.userId
+    );
+    const reaction: MessageReaction = {
+      ...insertReaction,
+      id: existing?.id || randomUUID(),
+      createdAt: new Date(),
+    };
+    this.messageReactions.set(reaction.id, reaction);
+    return reaction;
+  }
+
+  async removeMessageReaction(messageId: string, userId: string): Promise<void> {
+    Array.from(this.messageReactions.values())
+      .filter((reaction) => reaction.messageId === messageId && reaction.userId === userId)
+      .forEach((reaction) => this.messageReactions.delete(reaction.id));
+  }
+
   async getAllUsers(): Promise<User[]> {
     return Array.from(this.users.values());
   }
@@ -175,15 +602,234 @@ export class MemStorage implements IStorage {
     return Array.from(this.users.values()).filter(user => user.isOnline);
   }
 
-  async setUserOnlineStatus(userId: string, isOnline: boolean): Promise<void> {
+  async setUserPresence(userId: string, presence: Presence): Promise<User | undefined> {
     const user = this.users.get(userId);
-    if (user) {
-      this.users.set(userId, {
-        ...user,
-        isOnline,
-        lastSeen: new Date(),
+    if (!user) return undefined;
+    
+    const updated = {
+      ...user,
+      presence,
+      isOnline: presence !== "offline",
+      lastSeen: new Date(),
+    };
+    this.users.set(userId, updated);
+    return updated;
+  }
+
+  async blockUser(blockerId: string, blockedId: string): Promise<Block> {
+    const existing = Array.from(this.blocks.values()).find(
+      (block) => block.blockerId === blockerId && block.blockedId === blockedId
+    );
+    if (existing) return existing;
+    
+    const block: Block = { id: randomUUID(), blockerId, blockedId, createdAt: new Date() };
+    this.blocks.set(block.id, block);
+    return block;
+  }
+
+  async unblockUser(blockerId: string, blockedId: string): Promise<void> {
+    Array.from(this.blocks.values())
+      .filter((block) => block.blockerId === blockerId && block.blockedId === blockedId)
+      .forEach((block) => this.blocks.delete(block.id));
+  }
+
+  async getBlockedUsers(blockerId: string): Promise<BlockedUser[]> {
+    return Array.from(this.blocks.values())
+      .filter((block) => block.blockerId === blockerId)
+      .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime())
+      .flatMap((block) => {
+        const user = this.users.get(block.blockedId);
+        if (!user) return [];
+        return [{
+          id: user.id,
+          username: user.username,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          profilePhoto: user.profilePhoto,
+          blockedAt: block.createdAt,
+        }];
+      });
+  }
+
+  async isBlocked(blockerId: string, blockedId: string): Promise<boolean> {
+    return Array.from(this.blocks.values()).some(
+      (block) => block.blockerId === blockerId && block.blockedId === blockedId
+    );
+  }
+
+  async getBlockedUserIds(userId: string): Promise<string[]> {
+    const ids = Array.from(this.blocks.values()).flatMap((block) => {
+      if (block.blockerId === userId) return [block.blockedId];
+      if (block.blockedId === userId) return [block.blockerId];
+      return [];
+    });
+    return Array.from(new Set(ids));
+  }
+
+  async likeProfile(likerId: string, likedId: string): Promise<ProfileLike> {
+    const existing = Array.from(this.profileLikes.values()).find(
+      (like) => like.likerId === likerId && like.likedId === likedId
+    );
+    if (existing) return existing;
+    
+    const like: ProfileLike = { id: randomUUID(), likerId, likedId, createdAt: new Date() };
+    this.profileLikes.set(like.id, like);
+    return like;
+  }
+
+  async unlikeProfile(likerId: string, likedId: string): Promise<void> {
+    Array.from(this.profileLikes.values())
+      .filter((like) => like.likerId === likerId && like.likedId === likedId)
+      .forEach((like) => this.profileLikes.delete(like.id));
+  }
+
+  async hasLiked(likerId: string, likedId: string): Promise<boolean> {
+    return Array.from(this.profileLikes.values()).some(
+      (like) => like.likerId === likerId && like.likedId === likedId
+    );
+  }
+
+  async getLikedUserIds(likerId: string): Promise<string[]> {
+    return Array.from(this.profileLikes.values())
+      .filter((like) => like.likerId === likerId)
+      .map((like) => like.likedId);
+  }
+
+  async createReport(insertReport: InsertReport): Promise<Report> {
+    const report: Report = {
+      ...insertReport,
+      id: randomUUID(),
+      status: "open",
+      action: null,
+      moderatorNote: null,
+      reviewedBy: null,
+      reviewedAt: null,
+      createdAt: new Date(),
+    };
+    this.reports.set(report.id, report);
+    return report;
+  }
+
+  async getReport(id: string): Promise<Report | undefined> {
+    return this.reports.get(id);
+  }
+
+  async getReports(status: ReportStatus): Promise<ReportWithUsers[]> {
+    return Array.from(this.reports.values())
+      .filter((report) => report.status === status)
+      .sort((a, b) => new Date(a.createdAt!).getTime() - new Date(b.createdAt!).getTime())
+      .flatMap((report) => {
+        const reporter = this.users.get(report.reporterId);
+        const targetUser = this.users.get(report.targetUserId);
+        if (!reporter || !targetUser) return [];
+        return [{
+          ...report,
+          reporter: {
+            id: reporter.id,
+            username: reporter.username,
+            firstName: reporter.firstName,
+            lastName: reporter.lastName,
+          },
+          targetUser: {
+            id: targetUser.id,
+            username: targetUser.username,
+            firstName: targetUser.firstName,
+            lastName: targetUser.lastName,
+            profilePhoto: targetUser.profilePhoto,
+            suspendedAt: targetUser.suspendedAt,
+            suspendedUntil: targetUser.suspendedUntil,
+          },
+        }];
+      });
+  }
+
+  async updateReport(id: string, updates: Partial<Report>): Promise<Report | undefined> {
+    const report = this.reports.get(id);
+    if (!report) return undefined;
+    
+    const updated = { ...report, ...updates };
+    this.reports.set(id, updated);
+    return updated;
+  }
+
+  async searchUsers(query: string, limit: number): Promise<User[]> {
+    const needle = query.toLowerCase();
+    return Array.from(this.users.values())
+      .filter((user) =>
+        user.username.toLowerCase().includes(needle) ||
+        user.email.toLowerCase().includes(needle) ||
+        `${user.firstName} ${user.lastName}`.toLowerCase().includes(needle)
+      )
+      .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime())
+      .slice(0, limit);
+  }
+
+  async getAccountActivityCounts(userId: string): Promise<AccountActivityCounts> {
+    const userReports = Array.from(this.reports.values());
+    return {
+      messagesSent: Array.from(this.messages.values()).filter((message) => message.senderId === userId).length,
+      reportsAgainst: userReports.filter((report) => report.targetUserId === userId).length,
+      reportsFiled: userReports.filter((report) => report.reporterId === userId).length,
+    };
+  }
+
+  // memorystore only hands out sessions through its callback API
+  private getUserSessionIds(userId: string): Promise<string[]> {
+    return new Promise((resolve, reject) => {
+      this.sessionStore.all((err: any, sessions: Record<string, any> | null) => {
+        if (err) return reject(err);
+        resolve(Object.entries(sessions || {})
+          .filter(([, sess]) => sess?.passport?.user === userId)
+          .map(([sid]) => sid));
+      });
+    });
+  }
+
+  async countUserSessions(userId: string): Promise<number> {
+    return (await this.getUserSessionIds(userId)).length;
+  }
+
+  async deleteUserSessions(userId: string): Promise<number> {
+    const sessionIds = await this.getUserSessionIds(userId);
+    await Promise.all(sessionIds.map((sid) => new Promise<void>((resolve, reject) => {
+      this.sessionStore.destroy(sid, (err: any) => err ? reject(err) : resolve());
+    })));
+    return sessionIds.length;
+  }
+
+  async createAuditEvent(entry: InsertAuditEvent): Promise<AuditEvent> {
+    const auditEvent: AuditEvent = { ...entry, id: randomUUID(), createdAt: new Date() };
+    this.auditEvents.set(auditEvent.id, auditEvent);
+    return auditEvent;
+  }
+
+  async getAuditEvents(filter: AuditEventFilter): Promise<AuditEventWithUsers[]> {
+    const summarize = (user: User) => ({
+      id: user.id,
+      username: user.username,
+      firstName: user.firstName,
+      lastName: user.lastName,
+    });
+    
+    return Array.from(this.auditEvents.values())
+      .filter((entry) =>
+        (!filter.actorId || entry.actorId === filter.actorId) &&
+        (!filter.targetUserId || entry.targetUserId === filter.targetUserId) &&
+        (!filter.action || entry.action === filter.action) &&
+        (!filter.from || entry.createdAt! >= filter.from) &&
+        (!filter.to || entry.createdAt! <= filter.to)
+      )
+      .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime())
+      .slice(0, filter.limit)
+      .map((entry) => {
+        const actor = entry.actorId ? this.users.get(entry.actorId) : undefined;
+        const targetUser = entry.targetUserId ? this.users.get(entry.targetUserId) : undefined;
+        return {
+          ...entry,
+          actor: actor ? summarize(actor) : null,
+          targetUser: targetUser ? summarize(targetUser) : null,
+        };
       });
-    }
   }
 
   // Notification methods
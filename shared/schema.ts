@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, integer, json } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, integer, json, unique, index, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -17,35 +17,159 @@ export const users = pgTable("users", {
   bio: text("bio"),
   photos: json("photos"),
   isOnline: boolean("is_online").default(false),
+  // What others see (see Presence); isOnline mirrors presence !== "offline"
+  presence: varchar("presence").default("offline"),
+  // Chosen by the user (see PresenceStatus)
+  presenceStatus: varchar("presence_status").default("available"),
+  // Last time the user was active, i.e. when they last went away or offline
   lastSeen: timestamp("last_seen").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
   filterGender: text("filter_gender"),
   filterLocation: text("filter_location"),
   filterAgeMin: integer("filter_age_min"),
   filterAgeMax: integer("filter_age_max"),
+  // Who may start a conversation with the user: "everyone", "filters" (people
+  // matching the discovery filters above), "mutual_likes" (people the user and
+  // they have both liked) or "nobody"
+  messagePolicy: text("message_policy").notNull().default("everyone"),
+  // Privacy settings are reciprocal: hiding your own online status or last
+  // seen also hides everyone else's from you
+  hideOnlineStatus: boolean("hide_online_status").notNull().default(false),
+  hideLastSeen: boolean("hide_last_seen").notNull().default(false),
+  incognito: boolean("incognito").notNull().default(false), // view profiles without notifying
+  role: varchar("role").notNull().default("user"), // see USER_ROLES
+  // Suspended users can't sign in; no end date means until further notice
+  suspendedAt: timestamp("suspended_at"),
+  suspendedUntil: timestamp("suspended_until"),
+  suspensionReason: text("suspension_reason"), // shown to the user when they try to sign in
 });
 
 export const conversations = pgTable("conversations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  participant1Id: varchar("participant1_id").notNull().references(() => users.id),
-  participant2Id: varchar("participant2_id").notNull().references(() => users.id),
+  // Direct chats only - group members live in conversation_participants
+  participant1Id: varchar("participant1_id").references(() => users.id),
+  participant2Id: varchar("participant2_id").references(() => users.id),
+  // Per-participant last-read markers used to compute unread counts
+  participant1LastReadAt: timestamp("participant1_last_read_at"),
+  participant2LastReadAt: timestamp("participant2_last_read_at"),
+  isGroup: boolean("is_group").notNull().default(false),
+  name: text("name"), // groups only
+  avatarUrl: text("avatar_url"), // groups only
+  // Direct chats opened by a first message stay a request until the recipient
+  // (participant2) accepts or replies: "pending" | "accepted" | "declined"
+  requestStatus: text("request_status").notNull().default("accepted"),
   lastMessageAt: timestamp("last_message_at").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Members of group conversations
+export const conversationParticipants = pgTable("conversation_participants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: varchar("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  role: text("role").notNull().default("member"), // "owner" | "member"
+  lastReadAt: timestamp("last_read_at"), // same purpose as participantNLastReadAt on direct chats
+  joinedAt: timestamp("joined_at").defaultNow(),
+}, (table) => [
+  unique("conversation_participants_conversation_user_unique").on(table.conversationId, table.userId),
+]);
+
 export const messages = pgTable("messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   conversationId: varchar("conversation_id").notNull().references(() => conversations.id),
   senderId: varchar("sender_id").notNull().references(() => users.id),
   content: text("content"),
   imageUrl: text("image_url"),
+  replyToMessageId: varchar("reply_to_message_id").references((): AnyPgColumn => messages.id),
+  clientMessageId: varchar("client_message_id"), // sender's temporary id, makes resends idempotent
   timestamp: timestamp("timestamp").defaultNow(),
-});
+  deliveredAt: timestamp("delivered_at"), // set once the recipient has a live connection
+  readAt: timestamp("read_at"), // set when the recipient views the conversation
+  editedAt: timestamp("edited_at"),
+  deletedAt: timestamp("deleted_at"), // "unsent" - content and image are cleared
+}, (table) => [
+  // Backs message search; queries must use the same to_tsvector expression
+  index("messages_content_search_idx").using("gin", sql`to_tsvector('english', ${table.content})`),
+  unique("messages_sender_client_message_unique").on(table.senderId, table.clientMessageId),
+]);
+
+// One reaction per user per message; reacting again replaces it
+export const messageReactions = pgTable("message_reactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  messageId: varchar("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  emoji: text("emoji").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("message_reactions_message_user_unique").on(table.messageId, table.userId),
+]);
+
+// Blocks hide the two users from each other entirely, though only the blocker can lift them
+export const blocks = pgTable("blocks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  blockerId: varchar("blocker_id").notNull().references(() => users.id),
+  blockedId: varchar("blocked_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("blocks_blocker_blocked_unique").on(table.blockerId, table.blockedId),
+]);
+
+// A user liking another's profile; likes both ways make the two a match
+export const profileLikes = pgTable("profile_likes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  likerId: varchar("liker_id").notNull().references(() => users.id),
+  likedId: varchar("liked_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("profile_likes_liker_liked_unique").on(table.likerId, table.likedId),
+]);
+
+// Reports of abusive profiles or messages, worked through by moderators
+export const reports = pgTable("reports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reporterId: varchar("reporter_id").notNull().references(() => users.id),
+  targetUserId: varchar("target_user_id").notNull().references(() => users.id),
+  messageId: varchar("message_id").references(() => messages.id), // when a message is reported
+  // The reported message and the ones before it, as they were when reported -
+  // the sender may edit or unsend them afterwards
+  messageSnapshot: json("message_snapshot").$type<ReportedMessage[]>(),
+  reason: varchar("reason").notNull(), // see REPORT_REASONS
+  details: text("details"),
+  status: varchar("status").notNull().default("open"), // see REPORT_STATUSES
+  action: varchar("action"), // 'warn' | 'suspend' once acted on
+  moderatorNote: text("moderator_note"),
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("reports_status_created_at_idx").on(table.status, table.createdAt),
+]);
+
+// Append-only record of account and moderation actions: sign-ins, profile
+// changes, blocks, reports and everything done from the admin console
+export const auditEvents = pgTable("audit_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actorId: varchar("actor_id").references(() => users.id), // null for failed sign-ins
+  action: varchar("action").notNull(), // see AUDIT_ACTIONS
+  targetUserId: varchar("target_user_id").references(() => users.id), // the account affected
+  targetId: varchar("target_id"), // the report or message acted on, if any
+  // The changed fields as they were and as they became
+  before: json("before").$type<Record<string, unknown>>(),
+  after: json("after").$type<Record<string, unknown>>(),
+  details: json("details").$type<Record<string, unknown>>(), // e.g. a moderator's note
+  ip: varchar("ip"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("audit_events_created_at_idx").on(table.createdAt),
+  index("audit_events_target_user_id_idx").on(table.targetUserId),
+  index("audit_events_actor_id_idx").on(table.actorId),
+]);
 
 export const notifications = pgTable("notifications", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
-  type: varchar("type").notNull(), // 'profile_view' | 'message_received'
+  type: varchar("type").notNull(), // 'profile_view' | 'message_received' | 'moderation_warning'
   fromUserId: varchar("from_user_id").notNull().references(() => users.id),
   conversationId: varchar("conversation_id").references(() => conversations.id), // optional, for message notifications
   isRead: boolean("is_read").default(false),
@@ -56,8 +180,18 @@ export const notifications = pgTable("notifications", {
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   isOnline: true,
+  presence: true,
+  presenceStatus: true,
   lastSeen: true,
   createdAt: true,
+  hideOnlineStatus: true,
+  hideLastSeen: true,
+  incognito: true,
+  messagePolicy: true,
+  role: true,
+  suspendedAt: true,
+  suspendedUntil: true,
+  suspensionReason: true,
 }).extend({
   password: z.string().min(6, "Password must be at least 6 characters"),
   email: z.string().email("Invalid email address"),
@@ -71,36 +205,330 @@ export const insertUserSchema = createInsertSchema(users).omit({
   photos: z.array(z.string().url("Invalid URL")).max(5, "Maximum 5 photos allowed").optional(),
 });
 
+// What PATCH /api/profile may change. Anything else is rejected: the account
+// fields are fixed at sign-up, and photos and settings have their own routes
+export const updateProfileSchema = insertUserSchema.pick({
+  firstName: true,
+  lastName: true,
+  age: true,
+  location: true,
+  bio: true,
+}).partial().strict();
+
+// The first problem with each field, in the order zod reports them. Keys a
+// strict schema doesn't allow are reported under their own names
+export function toFieldErrors(error: z.ZodError): FieldError[] {
+  const errors: FieldError[] = [];
+  const add = (field: string, message: string) => {
+    if (!errors.some(existing => existing.field === field)) {
+      errors.push({ field, message });
+    }
+  };
+  for (const issue of error.errors) {
+    if (issue.code === "unrecognized_keys") {
+      issue.keys.forEach(key => add(key, `${key} can't be changed here`));
+    } else {
+      add(issue.path.join("."), issue.message);
+    }
+  }
+  return errors;
+}
+
+// Connected users are "away" once every tab/device has been idle this long
+export const AWAY_AFTER_MINUTES = 5;
+
+// What other users see
+export const PRESENCES = ["online", "away", "busy", "offline"] as const;
+
+// Busy shows as such to others; invisible users appear offline while connected
+export const PRESENCE_STATUSES = ["available", "busy", "invisible"] as const;
+
+export const presenceStatusSchema = z.object({
+  status: z.enum(PRESENCE_STATUSES, { message: "Invalid status" }),
+});
+
+export const MESSAGE_POLICIES = ["everyone", "filters", "mutual_likes", "nobody"] as const;
+
+export const messagePolicySchema = z.object({
+  messagePolicy: z.enum(MESSAGE_POLICIES, { message: "Invalid messaging setting" }),
+});
+
+export const privacySettingsSchema = z.object({
+  hideOnlineStatus: z.boolean(),
+  hideLastSeen: z.boolean(),
+  incognito: z.boolean(),
+}).partial();
+
 export const insertConversationSchema = createInsertSchema(conversations).omit({
   id: true,
+  participant1LastReadAt: true,
+  participant2LastReadAt: true,
   lastMessageAt: true,
   createdAt: true,
 });
 
+export const CONVERSATION_REQUEST_STATUSES = ["pending", "accepted", "declined"] as const;
+
+export const MAX_GROUP_MEMBERS = 50;
+
+export const createGroupSchema = z.object({
+  name: z.string().trim().min(1, "Group name is required").max(60, "Group name must be at most 60 characters"),
+  avatarUrl: z.string().optional(),
+  memberIds: z.array(z.string()).min(1, "Add at least one member").max(MAX_GROUP_MEMBERS - 1, `Groups can have at most ${MAX_GROUP_MEMBERS} members`),
+});
+
+export const updateGroupSchema = createGroupSchema.pick({ name: true, avatarUrl: true }).partial();
+
+// Message text, whether sent over REST or the socket or edited later
+export const MAX_MESSAGE_LENGTH = 2000;
+export const messageContentSchema = z.string().trim().max(MAX_MESSAGE_LENGTH, "Message is too long");
+
+export const EMPTY_MESSAGE_ERROR = "Message must contain either text content or an image";
+export function hasMessageBody(message: { content?: string; imageUrl?: string }) {
+  return !!(message.content || message.imageUrl);
+}
+
 export const insertMessageSchema = createInsertSchema(messages).omit({
   id: true,
   timestamp: true,
+  deliveredAt: true,
+  readAt: true,
+  editedAt: true,
+  deletedAt: true,
 }).extend({
-  content: z.string().optional(),
+  content: messageContentSchema.optional(),
   imageUrl: z.string().optional(),
-}).refine((data) => data.content || data.imageUrl, {
-  message: "Message must contain either text content or an image",
+  replyToMessageId: z.string().optional(),
+  clientMessageId: z.string().max(64).optional(),
+}).refine(hasMessageBody, { message: EMPTY_MESSAGE_ERROR });
+
+// Senders may only edit a message for this long after sending it
+export const MESSAGE_EDIT_WINDOW_MINUTES = 15;
+
+export const editMessageSchema = z.object({
+  content: messageContentSchema.min(1, "Message cannot be empty"),
+});
+
+// Search snippets wrap each matched term in these markers (control characters,
+// so they can't collide with anything a user typed)
+export const SEARCH_HIGHLIGHT_START = "\u0001";
+export const SEARCH_HIGHLIGHT_END = "\u0002";
+
+export const messageSearchSchema = z.object({
+  q: z.string().trim().min(2, "Search query must be at least 2 characters").max(200, "Search query is too long"),
+});
+
+export const insertMessageReactionSchema = createInsertSchema(messageReactions).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  emoji: z.string().min(1).max(16, "Invalid reaction"),
 });
 
+export const NOTIFICATION_TYPES = ["profile_view", "profile_like", "message_received", "message_request", "message_request_accepted", "moderation_warning"] as const;
+
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
   id: true,
   createdAt: true,
   isRead: true,
 }).extend({
-  type: z.enum(["profile_view", "message_received"]),
+  type: z.enum(NOTIFICATION_TYPES),
   data: z.record(z.any()).optional(),
 });
 
+// Messages before the reported one that are kept with the report
+export const REPORT_CONTEXT_MESSAGES = 10;
+
+export const REPORT_REASONS = ["spam", "harassment", "inappropriate_content", "fake_profile", "underage", "other"] as const;
+
+// Open until a moderator dismisses it or acts on it
+export const REPORT_STATUSES = ["open", "resolved", "dismissed"] as const;
+
+// "resolve" closes the report without acting against the reported user
+export const MODERATION_ACTIONS = ["dismiss", "resolve", "warn", "suspend"] as const;
+
+export const createReportSchema = z.object({
+  targetUserId: z.string().min(1, "Choose who to report"),
+  messageId: z.string().optional(),
+  reason: z.enum(REPORT_REASONS, { message: "Choose a reason" }),
+  details: z.string().trim().max(1000, "Details must be at most 1000 characters").optional(),
+});
+
+export const moderateReportSchema = z.object({
+  action: z.enum(MODERATION_ACTIONS, { message: "Invalid action" }),
+  note: z.string().trim().max(1000, "Note must be at most 1000 characters").optional(),
+  // Suspensions only; leave out to suspend until further notice
+  suspendDays: z.number().int().min(1, "Invalid suspension length").max(365, "Invalid suspension length").optional(),
+});
+
+export function isSuspended(user: Pick<User, "suspendedAt" | "suspendedUntil">) {
+  if (!user.suspendedAt) return false;
+  return !user.suspendedUntil || new Date(user.suspendedUntil) > new Date();
+}
+
+export function toSuspensionNotice(user: Pick<User, "suspendedUntil" | "suspensionReason">): SuspensionNotice {
+  return {
+    message: "This account has been suspended",
+    suspendedUntil: user.suspendedUntil,
+    suspensionReason: user.suspensionReason,
+  };
+}
+
+// Lowest to highest; each role can do everything the ones before it can.
+// Moderators work reports and content, admins also manage roles and sessions.
+export const USER_ROLES = ["user", "moderator", "admin"] as const;
+
+export function hasRole(user: Pick<User, "role">, role: UserRole) {
+  return USER_ROLES.indexOf(user.role as UserRole) >= USER_ROLES.indexOf(role);
+}
+
+export const AUDIT_ACTIONS = [
+  "login",
+  "login_failed",
+  "profile_updated",
+  "photo_deleted",
+  "user_blocked",
+  "user_unblocked",
+  "report_created",
+  "report_reviewed",
+  "user_suspended",
+  "user_unsuspended",
+  "role_changed",
+  "sessions_revoked",
+  "message_deleted",
+  "profile_content_removed",
+] as const;
+
+// Profile fields staff can wipe when they break the rules
+export const PROFILE_CONTENT_FIELDS = ["profilePhoto", "photos", "bio"] as const;
+
+// Filters for browsing and exporting audit events; from/to bound createdAt
+export const auditEventQuerySchema = z.object({
+  actorId: z.string().optional(),
+  targetUserId: z.string().optional(),
+  action: z.enum(AUDIT_ACTIONS, { message: "Invalid action" }).optional(),
+  from: z.coerce.date({ message: "Invalid start date" }).optional(),
+  to: z.coerce.date({ message: "Invalid end date" }).optional(),
+});
+
+export const AUDIT_EXPORT_FORMATS = ["csv", "ndjson"] as const;
+
+export const auditExportQuerySchema = auditEventQuerySchema.extend({
+  format: z.enum(AUDIT_EXPORT_FORMATS, { message: "Export format must be csv or ndjson" }).default("csv"),
+});
+
+export const adminUserSearchSchema = z.object({
+  q: z.string().trim().max(100, "Search query is too long").optional(),
+});
+
+export const suspendUserSchema = z.object({
+  // Leave out to suspend until further notice
+  days: z.number().int().min(1, "Invalid suspension length").max(365, "Invalid suspension length").optional(),
+  // Shown to the suspended user; the note only goes in the audit log
+  reason: z.string().trim().min(1, "Give a reason for the suspension").max(300, "Reason must be at most 300 characters"),
+  note: z.string().trim().max(1000, "Note must be at most 1000 characters").optional(),
+});
+
+export const updateUserRoleSchema = z.object({
+  role: z.enum(USER_ROLES, { message: "Invalid role" }),
+});
+
+export const removeProfileContentSchema = z.object({
+  fields: z.array(z.enum(PROFILE_CONTENT_FIELDS)).min(1, "Choose what to remove"),
+  note: z.string().trim().max(1000, "Note must be at most 1000 characters").optional(),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
+// A validation or uniqueness error on one field of a submitted form
+export type FieldError = { field: string; message: string };
+export type UpdateProfile = z.infer<typeof updateProfileSchema>;
 export type User = typeof users.$inferSelect;
+// Profile fields safe to show other users
+export type PublicUser = Pick<User, "id" | "username" | "firstName" | "lastName" | "gender" | "age" | "location" | "bio" | "profilePhoto" | "photos" | "isOnline" | "presence" | "lastSeen">;
+export type Presence = typeof PRESENCES[number];
+export type PresenceStatus = typeof PRESENCE_STATUSES[number];
+export type PrivacySettings = Pick<User, "hideOnlineStatus" | "hideLastSeen" | "incognito">;
+export type MessagePolicy = typeof MESSAGE_POLICIES[number];
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
 export type Conversation = typeof conversations.$inferSelect;
+export type ConversationRequestStatus = typeof CONVERSATION_REQUEST_STATUSES[number];
+export type ConversationParticipant = typeof conversationParticipants.$inferSelect;
+export type GroupRole = "owner" | "member";
+export type CreateGroup = z.infer<typeof createGroupSchema>;
+export type UpdateGroup = z.infer<typeof updateGroupSchema>;
+export type GroupMember = ConversationParticipant & {
+  user: Pick<User, "id" | "firstName" | "lastName" | "profilePhoto" | "isOnline" | "hideOnlineStatus">;
+};
+export type GroupDetails = Conversation & { members: GroupMember[] };
+// Someone who couldn't be added to a group, and why
+export type RefusedGroupMember = { userId: string; message: string };
+// Inbox entry: direct chats carry the other user, groups their members
+export type ConversationSummary = Conversation & {
+  otherUser?: User;
+  members?: GroupMember[];
+  lastMessage?: Message;
+  unreadCount: number;
+};
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Message = typeof messages.$inferSelect;
+export type InsertMessageReaction = z.infer<typeof insertMessageReactionSchema>;
+export type MessageReaction = typeof messageReactions.$inferSelect;
+// Just enough of the original message to render a quoted reply
+export type MessageReplyPreview = Pick<Message, "id" | "senderId" | "content" | "imageUrl" | "deletedAt">;
+// Messages served to clients carry their reactions and the message they reply to
+export type MessageWithReactions = Message & {
+  reactions?: MessageReaction[];
+  replyTo?: MessageReplyPreview | null;
+};
+// One page of conversation history, oldest first; nextCursor points at older messages
+export type MessagePage = { messages: MessageWithReactions[]; nextCursor: string | null };
+// A message matching a search, with a highlighted excerpt of its content
+export type MessageSearchMatch = Message & { snippet: string; otherUserId: string | null };
+export type MessageSearchResult = {
+  message: Message;
+  snippet: string;
+  otherUser?: Pick<User, "id" | "firstName" | "lastName" | "profilePhoto">;
+  group?: Pick<Conversation, "id" | "name" | "avatarUrl">;
+};
+export type Block = typeof blocks.$inferSelect;
+export type ProfileLike = typeof profileLikes.$inferSelect;
+// Entry of the blocker's "blocked users" list
+export type BlockedUser = Pick<User, "id" | "username" | "firstName" | "lastName" | "profilePhoto"> & { blockedAt: Date | null };
+export type ReportedMessage = Pick<Message, "id" | "senderId" | "content" | "imageUrl" | "timestamp" | "editedAt" | "deletedAt">;
+export type ReportReason = typeof REPORT_REASONS[number];
+export type ReportStatus = typeof REPORT_STATUSES[number];
+export type ModerationAction = typeof MODERATION_ACTIONS[number];
+export type CreateReport = z.infer<typeof createReportSchema>;
+export type ModerateReport = z.infer<typeof moderateReportSchema>;
+export type Report = typeof reports.$inferSelect;
+export type InsertReport = Pick<Report, "reporterId" | "targetUserId" | "messageId" | "messageSnapshot" | "reason" | "details">;
+// Moderation queue entry
+export type ReportWithUsers = Report & {
+  reporter: Pick<User, "id" | "username" | "firstName" | "lastName">;
+  targetUser: Pick<User, "id" | "username" | "firstName" | "lastName" | "profilePhoto" | "suspendedAt" | "suspendedUntil">;
+};
+export type UserRole = typeof USER_ROLES[number];
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+export type ProfileContentField = typeof PROFILE_CONTENT_FIELDS[number];
+export type SuspendUser = z.infer<typeof suspendUserSchema>;
+// Why a suspended account can't sign in; sent with the 403 from /api/login and
+// over the socket right before it's closed
+export type SuspensionNotice = Pick<User, "suspendedUntil" | "suspensionReason"> & { message: string };
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = Omit<AuditEvent, "id" | "createdAt">;
+export type AuditEventQuery = z.infer<typeof auditEventQuerySchema>;
+export type AuditEventWithUsers = AuditEvent & {
+  actor: Pick<User, "id" | "username" | "firstName" | "lastName"> | null;
+  targetUser: Pick<User, "id" | "username" | "firstName" | "lastName"> | null;
+};
+// Everything about an account except its password, as the admin console sees it
+export type AdminUser = Omit<User, "password">;
+export type AdminUserDetails = AdminUser & {
+  messagesSent: number;
+  reportsAgainst: number;
+  reportsFiled: number;
+  activeSessions: number;
+  recentActivity: AuditEventWithUsers[];
+};
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type Notification = typeof notifications.$inferSelect;
@@ -0,0 +1,159 @@
+import { z } from "zod";
+import type { Message, MessageReaction, MessageWithReactions, Notification, PublicUser, SuspensionNotice } from "./schema";
+import { CONVERSATION_REQUEST_STATUSES, EMPTY_MESSAGE_ERROR, NOTIFICATION_TYPES, PRESENCES, hasMessageBody, messageContentSchema } from "./schema";
+
+// Frames exchanged over /ws. Client frames are validated by the server; server
+// frames are trusted by the client, so entities from storage are only described
+// by their types (and their dates arrive as ISO strings, like over REST).
+
+// Close code for sockets of a suspended account, so the client stops reconnecting
+// and signs out (4000-4999 are reserved for applications)
+export const WS_CLOSE_ACCOUNT_SUSPENDED = 4003;
+
+// Machine-readable reasons on error frames, for errors the client handles
+// beyond showing the message
+export const WS_ERROR_CODES = ["messaging_restricted"] as const;
+
+// How an event addresses a chat: the other user for direct chats, or a group
+const chatRef = {
+  otherUserId: z.string().optional(),
+  groupId: z.string().optional(),
+};
+
+// Direct messages and typing name the recipient rather than "the other user"
+const chatTarget = {
+  receiverId: z.string().optional(),
+  groupId: z.string().optional(),
+};
+
+export const clientEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("openChatWindow"), ...chatRef }),
+  z.object({ type: z.literal("closeChatWindow"), ...chatRef }),
+  z.object({
+    type: z.literal("resume"),
+    lastMessageId: z.string().optional(),
+    since: z.string().datetime({ message: "Invalid resume point" }).optional(),
+  }),
+  z.object({
+    type: z.literal("sendMessage"),
+    ...chatTarget,
+    content: messageContentSchema.optional(),
+    imageUrl: z.string().optional(),
+    replyToMessageId: z.string().optional(),
+    clientMessageId: z.string().max(64, "Invalid client message id").optional(),
+  }),
+  z.object({ type: z.literal("markRead"), ...chatRef, upToMessageId: z.string().optional() }),
+  z.object({ type: z.literal("typing"), ...chatTarget, isTyping: z.boolean() }),
+  z.object({ type: z.literal("editMessage"), messageId: z.string(), content: z.string() }),
+  z.object({ type: z.literal("deleteMessage"), messageId: z.string() }),
+  z.object({ type: z.literal("reactToMessage"), messageId: z.string(), emoji: z.string() }),
+  // This connection has (or no longer has) seen no user activity for AWAY_AFTER_MINUTES
+  z.object({ type: z.literal("setIdle"), idle: z.boolean() }),
+], {
+  errorMap: (issue, ctx) => ({
+    message: issue.code === "invalid_union_discriminator" ? "Unknown message type" : ctx.defaultError,
+  }),
+}).superRefine((event, ctx) => {
+  // Union members can't carry refinements, so sends are checked here the way
+  // insertMessageSchema checks them
+  if (event.type === "sendMessage" && !hasMessageBody(event)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: EMPTY_MESSAGE_ERROR, path: ["content"] });
+  }
+});
+
+// Notification pushed the moment it's created
+const pushedNotificationSchema = z.object({
+  id: z.string(),
+  type: z.enum(NOTIFICATION_TYPES),
+  fromUserId: z.string(),
+  fromUserName: z.string(),
+  fromUserPhoto: z.string().nullable(),
+  message: z.string(),
+  createdAt: z.date().nullable(),
+});
+
+export type ReplayedNotification = Notification & { fromUser: PublicUser };
+
+export const serverEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("connected"), serverTime: z.date() }),
+  z.object({
+    type: z.literal("missedEvents"),
+    messages: z.array(z.object({ message: z.custom<MessageWithReactions>(), ...chatRef })),
+    notifications: z.array(z.custom<ReplayedNotification>()),
+    hasMore: z.boolean(),
+  }),
+  z.object({
+    type: z.literal("newMessage"),
+    message: z.custom<MessageWithReactions>(),
+    sender: z.custom<PublicUser>().nullable(),
+    ...chatRef,
+  }),
+  z.object({
+    type: z.literal("messageConfirmed"),
+    message: z.custom<MessageWithReactions>(),
+    clientMessageId: z.string().optional(),
+    ...chatRef,
+  }),
+  z.object({
+    type: z.literal("messagesDelivered"),
+    recipientId: z.string(),
+    conversationId: z.string(),
+    messageIds: z.array(z.string()),
+    deliveredAt: z.date().nullable(),
+  }),
+  z.object({
+    type: z.literal("messagesRead"),
+    conversationId: z.string(),
+    readerId: z.string(),
+    messageIds: z.array(z.string()),
+    readAt: z.date().nullable(),
+    ...chatRef,
+  }),
+  z.object({ type: z.literal("messageUpdated"), message: z.custom<Message>(), ...chatRef }),
+  z.object({
+    type: z.literal("messageReactionsUpdated"),
+    messageId: z.string(),
+    reactions: z.array(z.custom<MessageReaction>()),
+    ...chatRef,
+  }),
+  z.object({
+    type: z.literal("unreadCountUpdated"),
+    conversationId: z.string(),
+    unreadCount: z.number(),
+    totalUnreadCount: z.number(),
+    ...chatRef,
+  }),
+  z.object({
+    type: z.literal("userTyping"),
+    userId: z.string(),
+    groupId: z.string().optional(),
+    isTyping: z.boolean(),
+  }),
+  z.object({ type: z.literal("groupUpdated"), groupId: z.string() }),
+  z.object({
+    type: z.literal("messageRequestUpdated"),
+    conversationId: z.string(),
+    otherUserId: z.string(),
+    requestStatus: z.enum(CONVERSATION_REQUEST_STATUSES),
+  }),
+  z.object({
+    type: z.literal("presenceChanged"),
+    userId: z.string(),
+    presence: z.enum(PRESENCES),
+    lastSeen: z.date().nullable(),
+  }),
+  z.object({ type: z.literal("newNotification"), notification: pushedNotificationSchema }),
+  // Sent just before the socket closes with WS_CLOSE_ACCOUNT_SUSPENDED
+  z.object({ type: z.literal("accountSuspended"), notice: z.custom<SuspensionNotice>() }),
+  z.object({
+    type: z.literal("error"),
+    message: z.string(),
+    clientMessageId: z.string().optional(),
+    code: z.enum(WS_ERROR_CODES).optional(),
+    ...chatRef,
+  }),
+]);
+
+export type ClientEvent = z.infer<typeof clientEventSchema>;
+export type ServerEvent = z.infer<typeof serverEventSchema>;
+export type ServerEventOf<T extends ServerEvent["type"]> = Extract<ServerEvent, { type: T }>;